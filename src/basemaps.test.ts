@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { OSM_BASEMAP, basemapProblem, graticuleLabel, graticuleStep, graticuleValues } from './basemaps';
+
+describe('basemapProblem', () => {
+  it('accepts XYZ and TMS templates and WMS endpoints with layers', () => {
+    expect(basemapProblem(OSM_BASEMAP.kind, OSM_BASEMAP.url)).toBeNull();
+    expect(basemapProblem('xyz', 'https://tiles.example.com/{z}/{x}/{-y}.png')).toBeNull();
+    expect(basemapProblem('wms', 'https://maps.example.com/wms', 'roads,water')).toBeNull();
+  });
+
+  it('explains what is wrong', () => {
+    expect(basemapProblem('xyz', 'tiles/{z}/{x}/{y}.png')).toBe('not a valid URL');
+    expect(basemapProblem('xyz', 'file:///tiles/{z}/{x}/{y}.png')).toBe('only http(s) URLs are supported');
+    expect(basemapProblem('xyz', 'https://tiles.example.com/{z}/{x}.png')).toMatch(/need \{z\}, \{x\} and \{y\}/);
+    expect(basemapProblem('wms', 'https://maps.example.com/wms', ' ')).toBe('WMS needs at least one layer name');
+  });
+});
+
+describe('graticule', () => {
+  it('picks a round spacing with at least three lines across', () => {
+    expect(graticuleStep(100)).toBe(30);
+    expect(graticuleStep(1)).toBe(0.25);
+    expect(graticuleStep(0.0001)).toBe(0.001);
+  });
+
+  it('lists the lines in a range without float drift', () => {
+    expect(graticuleValues(-0.25, 0.35, 0.1)).toEqual([-0.2, -0.1, 0, 0.1, 0.2, 0.3]);
+  });
+
+  it('labels lines with their hemisphere', () => {
+    expect(graticuleLabel(-0.25, 'lat', 0.25)).toBe('0.25°S');
+    expect(graticuleLabel(30, 'lon', 10)).toBe('30°E');
+    expect(graticuleLabel(0, 'lon', 10)).toBe('0°');
+  });
+});
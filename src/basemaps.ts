@@ -0,0 +1,62 @@
+// Basemap sources (built-in OpenStreetMap or user XYZ/WMS templates) and the graticule drawn
+// when there is no basemap.
+
+export type BasemapKind = 'xyz' | 'wms';
+
+export interface BasemapSource {
+  id: string;
+  name: string;
+  kind: BasemapKind;
+  url: string; // XYZ template with {z}/{x}/{y} (or {-y}), or a WMS endpoint
+  wmsLayers?: string; // comma-separated WMS layer names
+  attribution?: string;
+}
+
+export const OSM_BASEMAP: BasemapSource = {
+  id: 'osm',
+  name: 'OpenStreetMap',
+  kind: 'xyz',
+  url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution: '&copy; OpenStreetMap contributors',
+};
+
+// Basemap ids that aren't URL sources
+export const MBTILES_BASEMAP = 'mbtiles';
+export const NO_BASEMAP = 'none';
+
+/** Why a source can't be used, or null when it looks fine. */
+export function basemapProblem(kind: BasemapKind, url: string, wmsLayers?: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.replace(/\{-?[a-z]\}/g, '0'));
+  } catch {
+    return 'not a valid URL';
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return 'only http(s) URLs are supported';
+  if (kind === 'xyz' && !(url.includes('{z}') && url.includes('{x}') && (url.includes('{y}') || url.includes('{-y}')))) {
+    return 'XYZ templates need {z}, {x} and {y} (or {-y} for TMS)';
+  }
+  if (kind === 'wms' && !wmsLayers?.trim()) return 'WMS needs at least one layer name';
+  return null;
+}
+
+// Round spacings in degrees, coarsest first
+const GRATICULE_STEPS = [30, 20, 10, 5, 2, 1, 0.5, 0.25, 0.1, 0.05, 0.02, 0.01, 0.005, 0.002, 0.001];
+
+/** Coarsest round spacing that still puts at least three lines across the span. */
+export function graticuleStep(spanDeg: number): number {
+  return GRATICULE_STEPS.find(step => spanDeg / step >= 3) ?? GRATICULE_STEPS[GRATICULE_STEPS.length - 1];
+}
+
+/** Multiples of step within [from, to]. */
+export function graticuleValues(from: number, to: number, step: number): number[] {
+  const out: number[] = [];
+  for (let k = Math.ceil(from / step); k * step <= to; k++) out.push(+(k * step).toFixed(6));
+  return out;
+}
+
+export function graticuleLabel(value: number, axis: 'lat' | 'lon', step: number): string {
+  const decimals = String(step).split('.')[1]?.length ?? 0;
+  const hemi = value === 0 ? '' : axis === 'lat' ? (value > 0 ? 'N' : 'S') : (value > 0 ? 'E' : 'W');
+  return `${Math.abs(value).toFixed(decimals)}°${hemi}`;
+}
@@ -0,0 +1,215 @@
+// Minimal canvas line chart for per-point series (speed, elevation, …) with a
+// hover cursor and a drag-to-brush range, used by the panel under the map.
+
+export type ChartSeries = {
+  ys: number[]; // one value per point, NaN for gaps
+  color: string;
+  label: string;
+  format: (y: number) => string;
+  fromZero?: boolean; // the axis starts at zero (speeds), rather than at the lowest value (elevation)
+};
+
+export type ChartData = {
+  xs: number[]; // one value per point, non-decreasing
+  formatX: (x: number) => string;
+  series: ChartSeries[]; // first on the left axis, an optional second on the right
+};
+
+export type ChartHandlers = {
+  onHover: (index: number | null) => void;
+  onBrush: (startIndex: number, endIndex: number) => void;
+  onReset: () => void;
+};
+
+export type Chart = {
+  setData: (data: ChartData | null) => void;
+  setCursor: (index: number | null) => void;
+};
+
+const PAD = { l: 56, r: 56, t: 10, b: 22 };
+const MIN_BRUSH_PX = 4;
+
+export function createChart(canvas: HTMLCanvasElement, handlers: ChartHandlers): Chart {
+  const ctx = canvas.getContext('2d')!;
+  let data: ChartData | null = null;
+  let cursor: number | null = null;
+  let brushFrom: number | null = null;
+  let brushTo: number | null = null;
+
+  const plotWidth = () => canvas.clientWidth - PAD.l - PAD.r;
+  const plotHeight = () => canvas.clientHeight - PAD.t - PAD.b;
+
+  function xRange(): [number, number] {
+    const xs = data!.xs;
+    const lo = xs[0];
+    const hi = xs[xs.length - 1];
+    return hi > lo ? [lo, hi] : [lo, lo + 1];
+  }
+
+  function xToPx(x: number): number {
+    const [lo, hi] = xRange();
+    return PAD.l + ((x - lo) / (hi - lo)) * plotWidth();
+  }
+
+  function indexAtPx(px: number): number {
+    const [lo, hi] = xRange();
+    const x = lo + ((px - PAD.l) / plotWidth()) * (hi - lo);
+    const xs = data!.xs;
+    // Binary search for the nearest sample
+    let a = 0;
+    let b = xs.length - 1;
+    while (b - a > 1) {
+      const mid = (a + b) >> 1;
+      if (xs[mid] < x) a = mid; else b = mid;
+    }
+    return Math.abs(xs[a] - x) <= Math.abs(xs[b] - x) ? a : b;
+  }
+
+  function draw() {
+    const dpr = window.devicePixelRatio || 1;
+    const w = canvas.clientWidth;
+    const h = canvas.clientHeight;
+    if (canvas.width !== Math.round(w * dpr) || canvas.height !== Math.round(h * dpr)) {
+      canvas.width = Math.round(w * dpr);
+      canvas.height = Math.round(h * dpr);
+    }
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, w, h);
+    ctx.font = '11px system-ui, sans-serif';
+
+    if (!data || data.xs.length < 2) {
+      ctx.fillStyle = '#9aa4ad';
+      ctx.fillText('Load a route to see its chart', PAD.l, PAD.t + 14);
+      return;
+    }
+
+    // X axis ticks
+    const [xLo, xHi] = xRange();
+    ctx.strokeStyle = '#1b2128';
+    ctx.fillStyle = '#9aa4ad';
+    ctx.textAlign = 'center';
+    for (const x of niceTicks(xLo, xHi, Math.max(2, Math.floor(plotWidth() / 110)))) {
+      const px = xToPx(x);
+      line(px, PAD.t, px, PAD.t + plotHeight());
+      ctx.fillText(data.formatX(x), px, h - 6);
+    }
+
+    data.series.slice(0, 2).forEach((s, k) => drawSeries(s, k === 0 ? 'left' : 'right'));
+
+    // Brush selection
+    if (brushFrom != null && brushTo != null) {
+      ctx.fillStyle = 'rgba(77, 163, 255, 0.18)';
+      const a = Math.min(brushFrom, brushTo);
+      ctx.fillRect(a, PAD.t, Math.abs(brushTo - brushFrom), plotHeight());
+    }
+
+    // Cursor
+    if (cursor != null && cursor >= 0 && cursor < data.xs.length) {
+      const px = xToPx(data.xs[cursor]);
+      ctx.strokeStyle = '#e7ecef';
+      line(px, PAD.t, px, PAD.t + plotHeight());
+      ctx.textAlign = px > PAD.l + plotWidth() / 2 ? 'right' : 'left';
+      const labels = [data.formatX(data.xs[cursor]), ...data.series.map(s => `${s.label}: ${s.format(s.ys[cursor!])}`)];
+      ctx.fillStyle = '#e7ecef';
+      labels.forEach((text, i) => ctx.fillText(text, px + (ctx.textAlign === 'right' ? -6 : 6), PAD.t + 12 + i * 13));
+    }
+  }
+
+  function drawSeries(s: ChartSeries, side: 'left' | 'right') {
+    const finite = s.ys.filter(v => isFinite(v));
+    if (!finite.length) return;
+    // Not spread into Math.min/max: long routes overflow the argument limit
+    let lo = finite.reduce((a, b) => Math.min(a, b));
+    let hi = finite.reduce((a, b) => Math.max(a, b));
+    if (s.fromZero && lo > 0) lo = 0;
+    if (hi <= lo) hi = lo + 1;
+    const yToPx = (y: number) => PAD.t + plotHeight() - ((y - lo) / (hi - lo)) * plotHeight();
+
+    ctx.fillStyle = s.color;
+    ctx.textAlign = side === 'left' ? 'right' : 'left';
+    ctx.strokeStyle = '#1b2128';
+    for (const y of niceTicks(lo, hi, Math.max(2, Math.floor(plotHeight() / 36)))) {
+      const py = yToPx(y);
+      if (side === 'left') line(PAD.l, py, PAD.l + plotWidth(), py);
+      ctx.fillText(s.format(y), side === 'left' ? PAD.l - 4 : PAD.l + plotWidth() + 4, py + 4);
+    }
+
+    ctx.strokeStyle = s.color;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    let pen = false;
+    for (let i = 0; i < data!.xs.length; i++) {
+      const y = s.ys[i];
+      if (!isFinite(y)) { pen = false; continue; }
+      const px = xToPx(data!.xs[i]);
+      const py = yToPx(y);
+      if (pen) ctx.lineTo(px, py); else ctx.moveTo(px, py);
+      pen = true;
+    }
+    ctx.stroke();
+    ctx.lineWidth = 1;
+  }
+
+  function line(x1: number, y1: number, x2: number, y2: number) {
+    ctx.beginPath();
+    ctx.moveTo(x1, y1);
+    ctx.lineTo(x2, y2);
+    ctx.stroke();
+  }
+
+  function localX(e: MouseEvent): number {
+    const rect = canvas.getBoundingClientRect();
+    return Math.max(PAD.l, Math.min(PAD.l + plotWidth(), e.clientX - rect.left));
+  }
+
+  canvas.addEventListener('mousedown', (e) => {
+    if (!data) return;
+    brushFrom = brushTo = localX(e);
+  });
+  canvas.addEventListener('mousemove', (e) => {
+    if (!data || data.xs.length < 2) return;
+    const px = localX(e);
+    if (brushFrom != null) brushTo = px;
+    cursor = indexAtPx(px);
+    handlers.onHover(cursor);
+    draw();
+  });
+  window.addEventListener('mouseup', () => {
+    if (!data || brushFrom == null || brushTo == null) return;
+    const a = Math.min(brushFrom, brushTo);
+    const b = Math.max(brushFrom, brushTo);
+    brushFrom = brushTo = null;
+    if (b - a >= MIN_BRUSH_PX) handlers.onBrush(indexAtPx(a), indexAtPx(b));
+    draw();
+  });
+  canvas.addEventListener('mouseleave', () => {
+    cursor = null;
+    handlers.onHover(null);
+    draw();
+  });
+  canvas.addEventListener('dblclick', () => handlers.onReset());
+  new ResizeObserver(() => draw()).observe(canvas);
+
+  draw();
+  return {
+    setData(next) {
+      data = next;
+      cursor = null;
+      draw();
+    },
+    setCursor(index) {
+      cursor = index;
+      draw();
+    },
+  };
+}
+
+function niceTicks(lo: number, hi: number, count: number): number[] {
+  const raw = (hi - lo) / count;
+  if (!(raw > 0) || !isFinite(raw)) return [lo];
+  const mag = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 5, 10].map(m => m * mag).find(s => s >= raw) ?? 10 * mag;
+  const ticks: number[] = [];
+  for (let v = Math.ceil(lo / step) * step; v <= hi + step * 1e-9; v += step) ticks.push(v);
+  return ticks;
+}
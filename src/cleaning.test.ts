@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CLEANING, cleanTrack } from './cleaning';
+import type { LatLngTime } from './utils';
+import { cumulativeDistancesMeters, haversineMeters } from './utils';
+
+const T0 = Date.parse('2024-07-01T12:00:00Z');
+const ON = { ...DEFAULT_CLEANING, enabled: true };
+
+// About 11 m north per 1 s step: well under the spike speed
+function walk(n: number): LatLngTime[] {
+  return Array.from({ length: n }, (_, i) => ({ lat: 29.5 + i * 1e-4, lon: -95 }));
+}
+const times = (n: number) => Array.from({ length: n }, (_, i) => T0 + i * 1000);
+
+describe('cleanTrack', () => {
+  it('does nothing when disabled', () => {
+    const points = walk(3);
+    expect(cleanTrack(points, times(3), DEFAULT_CLEANING)).toMatchObject({ points, kept: [0, 1, 2], removed: [] });
+  });
+
+  it('removes repeated times and speed spikes', () => {
+    const points = walk(5);
+    points[3] = { lat: 30.5, lon: -95 }; // 100 km away for one second
+    const tms = times(5);
+    tms[2] = tms[1];
+    const result = cleanTrack(points, tms, ON);
+    expect(result.kept).toEqual([0, 1, 4]);
+    expect(result.removed).toEqual([{ index: 2, reason: 'duplicate' }, { index: 3, reason: 'spike' }]);
+    expect(result.timesMs).toEqual([tms[0], tms[1], tms[4]]);
+  });
+
+  it('removes an outlier at the first point instead of everything after it', () => {
+    const points = walk(5);
+    points[0] = { lat: 30.5, lon: -95 };
+    const result = cleanTrack(points, times(5), ON);
+    expect(result.kept).toEqual([1, 2, 3, 4]);
+    expect(result.removed).toEqual([{ index: 0, reason: 'spike' }]);
+  });
+
+  it('removes a run of leading outliers', () => {
+    const points = walk(6);
+    points[0] = { lat: 30.5, lon: -95 };
+    points[1] = { lat: 28.5, lon: -95 };
+    const result = cleanTrack(points, times(6), ON);
+    expect(result.kept).toEqual([2, 3, 4, 5]);
+    expect(result.removed.map(r => r.index)).toEqual([0, 1]);
+  });
+
+  it('smooths without moving the ends', () => {
+    const points = walk(5);
+    points[2] = { ...points[2], lon: -95.0001 };
+    const result = cleanTrack(points, times(5), { ...ON, smoother: 'moving-average', windowSize: 3 });
+    expect(result.points[0]).toEqual(points[0]);
+    expect(result.points[4]).toEqual(points[4]);
+    expect(result.points[2].lon).toBeCloseTo(-95.0000333, 6);
+  });
+
+  it('lets a fast straight track through the Kalman smoother almost unchanged', () => {
+    // 30 m/s north, one fix a second
+    const points = Array.from({ length: 60 }, (_, i) => ({ lat: 29.5 + (i * 30) / 111195, lon: -95 }));
+    const result = cleanTrack(points, times(60), { ...ON, smoother: 'kalman' });
+    // Within a couple of meters at the first fix, where the velocity is still unknown, and no lag after
+    result.points.forEach((p, i) => expect(haversineMeters(p, points[i])).toBeLessThan(i ? 0.5 : 2));
+    expect(cumulativeDistancesMeters(result.points)[59]).toBeCloseTo(cumulativeDistancesMeters(points)[59], -1);
+  });
+
+  it('pulls a noisy fix back towards a steady track', () => {
+    const points = Array.from({ length: 21 }, (_, i) => ({ lat: 29.5 + (i * 30) / 111195, lon: -95 }));
+    points[10] = { ...points[10], lon: -95 + 20 / 96800 }; // 20 m east
+    const result = cleanTrack(points, times(21), { ...ON, smoother: 'kalman' });
+    expect(haversineMeters(result.points[10], { ...points[10], lon: -95 })).toBeLessThan(10);
+  });
+});
@@ -0,0 +1,163 @@
+import type { LatLngTime } from './utils';
+import { haversineMeters, toRad } from './utils';
+
+export type Smoother = 'none' | 'moving-average' | 'kalman';
+
+export interface CleaningOptions {
+  enabled: boolean;
+  collapseDuplicates: boolean; // drop points with dt <= 0 after the previous kept point
+  maxSpeedMps: number | null; // drop points reached faster than this from the previous kept point
+  smoother: Smoother;
+  windowSize: number; // moving-average window, points (odd)
+  kalmanNoiseM: number; // expected GPS position error, meters
+}
+
+export const DEFAULT_CLEANING: CleaningOptions = {
+  enabled: false,
+  collapseDuplicates: true,
+  maxSpeedMps: 70, // ~157 mph
+  smoother: 'none',
+  windowSize: 5,
+  kalmanNoiseM: 10,
+};
+
+export type RemovalReason = 'duplicate' | 'spike';
+
+export interface CleaningResult {
+  points: LatLngTime[];
+  timesMs: number[];
+  kept: number[]; // input index of each output point
+  removed: { index: number; reason: RemovalReason }[];
+}
+
+// Process noise for the Kalman smoother: how sharply (m/s²) the true velocity may change
+const KALMAN_ACCEL_MPS2 = 2;
+// Prior spread of the unknown starting velocity, m/s
+const KALMAN_START_MPS = 50;
+
+export function cleanTrack(points: LatLngTime[], timesMs: number[], opts: CleaningOptions): CleaningResult {
+  const n = points.length;
+  if (!opts.enabled || n < 2) {
+    return { points, timesMs, kept: points.map((_, i) => i), removed: [] };
+  }
+
+  // 1) Duplicate / zero-dt collapsing and speed spike removal, against the neighbouring kept point.
+  // The walk starts from the first pair of points that agree, so an outlier at the start doesn't
+  // make every genuine point after it look like a spike; points before that pair are checked
+  // backwards from it.
+  const check = (a: number, b: number): RemovalReason | null => {
+    const dt = (timesMs[b] - timesMs[a]) / 1000;
+    if (opts.collapseDuplicates && dt <= 0) return 'duplicate';
+    if (opts.maxSpeedMps != null && dt > 0 && haversineMeters(points[a], points[b]) / dt > opts.maxSpeedMps) return 'spike';
+    return null;
+  };
+  let seed = 0;
+  while (seed + 1 < n && check(seed, seed + 1) === 'spike') seed++;
+  if (seed === n - 1) seed = 0; // no two points agree: nothing to anchor on, keep the old walk
+  const kept: number[] = [seed];
+  const removed: CleaningResult['removed'] = [];
+  for (let j = seed - 1; j >= 0; j--) {
+    const reason = check(j, kept[0]);
+    if (reason) removed.push({ index: j, reason });
+    else kept.unshift(j);
+  }
+  for (let i = seed + 1; i < n; i++) {
+    const reason = check(kept[kept.length - 1], i);
+    if (reason) removed.push({ index: i, reason });
+    else kept.push(i);
+  }
+  removed.sort((a, b) => a.index - b.index);
+
+  let outPoints = kept.map(i => ({ ...points[i] }));
+  const outTimes = kept.map(i => timesMs[i]);
+
+  // 2) Smoothing
+  if (opts.smoother === 'moving-average') outPoints = movingAverage(outPoints, opts.windowSize);
+  else if (opts.smoother === 'kalman') outPoints = kalmanSmooth(outPoints, outTimes, opts.kalmanNoiseM);
+
+  return { points: outPoints, timesMs: outTimes, kept, removed };
+}
+
+function movingAverage(points: LatLngTime[], windowSize: number): LatLngTime[] {
+  // Centered window that shrinks at the ends, so the first/last points stay put
+  const half = Math.max(0, Math.floor(windowSize / 2));
+  return points.map((p, i) => {
+    const r = Math.min(half, i, points.length - 1 - i);
+    let lat = 0;
+    let lon = 0;
+    for (let j = i - r; j <= i + r; j++) { lat += points[j].lat; lon += points[j].lon; }
+    return { ...p, lat: lat / (2 * r + 1), lon: lon / (2 * r + 1) };
+  });
+}
+
+// 2x2 matrices, row-major
+type Mat2 = [number, number, number, number];
+
+function kalmanSmooth(points: LatLngTime[], timesMs: number[], noiseM: number): LatLngTime[] {
+  // Constant-velocity filter in local meters, then a Rauch-Tung-Striebel pass backwards, so a
+  // steady track at any speed passes through without the lag a constant-position filter has.
+  // Both axes share the same noise model, so they share the covariances too.
+  const n = points.length;
+  const mPerDegLat = 111320;
+  const mPerDegLon = 111320 * Math.cos(toRad(points[0].lat));
+  const r2 = Math.max(1, noiseM) ** 2;
+  const q = KALMAN_ACCEL_MPS2 ** 2;
+  const zx = points.map(p => p.lon * mPerDegLon);
+  const zy = points.map(p => p.lat * mPerDegLat);
+
+  // Filtered state (position, velocity) per axis, with the predicted covariance at each step
+  const fx: [number, number][] = [[zx[0], 0]];
+  const fy: [number, number][] = [[zy[0], 0]];
+  const filtered: Mat2[] = [[r2, 0, 0, KALMAN_START_MPS ** 2]];
+  const predicted: Mat2[] = [filtered[0]];
+  const dts = [0];
+  for (let i = 1; i < n; i++) {
+    const dt = Math.max(0, (timesMs[i] - timesMs[i - 1]) / 1000);
+    dts.push(dt);
+    const [a, b, c, d] = filtered[i - 1];
+    // P = F P Fᵀ + Q, F = [1 dt; 0 1], Q for white-noise acceleration
+    const pp: Mat2 = [
+      a + dt * (b + c) + dt * dt * d + (q * dt ** 3) / 3,
+      b + dt * d + (q * dt * dt) / 2,
+      c + dt * d + (q * dt * dt) / 2,
+      d + q * dt,
+    ];
+    predicted.push(pp);
+    const s = pp[0] + r2;
+    const k0 = pp[0] / s;
+    const k1 = pp[2] / s;
+    const update = (prev: [number, number], z: number): [number, number] => {
+      const pos = prev[0] + dt * prev[1];
+      const innovation = z - pos;
+      return [pos + k0 * innovation, prev[1] + k1 * innovation];
+    };
+    fx.push(update(fx[i - 1], zx[i]));
+    fy.push(update(fy[i - 1], zy[i]));
+    filtered.push([(1 - k0) * pp[0], (1 - k0) * pp[1], pp[2] - k1 * pp[0], pp[3] - k1 * pp[1]]);
+  }
+
+  // Backwards: C = P Fᵀ P⁻¹(predicted), x = x + C (x_next - F x)
+  const sx = fx.slice();
+  const sy = fy.slice();
+  for (let i = n - 2; i >= 0; i--) {
+    const dt = dts[i + 1];
+    const [a, b, c, d] = filtered[i];
+    const [pa, pb, pc, pd] = predicted[i + 1];
+    const det = pa * pd - pb * pc;
+    if (!(Math.abs(det) > 1e-12)) continue;
+    // P Fᵀ = [a, a dt + b; c, c dt + d]
+    const m: Mat2 = [a, a * dt + b, c, c * dt + d];
+    const gain: Mat2 = [
+      (m[0] * pd - m[1] * pc) / det, (m[1] * pa - m[0] * pb) / det,
+      (m[2] * pd - m[3] * pc) / det, (m[3] * pa - m[2] * pb) / det,
+    ];
+    const smooth = (f: [number, number], next: [number, number]): [number, number] => {
+      const e0 = next[0] - (f[0] + dt * f[1]);
+      const e1 = next[1] - f[1];
+      return [f[0] + gain[0] * e0 + gain[1] * e1, f[1] + gain[2] * e0 + gain[3] * e1];
+    };
+    sx[i] = smooth(fx[i], sx[i + 1]);
+    sy[i] = smooth(fy[i], sy[i + 1]);
+  }
+  return points.map((p, i) => ({ ...p, lat: sy[i][0] / mPerDegLat, lon: sx[i][0] / mPerDegLon }));
+}
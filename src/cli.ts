@@ -0,0 +1,317 @@
+#!/usr/bin/env node
+/// <reference types="node" />
+// `geointerp` command line: runs route files (or directories of them) through the processing
+// core and writes the same exports as the web app plus a summary table, no browser needed.
+// Build with `npm run build:cli`; see `geointerp --help`.
+
+import { mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { basename, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import type { ParsedRoute, ProcessOptions, ProcessedRoute } from './core';
+import {
+  DEFAULT_PROCESS_OPTIONS,
+  ImportError,
+  LEG_COLUMNS,
+  baseSeries,
+  SUMMARY_COLUMNS,
+  comparisonCSV,
+  legRoute,
+  legRow,
+  parseRouteFile,
+  processRoute,
+  routeCSV,
+  routeGeoJSON,
+  routeGPX,
+  routeKML,
+  routePolylineJSON,
+  summaryCSV,
+  summaryRow,
+  violationsCSV,
+  zoneVisitsCSV,
+} from './core';
+import { compareRoutes, DEFAULT_COMPARE_OPTIONS } from './compare';
+import { parseZones } from './geofences';
+import { ACCEPTED_EXTENSIONS } from './importers';
+import { parseLimitSections, parseMaxspeed } from './limits';
+import { browserTimeZone, inferTimeZone, isValidTimeZone } from './timezones';
+import type { TimeReconstruction, UnitSystem } from './utils';
+import {
+  MAX_RESAMPLED_POINTS,
+  cumulativeDistancesMeters,
+  formatDistance,
+  formatDuration,
+  formatElevation,
+  mpsToSpeedText,
+  resampleSampleCount,
+} from './utils';
+
+const USAGE = `Usage: geointerp [options] <file|directory>...
+
+Processes every route file (${ACCEPTED_EXTENSIONS.join(' ')}) and writes exports plus summary.csv.
+
+Options:
+  -o, --out <dir>          output directory (default: geointerp-out)
+  -f, --format <list>      comma-separated: csv, gpx, geojson, kml, polyline, none (default: csv)
+  -r, --recursive          descend into subdirectories
+      --units <system>     metric or imperial, for the printed table, violations and zones CSV (default: metric)
+      --tz <zone>          IANA zone for local_time columns, or "route" for each route's start zone
+                           (default: this machine's zone)
+      --time-model <m>     index, distance or hints: how to spread times when a file has none (default: distance)
+      --clean              filter GPS noise (duplicates, speed spikes) with the app's defaults
+      --slope-distance     measure distance along the slope where points carry elevation
+      --legs               also write each leg (trip) separately, plus legs.csv
+      --leg-gap <min>      time gap that ends a leg, in minutes (default: 5)
+      --leg-stop <min>     stop length that ends a leg, in minutes (default: 10)
+      --leg-mode           also end legs where the travel mode (walk, cycle, drive) changes
+      --simplify <m>       Douglas-Peucker simplification tolerance in meters
+      --resample <step>    fixed-step resampling, e.g. 5s or 100m
+      --limit <speed>      speed limit, e.g. "45 mph", "80" (km/h); writes <name>.violations.csv
+      --roads <file>       GeoJSON road sections with properties.maxspeed (implies a limit check)
+      --tolerance <pct>    speed-limit tolerance in percent (default: 10)
+      --zones <file>       GeoJSON polygons (geofences); writes <name>.zones.csv with entries and exits
+      --reference <file>   route to compare against (its first route); writes <name>.compare.csv with
+                           the offset from it and the time delta at every point
+      --max-deviation <m>  farther than this from the reference counts as off route (default: 50)
+      --strict             skip routes whose validation reports errors (issues are always printed)
+  -q, --quiet              don't print the summary table
+  -h, --help               show this help
+`;
+
+type Format = 'csv' | 'gpx' | 'geojson' | 'kml' | 'polyline';
+const FORMATS: Format[] = ['csv', 'gpx', 'geojson', 'kml', 'polyline'];
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+function main(argv: string[]): number {
+  const { values: opts, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o', default: 'geointerp-out' },
+      format: { type: 'string', short: 'f', default: 'csv' },
+      recursive: { type: 'boolean', short: 'r', default: false },
+      units: { type: 'string', default: 'metric' },
+      tz: { type: 'string' },
+      'time-model': { type: 'string', default: 'distance' },
+      clean: { type: 'boolean', default: false },
+      'slope-distance': { type: 'boolean', default: false },
+      legs: { type: 'boolean', default: false },
+      'leg-gap': { type: 'string' },
+      'leg-stop': { type: 'string' },
+      'leg-mode': { type: 'boolean', default: false },
+      simplify: { type: 'string' },
+      resample: { type: 'string' },
+      limit: { type: 'string' },
+      roads: { type: 'string' },
+      tolerance: { type: 'string' },
+      zones: { type: 'string' },
+      reference: { type: 'string' },
+      'max-deviation': { type: 'string' },
+      strict: { type: 'boolean', default: false },
+      quiet: { type: 'boolean', short: 'q', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (opts.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (!positionals.length) throw new UsageError('no input files or directories given');
+
+  const formats = opts.format.split(',').map(f => f.trim().toLowerCase()).filter(f => f && f !== 'none');
+  const unknown = formats.filter(f => !FORMATS.includes(f as Format));
+  if (unknown.length) throw new UsageError(`unknown format ${unknown.join(', ')} (expected ${FORMATS.join(', ')})`);
+  if (opts.units !== 'metric' && opts.units !== 'imperial') throw new UsageError('--units must be metric or imperial');
+  const units: UnitSystem = opts.units;
+  const zone = opts.tz ?? browserTimeZone();
+  if (zone !== 'route' && !isValidTimeZone(zone)) throw new UsageError(`unknown time zone "${zone}"`);
+
+  const options = processOptions(opts);
+  const reference = typeof opts.reference === 'string' ? referenceRoute(opts.reference, options) : null;
+  const maxDeviationM = typeof opts['max-deviation'] === 'string' ? Number(opts['max-deviation']) : DEFAULT_COMPARE_OPTIONS.maxDeviationM;
+  if (!(maxDeviationM > 0)) throw new UsageError('--max-deviation needs a distance in meters');
+  const files = positionals.flatMap(p => routeFiles(p, opts.recursive));
+  if (!files.length) throw new UsageError('no route files found');
+  mkdirSync(opts.out, { recursive: true });
+
+  const rows: (string | number)[][] = [];
+  const legRows: (string | number)[][] = [];
+  const used = new Set<string>();
+  let failures = 0;
+  let rejected = 0;
+  for (const file of files) {
+    let parsed: ParsedRoute[];
+    let routes: ProcessedRoute[];
+    try {
+      parsed = parseRouteFile(basename(file), readFileSync(file, 'utf8')).filter((p) => {
+        const issues = p.issues ?? [];
+        for (const issue of issues) process.stderr.write(`${file}: ${issue.level} at ${issue.path}: ${issue.message}\n`);
+        const reject = opts.strict && issues.some(i => i.level === 'error');
+        if (reject) rejected++;
+        return !reject;
+      });
+      routes = parsed.map(p => processChecked(p, options));
+    } catch (e) {
+      failures++;
+      process.stderr.write(`${file}: ${e instanceof ImportError ? e.message : (e as Error).message}\n`);
+      continue;
+    }
+    routes.forEach((route, k) => {
+      const name = outputName(file, routes.length > 1 ? k + 1 : 0, used);
+      const routeZone = zone === 'route' ? inferTimeZone(route.points[0].lat, route.points[0].lon) : zone;
+      for (const format of formats as Format[]) {
+        writeFileSync(join(opts.out, `${name}.${EXTENSIONS[format]}`), exportRoute(route, format, routeZone));
+      }
+      if (route.violations.length) {
+        writeFileSync(join(opts.out, `${name}.violations.csv`), violationsCSV(route, routeZone, units));
+      }
+      if (route.zoneVisits.length) {
+        writeFileSync(join(opts.out, `${name}.zones.csv`), zoneVisitsCSV(route, routeZone, units));
+      }
+      if (reference) {
+        const comparison = compareRoutes(route, reference, { maxDeviationM });
+        writeFileSync(join(opts.out, `${name}.compare.csv`), comparisonCSV(route, comparison, routeZone));
+      }
+      rows.push(summaryRow(file, route));
+      if (!opts.legs) return;
+      route.legs.forEach((leg, j) => {
+        const part = legRoute(parsed[k], route, leg, j, options);
+        for (const format of formats as Format[]) {
+          writeFileSync(join(opts.out, `${name}.leg${j + 1}.${EXTENSIONS[format]}`), exportRoute(part, format, routeZone));
+        }
+        legRows.push(legRow(file, leg, j, part));
+      });
+    });
+  }
+  writeFileSync(join(opts.out, 'summary.csv'), summaryCSV(rows));
+  if (opts.legs) writeFileSync(join(opts.out, 'legs.csv'), summaryCSV(legRows, LEG_COLUMNS));
+  if (!opts.quiet) process.stdout.write(summaryTable(rows, units));
+  process.stderr.write(`${rows.length} route(s) from ${files.length - failures} file(s) written to ${opts.out}`
+    + (failures ? `; ${failures} file(s) failed` : '') + (rejected ? `; ${rejected} route(s) skipped by --strict` : '') + '\n');
+  return failures || rejected ? 1 : 0;
+}
+
+const EXTENSIONS: Record<Format, string> = { csv: 'csv', gpx: 'gpx', geojson: 'geojson', kml: 'kml', polyline: 'polyline.json' };
+
+function exportRoute(route: ProcessedRoute, format: Format, zone: string): string {
+  switch (format) {
+    case 'csv': return routeCSV(route, zone);
+    case 'gpx': return routeGPX(route);
+    case 'geojson': return routeGeoJSON(route);
+    case 'kml': return routeKML(route);
+    case 'polyline': return routePolylineJSON(route, 5);
+  }
+}
+
+function processOptions(opts: Record<string, string | boolean | undefined>): ProcessOptions {
+  const options: ProcessOptions = { ...DEFAULT_PROCESS_OPTIONS };
+  const model = opts['time-model'];
+  if (model !== 'index' && model !== 'distance' && model !== 'hints') throw new UsageError('--time-model must be index, distance or hints');
+  options.timeModel = model as TimeReconstruction;
+  if (opts.clean) options.cleaning = { ...options.cleaning, enabled: true };
+  if (opts['slope-distance']) options.slopeDistance = true;
+  const minutes = (flag: string) => {
+    const v = opts[flag];
+    if (typeof v !== 'string') return undefined;
+    if (!(Number(v) > 0)) throw new UsageError(`--${flag} needs a number of minutes`);
+    return Number(v) * 60;
+  };
+  options.legOptions = {
+    gapS: minutes('leg-gap') ?? options.legOptions.gapS,
+    stopS: minutes('leg-stop') ?? options.legOptions.stopS,
+    byMode: !!opts['leg-mode'],
+  };
+  if (typeof opts.simplify === 'string') {
+    const toleranceM = Number(opts.simplify);
+    if (!(toleranceM > 0)) throw new UsageError('--simplify needs a tolerance in meters');
+    options.simplify = { method: 'douglas-peucker', toleranceM };
+  }
+  if (typeof opts.resample === 'string') {
+    const m = opts.resample.trim().match(/^(\d+(?:\.\d+)?)\s*(s|m)$/i);
+    if (!m || !(parseFloat(m[1]) > 0)) throw new UsageError('--resample needs a step like 5s or 100m');
+    options.resample = { mode: m[2].toLowerCase() === 's' ? 'time' : 'distance', step: parseFloat(m[1]), method: 'linear' };
+  }
+  if (typeof opts.limit === 'string' || typeof opts.roads === 'string') {
+    const limitMps = typeof opts.limit === 'string' ? parseMaxspeed(opts.limit) : null;
+    if (limitMps === undefined) throw new UsageError(`can't read speed limit "${opts.limit}" (try "45 mph" or "80")`);
+    const tolerancePct = typeof opts.tolerance === 'string' ? Number(opts.tolerance) : options.speedLimit.tolerancePct;
+    if (!(tolerancePct >= 0)) throw new UsageError('--tolerance needs a percentage');
+    options.speedLimit = { ...options.speedLimit, enabled: true, limitMps, tolerancePct };
+    if (typeof opts.roads === 'string') options.limitSections = parseLimitSections(readFileSync(opts.roads, 'utf8'));
+  }
+  if (typeof opts.zones === 'string') options.zones = parseZones(readFileSync(opts.zones, 'utf8'));
+  return options;
+}
+
+function referenceRoute(file: string, options: ProcessOptions): ProcessedRoute {
+  const [parsed] = parseRouteFile(basename(file), readFileSync(file, 'utf8'));
+  if (!parsed) throw new UsageError(`no route in reference file ${file}`);
+  return processChecked(parsed, options);
+}
+
+/** processRoute, refusing a resampling step that would produce more points than the web app allows. */
+function processChecked(parsed: ParsedRoute, options: ProcessOptions): ProcessedRoute {
+  if (options.resample) {
+    const base = baseSeries(parsed, options);
+    const count = resampleSampleCount(base.timesMs, cumulativeDistancesMeters(base.points), options.resample);
+    if (count > MAX_RESAMPLED_POINTS) {
+      throw new Error(`a ${options.resample.step}${options.resample.mode === 'time' ? 's' : 'm'} step would produce ${count} points (limit ${MAX_RESAMPLED_POINTS}); use a larger --resample step`);
+    }
+  }
+  return processRoute(parsed, options);
+}
+
+function routeFiles(path: string, recursive: boolean): string[] {
+  if (!statSync(path).isDirectory()) return [path];
+  return readdirSync(path, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap((entry) => {
+      const full = join(path, entry.name);
+      if (entry.isDirectory()) return recursive ? routeFiles(full, true) : [];
+      return ACCEPTED_EXTENSIONS.includes(extname(entry.name).toLowerCase()) ? [full] : [];
+    });
+}
+
+/** File-safe output name from the input file, unique within this run. */
+function outputName(file: string, part: number, used: Set<string>): string {
+  const stem = basename(file, extname(file)).replace(/[^\w.-]+/g, '_') || 'route';
+  const base = part ? `${stem}-${part}` : stem;
+  let name = base;
+  for (let n = 2; used.has(name); n++) name = `${base}-${n}`;
+  used.add(name);
+  return name;
+}
+
+function summaryTable(rows: (string | number)[][], units: UnitSystem): string {
+  const col = (name: typeof SUMMARY_COLUMNS[number]) => SUMMARY_COLUMNS.indexOf(name);
+  const header = ['File', 'Label', 'Points', 'Distance', 'Duration', 'Moving', 'Avg', 'Max', 'Climb', 'Stops', 'Over limit'];
+  const body = rows.map(r => [
+    basename(String(r[col('source')])),
+    String(r[col('label')]),
+    String(r[col('points')]),
+    formatDistance(Number(r[col('distance_m')]), units).text,
+    formatDuration(Number(r[col('duration_s')])),
+    formatDuration(Number(r[col('moving_time_s')])),
+    mpsToSpeedText(Number(r[col('avg_mps')]), units).text,
+    mpsToSpeedText(Number(r[col('max_mps')]), units).text,
+    r[col('ascent_m')] === '' ? '—' : formatElevation(Number(r[col('ascent_m')]), units),
+    String(r[col('stops')]),
+    String(r[col('violations')]),
+  ]);
+  const widths = header.map((h, i) => Math.max(h.length, ...body.map(r => r[i].length)));
+  const line = (cells: string[]) => cells.map((c, i) => (i < 2 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join('  ').trimEnd();
+  return [line(header), line(widths.map(w => '-'.repeat(w))), ...body.map(line)].join('\n') + '\n';
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (e) {
+  const usage = e instanceof UsageError || (e as { code?: string }).code?.startsWith('ERR_PARSE_ARGS');
+  process.stderr.write(`geointerp: ${(e as Error).message}\n${usage ? 'Run geointerp --help for usage.\n' : ''}`);
+  process.exitCode = 2;
+}
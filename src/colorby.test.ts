@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { MetricInput } from './colorby';
+import { LEG_COLORS, NO_VALUE_COLOR, colorScale, metricColor, segmentMetric } from './colorby';
+import { computeSegmentSpeedsMps, cumulativeDistancesMeters } from './utils';
+
+const T0 = Date.parse('2024-07-01T12:00:00Z');
+const M = 1 / 111195; // degrees of latitude per meter
+
+// 100 m north, 100 m north, then 100 m east, at 10 s, 20 s and 10 s; elevation on all but the last point
+function input(): MetricInput {
+  const points = [
+    { lat: 29.5, lon: -95, ele: 10 },
+    { lat: 29.5 + 100 * M, lon: -95, ele: 12 },
+    { lat: 29.5 + 200 * M, lon: -95, ele: 14 },
+    { lat: 29.5 + 200 * M, lon: -95 + 100 * M / Math.cos((29.5 * Math.PI) / 180) },
+  ];
+  const timesMs = [0, 10, 30, 40].map(s => T0 + s * 1000);
+  const cumDistM = cumulativeDistancesMeters(points);
+  return { points, timesMs, cumDistM, segSpeedsMps: computeSegmentSpeedsMps(timesMs, cumDistM) };
+}
+
+describe('segmentMetric', () => {
+  it('gives one value per segment', () => {
+    const speeds = segmentMetric('speed', input());
+    expect(speeds).toHaveLength(3);
+    expect(speeds[0]).toBeCloseTo(10, 1);
+    expect(segmentMetric('time-gap', input())).toEqual([10, 20, 10]);
+    // 10 m/s to 5 m/s over the 15 s between segment midpoints
+    expect(segmentMetric('acceleration', input())[1]).toBeCloseTo(-1 / 3, 2);
+  });
+
+  it('measures the turn between segments', () => {
+    const turns = segmentMetric('bearing-change', input());
+    expect(turns[0]).toBe(0);
+    expect(turns[1]).toBeCloseTo(0, 3);
+    expect(turns[2]).toBeCloseTo(90, 0);
+  });
+
+  it('leaves segments without elevation or a leg empty', () => {
+    expect(segmentMetric('elevation', input())).toEqual([11, 13, NaN]);
+    const legs = segmentMetric('leg', { ...input(), legs: [{ startIndex: 1, endIndex: 3 }] });
+    expect(legs).toEqual([NaN, 0, 0]);
+  });
+});
+
+describe('colorScale', () => {
+  it('starts speed at zero and centers diverging modes', () => {
+    expect(colorScale('speed', [4, 6, 8], 0)).toEqual({ mode: 'speed', lo: 0, hi: 8 });
+    expect(colorScale('grade', [-2, 1, 5], 0)).toEqual({ mode: 'grade', lo: -5, hi: 5 });
+    expect(colorScale('elevation', [10, NaN, 30], 0)).toEqual({ mode: 'elevation', lo: 10, hi: 30 });
+  });
+
+  it('clips outliers from both ends', () => {
+    const values = [...Array.from({ length: 99 }, (_, i) => i), 10000];
+    expect(colorScale('elevation', values, 2).hi).toBeLessThan(100);
+  });
+});
+
+describe('metricColor', () => {
+  it('has a color for missing values and one per leg', () => {
+    expect(metricColor(NaN, { mode: 'speed', lo: 0, hi: 1 })).toBe(NO_VALUE_COLOR);
+    expect(metricColor(LEG_COLORS.length + 1, { mode: 'leg', lo: 0, hi: 9 })).toBe(LEG_COLORS[1]);
+    expect(metricColor(0, { mode: 'speed', lo: 0, hi: 1 })).not.toBe(metricColor(1, { mode: 'speed', lo: 0, hi: 1 }));
+  });
+});
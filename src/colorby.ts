@@ -0,0 +1,142 @@
+import type { LatLngTime } from './utils';
+import { bearingDegrees, speedColor } from './utils';
+import { segmentGradesPct } from './elevation';
+import type { Leg } from './legs';
+
+// Per-segment metrics the map can color by, and the scale they are drawn on.
+
+export type ColorMode = 'speed' | 'acceleration' | 'bearing-change' | 'time-gap' | 'elevation' | 'grade' | 'leg';
+
+export const COLOR_MODE_NAMES: Record<ColorMode, string> = {
+  speed: 'Speed',
+  acceleration: 'Acceleration',
+  'bearing-change': 'Heading change',
+  'time-gap': 'Time gap',
+  elevation: 'Elevation',
+  grade: 'Grade',
+  leg: 'Leg',
+};
+
+export interface MetricInput {
+  points: LatLngTime[];
+  timesMs: number[];
+  cumDistM: number[];
+  segSpeedsMps: number[];
+  legs?: Pick<Leg, 'startIndex' | 'endIndex'>[];
+}
+
+export interface ColorScale {
+  mode: ColorMode;
+  lo: number;
+  hi: number;
+}
+
+// Segments without a value (no elevation, zero length, …)
+export const NO_VALUE_COLOR = '#6b7680';
+
+// Leg mode is categorical: one color per leg, in order, instead of a ramp
+export const LEG_COLORS = ['#e6194b', '#3cb44b', '#ffe119', '#4363d8', '#f58231', '#911eb4', '#42d4f4', '#f032e6'];
+
+// Modes centered on zero: the scale is made symmetric so zero sits mid-ramp
+const DIVERGING: ColorMode[] = ['acceleration', 'grade'];
+
+export function hasElevation(points: LatLngTime[]): boolean {
+  return points.some(p => p.ele != null);
+}
+
+/** One value per segment (points.length - 1), NaN where the metric is undefined. */
+export function segmentMetric(mode: ColorMode, input: MetricInput): number[] {
+  const { points, timesMs, cumDistM, segSpeedsMps } = input;
+  const n = Math.max(0, points.length - 1);
+  const dist = (i: number) => cumDistM[i + 1] - cumDistM[i];
+  const dt = (i: number) => (timesMs[i + 1] - timesMs[i]) / 1000;
+  const values: number[] = new Array(n);
+  for (let i = 0; i < n; i++) {
+    switch (mode) {
+      case 'speed':
+        values[i] = segSpeedsMps[i] ?? NaN;
+        break;
+      case 'acceleration': {
+        // Speed change between neighbouring segments over the time between their midpoints, m/s²
+        const j = i > 0 ? i - 1 : i + 1;
+        if (j >= n) { values[i] = NaN; break; }
+        const [a, b] = j < i ? [j, i] : [i, j];
+        const span = (dt(a) + dt(b)) / 2;
+        values[i] = span > 0 ? (segSpeedsMps[b] - segSpeedsMps[a]) / span : NaN;
+        break;
+      }
+      case 'bearing-change':
+        values[i] = NaN; // filled below
+        break;
+      case 'time-gap':
+        values[i] = dt(i);
+        break;
+      case 'elevation': {
+        const a = points[i].ele;
+        const b = points[i + 1].ele;
+        values[i] = a != null && b != null ? (a + b) / 2 : NaN;
+        break;
+      }
+      case 'grade':
+      case 'leg':
+        values[i] = NaN; // filled below
+        break;
+    }
+  }
+  if (mode === 'bearing-change') {
+    // Absolute turn (0..180°) from the last segment that moved; stationary segments have no heading
+    let prev: number | null = null;
+    for (let i = 0; i < n; i++) {
+      if (!(dist(i) > 0)) continue;
+      const brg = bearingDegrees(points[i], points[i + 1]);
+      values[i] = prev == null ? 0 : Math.abs(((brg - prev + 540) % 360) - 180);
+      prev = brg;
+    }
+  }
+  // Over horizontal distance, whether or not cumDistM follows the slope
+  if (mode === 'grade') return segmentGradesPct(points);
+  // Leg number; segments in gaps and long stops between legs have none
+  if (mode === 'leg') {
+    (input.legs ?? []).forEach((leg, k) => {
+      for (let i = leg.startIndex; i < leg.endIndex; i++) values[i] = k;
+    });
+  }
+  return values;
+}
+
+/**
+ * Scale bounds over the given values. clipPct drops that share of values from each end
+ * (the low end is kept at zero for speed and time gaps), so a single outlier can't wash
+ * out the ramp.
+ */
+export function colorScale(mode: ColorMode, values: number[], clipPct: number): ColorScale {
+  const finite = values.filter(v => isFinite(v)).sort((a, b) => a - b);
+  if (!finite.length) return { mode, lo: 0, hi: 1 };
+  if (mode === 'leg') return { mode, lo: 0, hi: Math.max(1, finite[finite.length - 1]) };
+  let lo = percentile(finite, clipPct);
+  let hi = percentile(finite, 100 - clipPct);
+  if (mode === 'speed' || mode === 'time-gap' || mode === 'bearing-change') lo = 0;
+  if (DIVERGING.includes(mode)) {
+    const m = Math.max(Math.abs(lo), Math.abs(hi));
+    lo = -m;
+    hi = m;
+  }
+  if (!(hi > lo)) hi = lo + 1;
+  return { mode, lo, hi };
+}
+
+export function metricColor(value: number, scale: ColorScale): string {
+  if (!isFinite(value)) return NO_VALUE_COLOR;
+  if (scale.mode === 'leg') return LEG_COLORS[value % LEG_COLORS.length];
+  // Same blue→red ramp as speed, so the legend bar reads the same in every mode
+  return speedColor(value - scale.lo, scale.hi - scale.lo);
+}
+
+function percentile(sorted: number[], pct: number): number {
+  if (pct <= 0) return sorted[0];
+  if (pct >= 100) return sorted[sorted.length - 1];
+  const pos = (pct / 100) * (sorted.length - 1);
+  const i = Math.floor(pos);
+  const f = pos - i;
+  return i + 1 < sorted.length ? sorted[i] + (sorted[i + 1] - sorted[i]) * f : sorted[i];
+}
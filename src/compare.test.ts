@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { CompareSeries } from './compare';
+import { DEFAULT_COMPARE_OPTIONS, compareRoutes } from './compare';
+import { cumulativeDistancesMeters } from './utils';
+
+const T0 = Date.parse('2024-07-01T12:00:00Z');
+const M = 1 / 111195; // degrees of latitude per meter
+const lonPerM = M / Math.cos((29.5 * Math.PI) / 180);
+
+// Points at the given meters north (and east) of a start, one every stepS seconds
+function run(norths: number[], stepS: number, easts: number[] = []): CompareSeries {
+  const points = norths.map((y, i) => ({ lat: 29.5 + y * M, lon: -95 + (easts[i] ?? 0) * lonPerM }));
+  return { points, timesMs: points.map((_, i) => T0 + i * stepS * 1000), cumDistM: cumulativeDistancesMeters(points) };
+}
+const every100 = (k: number) => Array.from({ length: k }, (_, i) => i * 100);
+
+describe('compareRoutes', () => {
+  it('counts the time lost against a faster reference', () => {
+    const reference = run(every100(11), 10);
+    const route = run(every100(11), 20);
+    const result = compareRoutes(route, reference, DEFAULT_COMPARE_OPTIONS);
+    result.offsetM.forEach(d => expect(d).toBeLessThan(0.01));
+    result.deltaS.forEach((d, i) => expect(d).toBeCloseTo(10 * i, 3));
+    expect(result.progressM[5]).toBeCloseTo(reference.cumDistM[5], 3);
+    expect(result.deviations).toEqual([]);
+  });
+
+  it('reports a detour as one deviation and leaves its delta out', () => {
+    const reference = run(every100(11), 10);
+    const route = run(every100(11), 10, [0, 0, 0, 0, 150, 200, 150, 0, 0, 0, 0]);
+    const result = compareRoutes(route, reference, DEFAULT_COMPARE_OPTIONS);
+    expect(result.deviations).toHaveLength(1);
+    expect(result.deviations[0]).toMatchObject({ startIndex: 3, endIndex: 7, startMs: T0 + 30000, endMs: T0 + 70000 });
+    expect(result.deviations[0].maxOffsetM).toBeCloseTo(200, 0);
+    expect(result.deltaS.slice(4, 7).every(d => isNaN(d))).toBe(true);
+    expect(result.deltaS[7]).toBeCloseTo(0, 3);
+  });
+
+  it('follows an out-and-back reference onto the way back', () => {
+    // The reference returns 5 m east of its way out; the route returns on the way out, so the
+    // outbound pass is the nearer one
+    const outAndBack = [...every100(6), 400, 300, 200, 100, 0];
+    const reference = run(outAndBack, 10, outAndBack.map((_, i) => (i > 5 ? 5 : 0)));
+    const route = run(outAndBack, 10);
+    const result = compareRoutes(route, reference, DEFAULT_COMPARE_OPTIONS);
+    for (let i = 1; i < result.progressM.length; i++) expect(result.progressM[i]).toBeGreaterThan(result.progressM[i - 1]);
+    expect(result.deltaS[10]).toBeCloseTo(0, 3);
+  });
+
+  it('finds the nearest pass of a long reference for a route far off it', () => {
+    // Up 10 km and back 3 km east, a point every 20 m; the route runs 2.5 km east of the way up,
+    // so the way back is the nearest part, half a kilometer off
+    const up = Array.from({ length: 501 }, (_, i) => i * 20);
+    const reference = run([...up, ...up.slice().reverse()], 2, [...up.map(() => 0), ...up.map(() => 3000)]);
+    const route = run(every100(11).map(y => 4000 + y), 10, every100(11).map(() => 2500));
+    const result = compareRoutes(route, reference, DEFAULT_COMPARE_OPTIONS);
+    result.offsetM.forEach(d => expect(d).toBeCloseTo(500, 0));
+    // 10 km up, 3 km across, then back down to 4 km
+    expect(result.progressM[0]).toBeCloseTo(19000, -1);
+    expect(result.deviations).toHaveLength(1);
+  });
+
+  it('needs a reference line', () => {
+    const result = compareRoutes(run(every100(3), 10), run([0], 10), DEFAULT_COMPARE_OPTIONS);
+    expect(result.offsetM.every(d => isNaN(d))).toBe(true);
+    expect(result.deviations).toEqual([]);
+  });
+});
@@ -0,0 +1,178 @@
+import type { LatLngTime } from './utils';
+import { haversineMeters } from './utils';
+
+// Comparing a trip with a reference run of the same route: how far off it strays and how
+// far ahead or behind it is at each point, like a racing delta.
+
+export interface CompareOptions {
+  maxDeviationM: number; // farther than this from the reference counts as off route
+}
+
+export const DEFAULT_COMPARE_OPTIONS: CompareOptions = {
+  maxDeviationM: 50,
+};
+
+/** The series a comparison needs from either route. */
+export interface CompareSeries {
+  points: LatLngTime[];
+  timesMs: number[];
+  cumDistM: number[];
+}
+
+export interface Deviation {
+  startIndex: number; // last point on route before leaving (or the first point)
+  endIndex: number; // first point back on route (or the last point)
+  startMs: number;
+  endMs: number;
+  distanceM: number; // along the compared route
+  maxOffsetM: number;
+}
+
+export interface Comparison {
+  offsetM: number[]; // per point: cross-track distance to the reference polyline
+  progressM: number[]; // per point: distance along the reference to the nearest spot on it
+  deltaS: number[]; // per point: seconds behind (+) or ahead (-) of the reference; NaN off route
+  deviations: Deviation[];
+}
+
+// How far back along the reference the next point may match, and how far ahead beyond the
+// distance traveled since the last match; keeps out-and-back or looping references from
+// matching the wrong pass
+const BACK_M = 200;
+const AHEAD_M = 200;
+// Within that window, meters of offset a match may trade for each meter it lands closer to
+// where the distance traveled says it should: where both passes of an out-and-back are
+// equally near, the one further along wins
+const PROGRESS_WEIGHT = 0.25;
+
+export function compareRoutes(route: CompareSeries, reference: CompareSeries, opts: CompareOptions): Comparison {
+  const n = route.points.length;
+  const ref = reference.points;
+  const offsetM = new Array<number>(n).fill(NaN);
+  const progressM = new Array<number>(n).fill(NaN);
+  const deltaS = new Array<number>(n).fill(NaN);
+  if (ref.length < 2) return { offsetM, progressM, deltaS, deviations: [] };
+
+  const refMs: number[] = new Array(n).fill(NaN); // reference time at each point's match
+  let last = -1; // reference segment matched by the last on-route point
+  let lastI = 0;
+  for (let i = 0; i < n; i++) {
+    const p = route.points[i];
+    let m: Match | null = null;
+    if (last >= 0) {
+      // Near where the previous on-route point matched
+      const from = reference.cumDistM[last] - BACK_M;
+      const to = reference.cumDistM[last + 1] + 2 * (route.cumDistM[i] - route.cumDistM[lastI]) + AHEAD_M;
+      const expected = progressM[lastI] + (route.cumDistM[i] - route.cumDistM[lastI]);
+      const cost = (c: Match) => c.offsetM + PROGRESS_WEIGHT * Math.abs(c.progressM - expected);
+      let lo = last;
+      while (lo > 0 && reference.cumDistM[lo] >= from) lo--;
+      for (let j = lo; j < ref.length - 1 && reference.cumDistM[j] <= to; j++) {
+        const c = project(p, reference, j);
+        if (!m || cost(c) < cost(m)) m = c;
+      }
+    }
+    if (!m || m.offsetM > opts.maxDeviationM) {
+      // Lost (or just starting): anywhere on the reference
+      const anywhere = nearestMatch(p, reference);
+      if (!m || anywhere.offsetM < m.offsetM) m = anywhere;
+    }
+    offsetM[i] = m.offsetM;
+    progressM[i] = m.progressM;
+    if (m.offsetM <= opts.maxDeviationM) {
+      refMs[i] = m.ms;
+      last = m.segment;
+      lastI = i;
+    }
+  }
+
+  // Delta from the first on-route point, where both clocks start
+  const i0 = refMs.findIndex(ms => isFinite(ms));
+  if (i0 >= 0) {
+    for (let i = i0; i < n; i++) {
+      if (isFinite(refMs[i])) deltaS[i] = ((route.timesMs[i] - route.timesMs[i0]) - (refMs[i] - refMs[i0])) / 1000;
+    }
+  }
+  return { offsetM, progressM, deltaS, deviations: deviations(route, offsetM, opts.maxDeviationM) };
+}
+
+type Match = { segment: number; offsetM: number; progressM: number; ms: number };
+
+/**
+ * Nearest spot on the whole reference. A spot can't be nearer than the distance to a vertex
+ * minus how far along the reference it lies from that vertex, so stretches that bound rules
+ * out are skipped: a route far off the reference doesn't project onto every segment per point.
+ */
+function nearestMatch(p: LatLngTime, reference: CompareSeries): Match {
+  const { points: ref, cumDistM } = reference;
+  const last = ref.length - 1;
+  let best = project(p, reference, 0);
+  let j = 1;
+  while (j < last) {
+    const reach = cumDistM[j] + haversineMeters(p, ref[j]) - best.offsetM;
+    // First segment from j that ends beyond reach; the ones before it can't beat best
+    let lo = j;
+    let hi = last;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cumDistM[mid + 1] <= reach) lo = mid + 1; else hi = mid;
+    }
+    if (lo > j) {
+      j = lo;
+      continue;
+    }
+    const m = project(p, reference, j);
+    if (m.offsetM < best.offsetM) best = m;
+    j++;
+  }
+  return best;
+}
+
+/** Nearest spot on reference segment j, found in a local planar frame around p. */
+function project(p: LatLngTime, reference: CompareSeries, j: number): Match {
+  const a = reference.points[j];
+  const b = reference.points[j + 1];
+  const kx = Math.cos((p.lat * Math.PI) / 180); // shrinks longitude to match latitude
+  const ax = (a.lon - p.lon) * kx;
+  const ay = a.lat - p.lat;
+  const dx = (b.lon - a.lon) * kx;
+  const dy = b.lat - a.lat;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / len2)) : 0;
+  const q = { lat: a.lat + (b.lat - a.lat) * t, lon: a.lon + (b.lon - a.lon) * t };
+  const { cumDistM, timesMs } = reference;
+  return {
+    segment: j,
+    offsetM: haversineMeters(p, q),
+    progressM: cumDistM[j] + (cumDistM[j + 1] - cumDistM[j]) * t,
+    ms: timesMs[j] + (timesMs[j + 1] - timesMs[j]) * t,
+  };
+}
+
+/** Runs of points farther than maxM from the reference, widened to the on-route points around them. */
+function deviations(route: CompareSeries, offsetM: number[], maxM: number): Deviation[] {
+  const out: Deviation[] = [];
+  const n = offsetM.length;
+  let i = 0;
+  while (i < n) {
+    if (!(offsetM[i] > maxM)) { i++; continue; }
+    let j = i;
+    let maxOffsetM = offsetM[i];
+    while (j + 1 < n && offsetM[j + 1] > maxM) {
+      j++;
+      maxOffsetM = Math.max(maxOffsetM, offsetM[j]);
+    }
+    const startIndex = Math.max(0, i - 1);
+    const endIndex = Math.min(n - 1, j + 1);
+    out.push({
+      startIndex,
+      endIndex,
+      startMs: route.timesMs[startIndex],
+      endMs: route.timesMs[endIndex],
+      distanceM: route.cumDistM[endIndex] - route.cumDistM[startIndex],
+      maxOffsetM,
+    });
+    i = j + 1;
+  }
+  return out;
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import example from '../example.json';
+import type { ParsedRoute } from './core';
+import {
+  DEFAULT_PROCESS_OPTIONS,
+  SUMMARY_COLUMNS,
+  parseRouteFile,
+  processRoute,
+  routeCSV,
+  routeGPX,
+  routeGeoJSON,
+  routeKML,
+  routePolylineJSON,
+  routeSegments,
+  splitParsed,
+  summaryCSV,
+  summaryRow,
+  trimParsed,
+} from './core';
+
+const T0 = Date.parse('2024-07-01T12:00:00Z');
+
+// Five points north with a climb, one every 10 s
+function sample(): ParsedRoute {
+  const points = [0, 1, 2, 3, 4].map(i => ({ lat: 29.5 + i * 0.001, lon: -95, ele: 10 + i * 2 }));
+  return { format: 'json', points, meta: { label: 'Sample', direction: 'N' }, timesMs: points.map((_, i) => T0 + i * 10000), timeSource: 'per-point' };
+}
+
+describe('processRoute', () => {
+  it('reconstructs the example at a believable speed by default', () => {
+    const [parsed] = parseRouteFile('example.json', JSON.stringify(example));
+    const route = processRoute(parsed);
+    expect(route.stats.durationS).toBe(1492);
+    // Constant speed: the top segment speed is the average, about 31 km/h
+    expect(route.stats.maxMps * 3.6).toBeCloseTo(route.stats.avgMps * 3.6, 0);
+    expect(route.stats.avgMps * 3.6).toBeCloseTo(30.7, 1);
+  });
+
+  it('gives a route without any time the same times on every import', () => {
+    const untimed: ParsedRoute = { ...sample(), meta: { label: 'Sample' }, timesMs: [], timeSource: 'reconstructed' };
+    const route = processRoute(untimed);
+    expect(route.timesMs[0]).toBe(Date.UTC(1970, 0, 1));
+    expect(processRoute(untimed).timesMs).toEqual(route.timesMs);
+  });
+
+  it('measures routes too long to spread into Math.max', () => {
+    const n = 200000;
+    const points = Array.from({ length: n }, (_, i) => ({ lat: 29.5 + i * 1e-5, lon: -95 }));
+    const timesMs = points.map((_, i) => T0 + i * 1000);
+    const parsed: ParsedRoute = { format: 'json', points, meta: {}, timesMs, timeSource: 'per-point' };
+    const route = processRoute(parsed, DEFAULT_PROCESS_OPTIONS);
+    expect(route.stats.durationS).toBe(n - 1);
+    expect(route.stats.maxMps).toBeCloseTo(1.11, 2);
+  });
+});
+
+describe('segment exports', () => {
+  const route = processRoute(sample());
+
+  it('describes each segment', () => {
+    const segments = routeSegments(route);
+    expect(segments).toHaveLength(4);
+    expect(segments[0]).toMatchObject({ segment_index: 0, t_start: '2024-07-01T12:00:00.000Z', t_end: '2024-07-01T12:00:10.000Z', bearing_deg: 0 });
+    expect(segments[0].distance_m).toBeCloseTo(111, 0);
+    expect(segments[0].speed_mps).toBeCloseTo(11.1, 1);
+  });
+
+  it('loads back as one route from GeoJSON and KML', () => {
+    for (const [name, text] of [['a.geojson', routeGeoJSON(route)], ['a.kml', routeKML(route)]]) {
+      const parsed = parseRouteFile(name, text);
+      expect(parsed).toHaveLength(1);
+      expect(parsed[0].points.map(p => [p.lat, p.lon, p.ele])).toEqual(route.points.map(p => [p.lat, p.lon, p.ele]));
+      expect(parsed[0].timesMs).toEqual(route.timesMs);
+      expect(parsed[0].meta.label).toBe('Sample');
+    }
+  });
+});
+
+describe('route exports', () => {
+  const route = processRoute(sample());
+  const reload = (text: string, name: string) => {
+    const [parsed] = parseRouteFile(name, text);
+    return parsed;
+  };
+
+  it('writes GPX that loads back point for point', () => {
+    const parsed = reload(routeGPX(route), 'a.gpx');
+    expect(parsed.points.map(p => [p.lat, p.lon, p.ele])).toEqual(route.points.map(p => [p.lat, p.lon, p.ele]));
+    expect(parsed.timesMs).toEqual(route.timesMs);
+    expect(parsed.meta).toMatchObject({ label: 'Sample', direction: 'N' });
+  });
+
+  it('writes CSV with local times, speed and grade that loads back', () => {
+    const lines = routeCSV(route, 'America/Chicago').split('\n');
+    expect(lines).toHaveLength(6);
+    const row = Object.fromEntries(lines[0].split(',').map((k, i) => [k, lines[1].split(',')[i]]));
+    expect(row).toMatchObject({ index: '0', timestamp: '2024-07-01T12:00:00.000Z', time_source: 'per-point', ele_m: '10.0' });
+    expect(row.local_time).toMatch(/^2024-07-01T07:00:00/);
+    expect(Number(row.grade_pct)).toBeCloseTo(1.8, 1);
+    const parsed = reload(routeCSV(route, 'UTC'), 'a.csv');
+    expect(parsed.points).toHaveLength(5);
+    expect(parsed.points[4].lat).toBeCloseTo(route.points[4].lat, 6);
+    expect(parsed.timesMs).toEqual(route.timesMs);
+  });
+
+  it('writes a polyline file that loads back with its times', () => {
+    const parsed = reload(routePolylineJSON(route, 6), 'a.json');
+    expect(parsed.points.map(p => [p.lat, p.lon])).toEqual(route.points.map(p => [p.lat, p.lon]));
+    expect(parsed.timesMs).toEqual(route.timesMs);
+    expect(parsed.issues ?? []).toEqual([]);
+  });
+
+  it('summarizes routes one row each, quoting labels that need it', () => {
+    const row = summaryRow('a, b.gpx', route);
+    expect(row).toHaveLength(SUMMARY_COLUMNS.length);
+    const csv = summaryCSV([row]).split('\n');
+    expect(csv[0]).toBe(SUMMARY_COLUMNS.join(','));
+    expect(csv[1].startsWith('"a, b.gpx",Sample,5,per-point,2024-07-01T12:00:00.000Z,2024-07-01T12:00:40.000Z,')).toBe(true);
+    // ascent, descent, lowest and highest elevation
+    expect(csv[1].endsWith(',8.0,0.0,10.0,18.0')).toBe(true);
+  });
+});
+
+describe('trim and split', () => {
+  it('cuts recorded times with the points', () => {
+    const parsed = sample();
+    const trimmed = trimParsed(parsed, processRoute(parsed), 1, 3);
+    expect(trimmed.points).toEqual(parsed.points.slice(1, 4));
+    expect(trimmed.timesMs).toEqual(parsed.timesMs.slice(1, 4));
+    expect(trimmed.meta).toMatchObject({ label: 'Sample', startMs: T0 + 10000, endMs: T0 + 30000 });
+  });
+
+  it('keeps the clock of reconstructed times', () => {
+    const parsed: ParsedRoute = { ...sample(), timesMs: [], timeSource: 'reconstructed', meta: { startMs: T0, endMs: T0 + 40000, pointCount: 5 } };
+    const route = processRoute(parsed);
+    const trimmed = trimParsed(parsed, route, 2, 4);
+    expect(trimmed.meta).toEqual({ startMs: route.timesMs[2], endMs: T0 + 40000, pointCount: undefined });
+    expect(processRoute(trimmed).timesMs).toEqual(route.timesMs.slice(2));
+  });
+
+  it('splits at a point both parts share, but not at an end', () => {
+    const parsed = sample();
+    const route = processRoute(parsed);
+    const [first, second] = splitParsed(parsed, route, 2)!;
+    expect(first.points).toEqual(parsed.points.slice(0, 3));
+    expect(second.points).toEqual(parsed.points.slice(2));
+    expect(splitParsed(parsed, route, 4)).toBeNull();
+  });
+});
@@ -0,0 +1,493 @@
+import type { ParsedRoute, RouteMeta, TimeSource } from './importers';
+import type { CleaningOptions, CleaningResult } from './cleaning';
+import { DEFAULT_CLEANING, cleanTrack } from './cleaning';
+import type { SimplifyOptions, SimplifyReport } from './simplify';
+import { simplifyIndices, simplifyReport } from './simplify';
+import type { Stop, StopOptions } from './stops';
+import { DEFAULT_STOP_OPTIONS, detectStops, summarizeMotion } from './stops';
+import type { ElevationStats } from './elevation';
+import { elevationStats, segmentGradesPct, slopeDistancesMeters } from './elevation';
+import type { Comparison } from './compare';
+import type { Zone, ZoneVisit } from './geofences';
+import { zoneVisits } from './geofences';
+import type { Leg, LegOptions } from './legs';
+import { DEFAULT_LEG_OPTIONS, detectLegs } from './legs';
+import type { LimitSection, SpeedLimitOptions, Violation } from './limits';
+import { DEFAULT_SPEED_LIMIT, detectViolations, segmentLimits } from './limits';
+import type { LatLngTime, ResampleOptions, TimeReconstruction, UnitSystem } from './utils';
+import {
+  UNDATED_START_MS,
+  bearingDegrees,
+  computeSegmentSpeedsMps,
+  cumulativeDistancesMeters,
+  effectiveSamplingIntervalSec,
+  encodePolyline,
+  escapeXml,
+  isoUtc,
+  mpsToSpeedText,
+  reconstructTimes,
+  resampleTrack,
+  speedColorHex,
+} from './utils';
+import { isoLocal } from './timezones';
+
+// DOM-free route processing shared by the web app and the `geointerp` CLI:
+// parse (parseRouteFile) → compute (processRoute) → export (route* string builders).
+
+export type { ParsedRoute, RouteMeta, TimeSource } from './importers';
+export { ImportError, parseRouteFile } from './importers';
+export type { ValidationIssue } from './validation';
+
+export interface RouteStats extends ElevationStats {
+  totalDistM: number;
+  durationS: number;
+  avgMps: number;
+  maxMps: number;
+  samplingS: number;
+  movingTimeS: number;
+  stoppedTimeS: number;
+  movingAvgMps: number;
+}
+
+export interface ProcessOptions {
+  timeModel: TimeReconstruction; // used only when the input carries no usable times
+  cleaning: CleaningOptions;
+  simplify: SimplifyOptions | null;
+  resample: ResampleOptions | null;
+  stopOptions: StopOptions;
+  speedLimit: SpeedLimitOptions;
+  limitSections: LimitSection[]; // road sections with their own maxspeed
+  slopeDistance: boolean; // measure distance along the slope where points carry elevation
+  legOptions: LegOptions;
+  zones: Zone[]; // geofences whose entries and exits are reported
+}
+
+export const DEFAULT_PROCESS_OPTIONS: ProcessOptions = {
+  timeModel: 'distance',
+  cleaning: DEFAULT_CLEANING,
+  simplify: null,
+  resample: null,
+  stopOptions: DEFAULT_STOP_OPTIONS,
+  speedLimit: DEFAULT_SPEED_LIMIT,
+  limitSections: [],
+  slopeDistance: false,
+  legOptions: DEFAULT_LEG_OPTIONS,
+  zones: [],
+};
+
+/** A leg with the same stats as a whole route. */
+export type RouteLeg = Leg & { stats: RouteStats };
+
+export interface ProcessedRoute {
+  meta: RouteMeta;
+  timeSource: TimeSource;
+  cleaned: CleaningResult | null;
+  simplified: SimplifyReport | null;
+  points: LatLngTime[];
+  timesMs: number[];
+  sourceIndex: number[]; // index in parsed.points each point comes from (resampled: the sample at or before it)
+  cumDistM: number[];
+  segSpeedsMps: number[];
+  stats: RouteStats;
+  stops: Stop[];
+  legs: RouteLeg[];
+  limits: number[]; // speed limit per segment, NaN where none applies
+  violations: Violation[];
+  zoneVisits: ZoneVisit[];
+}
+
+type Series = Pick<ProcessedRoute, 'points' | 'timesMs' | 'cumDistM' | 'segSpeedsMps'>;
+
+/** Times and noise filtering: the series simplification and resampling work from. */
+export function baseSeries(parsed: ParsedRoute, opts: ProcessOptions): { points: LatLngTime[]; timesMs: number[]; cleaned: CleaningResult | null } {
+  const { meta, timesMs } = parsed;
+  let points = parsed.points;
+
+  // Times
+  let tms = timesMs;
+  if (!tms.length) {
+    const start = meta.startMs ?? UNDATED_START_MS;
+    tms = reconstructTimes(cumulativeDistancesMeters(points), start, meta.endMs, opts.timeModel, meta);
+  }
+
+  // Noise filtering, before anything is measured
+  const cleaned = opts.cleaning.enabled ? cleanTrack(points, tms, opts.cleaning) : null;
+  if (cleaned) {
+    points = cleaned.points;
+    tms = cleaned.timesMs;
+  }
+  return { points, timesMs: tms, cleaned };
+}
+
+export function processRoute(parsed: ParsedRoute, opts: ProcessOptions = DEFAULT_PROCESS_OPTIONS): ProcessedRoute {
+  const base = baseSeries(parsed, opts);
+  let points = base.points;
+  let tms = base.timesMs;
+  let sourceIndex = base.cleaned ? base.cleaned.kept : points.map((_, i) => i);
+
+  // Optional simplification; surviving points keep their times
+  let simplified: SimplifyReport | null = null;
+  if (opts.simplify) {
+    const kept = simplifyIndices(points, opts.simplify);
+    simplified = simplifyReport(points, kept);
+    points = kept.map(i => points[i]);
+    tms = kept.map(i => tms[i]);
+    sourceIndex = kept.map(i => sourceIndex[i]);
+  }
+
+  // Optional fixed-step resampling
+  if (opts.resample) {
+    const resampled = resampleTrack(points, tms, opts.resample);
+    let k = 0;
+    sourceIndex = resampled.timesMs.map((t) => {
+      while (k < tms.length - 1 && tms[k + 1] <= t) k++;
+      return sourceIndex[k];
+    });
+    points = resampled.points;
+    tms = resampled.timesMs;
+  }
+
+  // Distances and speeds
+  const cum = opts.slopeDistance ? slopeDistancesMeters(points) : cumulativeDistancesMeters(points);
+  const speeds = computeSegmentSpeedsMps(tms, cum);
+
+  const series: Series = { points, timesMs: tms, cumDistM: cum, segSpeedsMps: speeds };
+  const { stops, motion } = routeStops(series, opts.stopOptions);
+  return {
+    meta: parsed.meta,
+    timeSource: parsed.timeSource,
+    cleaned: base.cleaned,
+    simplified,
+    sourceIndex,
+    ...series,
+    stats: seriesStats(series, motion),
+    stops,
+    legs: routeLegs(series, stops, opts.stopOptions, opts.legOptions),
+    ...routeViolations(series, opts.speedLimit, opts.limitSections),
+    zoneVisits: routeZoneVisits(series, opts.zones),
+  };
+}
+
+function seriesStats(series: Series, motion: Pick<RouteStats, 'movingTimeS' | 'stoppedTimeS' | 'movingAvgMps'>): RouteStats {
+  const { points, timesMs: tms, cumDistM: cum, segSpeedsMps: speeds } = series;
+  const totalDistM = cum[cum.length - 1] || 0;
+  const durationS = (tms[tms.length - 1] - tms[0]) / 1000;
+  const avgMps = durationS > 0 ? totalDistM / durationS : 0;
+  const maxMps = speeds.reduce((a, b) => Math.max(a, b), 0);
+  const samplingS = effectiveSamplingIntervalSec(tms);
+  return { totalDistM, durationS, avgMps, maxMps, samplingS, ...motion, ...elevationStats(points) };
+}
+
+/** Legs of a processed series, each with its own stats (stops inside a leg are detected afresh). */
+export function routeLegs(series: Series, stops: Stop[], stopOptions: StopOptions, legOptions: LegOptions): RouteLeg[] {
+  return detectLegs(series.timesMs, series.segSpeedsMps, stops, legOptions).map((leg) => {
+    const part = legSeries(series, leg);
+    return { ...leg, stats: seriesStats(part, routeStops(part, stopOptions).motion) };
+  });
+}
+
+/** Points startIndex..endIndex of a series, with distances counted from the leg's start. */
+export function legSeries(series: Series, leg: Pick<Leg, 'startIndex' | 'endIndex'>): Series {
+  const { startIndex: a, endIndex: b } = leg;
+  const d0 = series.cumDistM[a];
+  return {
+    points: series.points.slice(a, b + 1),
+    timesMs: series.timesMs.slice(a, b + 1),
+    cumDistM: series.cumDistM.slice(a, b + 1).map(d => d - d0),
+    segSpeedsMps: series.segSpeedsMps.slice(a, b),
+  };
+}
+
+/**
+ * The parsed points behind processed points start..end (inclusive), as a route of their own.
+ * Recorded times are cut with the points; reconstructed ones are pinned by the section's
+ * start and end times, so the trimmed route keeps its clock.
+ */
+export function trimParsed(parsed: ParsedRoute, route: Pick<ProcessedRoute, 'sourceIndex' | 'timesMs'>, start: number, end: number): ParsedRoute {
+  const from = route.sourceIndex[start];
+  const to = Math.max(from, route.sourceIndex[end]);
+  const timesMs = parsed.timesMs.slice(from, to + 1);
+  return {
+    ...parsed,
+    points: parsed.points.slice(from, to + 1),
+    timesMs,
+    // point_count described the whole recording
+    meta: { ...parsed.meta, startMs: timesMs[0] ?? route.timesMs[start], endMs: timesMs[timesMs.length - 1] ?? route.timesMs[end], pointCount: undefined },
+  };
+}
+
+/** Splits at processed point `at`, which ends the first part and starts the second; null if either part would be a single point. */
+export function splitParsed(parsed: ParsedRoute, route: Pick<ProcessedRoute, 'sourceIndex' | 'timesMs'>, at: number): [ParsedRoute, ParsedRoute] | null {
+  const last = route.sourceIndex.length - 1;
+  const s = route.sourceIndex[at];
+  if (!(s > route.sourceIndex[0] && s < route.sourceIndex[last])) return null;
+  return [trimParsed(parsed, route, 0, at), trimParsed(parsed, route, at, last)];
+}
+
+/** One leg as a route of its own, re-processed from the parsed points behind it. */
+export function legRoute(parsed: ParsedRoute, route: ProcessedRoute, leg: Leg, k: number, opts: ProcessOptions): ProcessedRoute {
+  const out = processRoute(trimParsed(parsed, route, leg.startIndex, leg.endIndex), opts);
+  return { ...out, meta: { ...out.meta, label: `${route.meta.label || 'route'} leg ${k + 1}` } };
+}
+
+export function routeStops(series: Series, opts: StopOptions): { stops: Stop[]; motion: Pick<RouteStats, 'movingTimeS' | 'stoppedTimeS' | 'movingAvgMps'> } {
+  const stops = detectStops(series.points, series.timesMs, series.cumDistM, opts);
+  return { stops, motion: summarizeMotion(stops, series.timesMs, series.cumDistM) };
+}
+
+export function routeViolations(series: Series, opts: SpeedLimitOptions, sections: LimitSection[]): { limits: number[]; violations: Violation[] } {
+  if (!opts.enabled) return { limits: [], violations: [] };
+  const limits = segmentLimits(series.points, sections, opts);
+  return { limits, violations: detectViolations(series.timesMs, series.cumDistM, series.segSpeedsMps, limits, opts.tolerancePct) };
+}
+
+export function routeZoneVisits(series: Series, zones: Zone[]): ZoneVisit[] {
+  return zoneVisits(series.points, series.timesMs, series.cumDistM, zones);
+}
+
+/** Where a point's time came from: filled in around recorded times, or the route's time source. */
+export function pointTimeSource(route: Pick<ProcessedRoute, 'points' | 'timeSource'>, index: number): string {
+  return route.points[index].timeFill ?? route.timeSource;
+}
+
+/** index, lat, lon, timestamp, local_time (in zone), cum_distance_m, speed_mps, time_source, ele_m, grade_pct (empty without elevation) */
+export function routeCSV(route: ProcessedRoute, zone: string): string {
+  const lines = ['index,lat,lon,timestamp,local_time,cum_distance_m,speed_mps,time_source,ele_m,grade_pct'];
+  const n = route.points.length;
+  const grades = segmentGradesPct(route.points);
+  for (let i = 0; i < n; i++) {
+    const p = route.points[i];
+    const t = route.timesMs[i];
+    const cum = route.cumDistM[i] ?? 0;
+    const spd = route.segSpeedsMps[Math.min(i, n - 2)] ?? 0;
+    const ele = p.ele != null ? p.ele.toFixed(1) : '';
+    const grade = grades[Math.min(i, n - 2)];
+    lines.push(`${i},${p.lat.toFixed(6)},${p.lon.toFixed(6)},${isoUtc(t)},${isoLocal(t, zone)},${cum.toFixed(3)},${spd.toFixed(3)},${pointTimeSource(route, i)},${ele},${isFinite(grade) ? grade.toFixed(2) : ''}`);
+  }
+  return lines.join('\n');
+}
+
+/** Raw SI values plus display values in the given units. */
+export function violationsCSV(route: ProcessedRoute, zone: string, units: UnitSystem): string {
+  const unit = mpsToSpeedText(0, units).unit;
+  const lines = [`index,start_time,end_time,start_local,end_local,duration_s,distance_m,limit_mps,peak_mps,avg_mps,limit_${unit},peak_${unit},avg_${unit}`];
+  route.violations.forEach((v, k) => {
+    lines.push([
+      k + 1,
+      isoUtc(v.startMs),
+      isoUtc(v.endMs),
+      isoLocal(v.startMs, zone),
+      isoLocal(v.endMs, zone),
+      v.durationS.toFixed(1),
+      v.distanceM.toFixed(1),
+      v.limitMps.toFixed(3),
+      v.peakMps.toFixed(3),
+      v.avgMps.toFixed(3),
+      mpsToSpeedText(v.limitMps, units).value.toFixed(1),
+      mpsToSpeedText(v.peakMps, units).value.toFixed(1),
+      mpsToSpeedText(v.avgMps, units).value.toFixed(1),
+    ].join(','));
+  });
+  return lines.join('\n');
+}
+
+/** One row per zone visit: crossing times (UTC and local), dwell, distance inside in SI and display units. */
+export function zoneVisitsCSV(route: ProcessedRoute, zone: string, units: UnitSystem): string {
+  const unit = units === 'imperial' ? 'mi' : 'km';
+  const lines = [`index,zone,entry_time,exit_time,entry_local,exit_local,dwell_s,distance_m,distance_${unit},starts_inside,ends_inside`];
+  route.zoneVisits.forEach((v, k) => {
+    lines.push([
+      k + 1,
+      csvCell(v.zone),
+      isoUtc(v.entryMs),
+      isoUtc(v.exitMs),
+      isoLocal(v.entryMs, zone),
+      isoLocal(v.exitMs, zone),
+      v.dwellS.toFixed(1),
+      v.distanceM.toFixed(1),
+      (v.distanceM / (units === 'imperial' ? 1609.344 : 1000)).toFixed(3),
+      v.startsInside,
+      v.endsInside,
+    ].join(','));
+  });
+  return lines.join('\n');
+}
+
+/** Per point against a reference route: offset from it, progress along it and the time delta (empty off route). */
+export function comparisonCSV(route: ProcessedRoute, comparison: Comparison, zone: string): string {
+  const lines = ['index,timestamp,local_time,cum_distance_m,offset_m,reference_progress_m,delta_s'];
+  route.points.forEach((_, i) => {
+    const t = route.timesMs[i];
+    const cell = (v: number) => (isFinite(v) ? v.toFixed(1) : '');
+    lines.push(`${i},${isoUtc(t)},${isoLocal(t, zone)},${route.cumDistM[i].toFixed(3)},${cell(comparison.offsetM[i])},${cell(comparison.progressM[i])},${cell(comparison.deltaS[i])}`);
+  });
+  return lines.join('\n');
+}
+
+export function routeGPX(route: ProcessedRoute): string {
+  const name = route.meta.label || 'route';
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push('<gpx version="1.1" creator="GeoInterp" xmlns="http://www.topografix.com/GPX/1/1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">');
+  lines.push(`<trk><name>${escapeXml(name)}</name>`);
+  if (route.meta.direction) lines.push(`<desc>${escapeXml(route.meta.direction)}</desc>`);
+  lines.push('<trkseg>');
+  for (let i = 0; i < route.points.length; i++) {
+    const p = route.points[i];
+    const t = route.timesMs[i];
+    const ele = p.ele != null ? `<ele>${p.ele}</ele>` : '';
+    lines.push(`<trkpt lat="${p.lat}" lon="${p.lon}">${ele}<time>${isoUtc(t)}</time></trkpt>`);
+  }
+  lines.push('</trkseg></trk></gpx>');
+  return lines.join('');
+}
+
+export interface SegmentRecord {
+  segment_index: number;
+  from: LatLngTime;
+  to: LatLngTime;
+  speed_mps: number;
+  distance_m: number;
+  t_start: string;
+  t_end: string;
+  bearing_deg: number;
+}
+
+export function routeSegments(route: ProcessedRoute): SegmentRecord[] {
+  const out: SegmentRecord[] = [];
+  for (let i = 0; i < route.points.length - 1; i++) {
+    out.push({
+      segment_index: i,
+      from: route.points[i],
+      to: route.points[i + 1],
+      speed_mps: round(route.segSpeedsMps[i] ?? 0, 3),
+      distance_m: round(route.cumDistM[i + 1] - route.cumDistM[i], 3),
+      t_start: isoUtc(route.timesMs[i]),
+      t_end: isoUtc(route.timesMs[i + 1]),
+      bearing_deg: round(bearingDegrees(route.points[i], route.points[i + 1]), 1),
+    });
+  }
+  return out;
+}
+
+/** [lon, lat] or, with elevation, [lon, lat, ele]; the importers read the third value back as elevation. */
+function position(p: LatLngTime): number[] {
+  return p.ele != null ? [p.lon, p.lat, p.ele] : [p.lon, p.lat];
+}
+
+function round(x: number, digits: number): number {
+  const k = 10 ** digits;
+  return Math.round(x * k) / k;
+}
+
+/** One feature per segment; the importer stitches them back by route_label + segment_index. maxMps sets the stroke color scale. */
+export function routeGeoJSON(route: ProcessedRoute, maxMps = route.stats.maxMps): string {
+  const features = routeSegments(route).map(({ from, to, ...props }) => ({
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates: [position(from), position(to)] },
+    properties: {
+      route_label: route.meta.label,
+      direction: route.meta.direction,
+      ...props,
+      stroke: speedColorHex(props.speed_mps, maxMps),
+    },
+  }));
+  return JSON.stringify({ type: 'FeatureCollection', features });
+}
+
+export function routeKML(route: ProcessedRoute, maxMps = route.stats.maxMps): string {
+  const name = route.meta.label || 'route';
+  const segments = routeSegments(route);
+  // One shared style per distinct color; KML colors are aabbggrr
+  const styles = new Map<string, string>();
+  const styleFor = (mps: number) => {
+    const hex = speedColorHex(mps, maxMps);
+    if (!styles.has(hex)) styles.set(hex, `s${hex.slice(1)}`);
+    return styles.get(hex)!;
+  };
+  const placemarks = segments.map(({ from, to, ...props }) => {
+    const data = Object.entries({ route_label: route.meta.label, direction: route.meta.direction, ...props })
+      .filter(([, v]) => v != null)
+      .map(([k, v]) => `<Data name="${k}"><value>${escapeXml(String(v))}</value></Data>`).join('');
+    return `<Placemark><name>${props.segment_index}</name><styleUrl>#${styleFor(props.speed_mps)}</styleUrl>`
+      + `<TimeSpan><begin>${props.t_start}</begin><end>${props.t_end}</end></TimeSpan>`
+      + `<ExtendedData>${data}</ExtendedData>`
+      + `<LineString><tessellate>1</tessellate><coordinates>${position(from).join(',')} ${position(to).join(',')}</coordinates></LineString></Placemark>`;
+  });
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push('<kml xmlns="http://www.opengis.net/kml/2.2"><Document>');
+  lines.push(`<name>${escapeXml(name)}</name>`);
+  if (route.meta.direction) lines.push(`<description>${escapeXml(route.meta.direction)}</description>`);
+  for (const [hex, id] of styles) {
+    const kmlColor = `ff${hex.slice(5, 7)}${hex.slice(3, 5)}${hex.slice(1, 3)}`;
+    lines.push(`<Style id="${id}"><LineStyle><color>${kmlColor}</color><width>4</width></LineStyle></Style>`);
+  }
+  for (const placemark of placemarks) lines.push(placemark); // one per segment: too many to spread
+  lines.push('</Document></kml>');
+  return lines.join('\n');
+}
+
+/** Same shape as our polyline inputs, so the file opens again in GeoInterp. */
+export function routePolylineJSON(route: ProcessedRoute, precision: number): string {
+  return JSON.stringify({
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates: [] },
+    properties: {
+      polyline: encodePolyline(route.points.map(p => [p.lat, p.lon]), precision),
+      polyline_precision: precision,
+      route_label: route.meta.label,
+      direction: route.meta.direction,
+      start_time: isoUtc(route.timesMs[0]),
+      end_time: isoUtc(route.timesMs[route.timesMs.length - 1]),
+      point_count: route.points.length,
+      timestamps: route.timesMs.map(isoUtc),
+    },
+  });
+}
+
+export const SUMMARY_COLUMNS = [
+  'source', 'label', 'points', 'time_source', 'start_time', 'end_time', 'distance_m', 'duration_s',
+  'moving_time_s', 'stopped_time_s', 'avg_mps', 'moving_avg_mps', 'max_mps', 'stops', 'violations',
+  'ascent_m', 'descent_m', 'min_ele_m', 'max_ele_m',
+] as const;
+
+/** One row per route, in SUMMARY_COLUMNS order; SI units so scripts needn't parse display text. */
+export function summaryRow(source: string, route: ProcessedRoute): (string | number)[] {
+  const s = route.stats;
+  return [
+    source,
+    route.meta.label ?? '',
+    route.points.length,
+    route.timeSource,
+    isoUtc(route.timesMs[0]),
+    isoUtc(route.timesMs[route.timesMs.length - 1]),
+    s.totalDistM.toFixed(1),
+    s.durationS.toFixed(1),
+    s.movingTimeS.toFixed(1),
+    s.stoppedTimeS.toFixed(1),
+    s.avgMps.toFixed(3),
+    s.movingAvgMps.toFixed(3),
+    s.maxMps.toFixed(3),
+    route.stops.length,
+    route.violations.length,
+    // Empty without elevation
+    ...[s.ascentM, s.descentM, s.minEleM, s.maxEleM].map(v => (isFinite(v) ? v.toFixed(1) : '')),
+  ];
+}
+
+/** Summary columns plus which leg of which route, for the legs table. */
+export const LEG_COLUMNS = [...SUMMARY_COLUMNS, 'leg', 'mode', 'after'] as const;
+
+export function legRow(source: string, leg: RouteLeg, k: number, route: ProcessedRoute): (string | number)[] {
+  return [...summaryRow(source, route), k + 1, leg.mode, leg.after];
+}
+
+export function summaryCSV(rows: (string | number)[][], columns: readonly string[] = SUMMARY_COLUMNS): string {
+  return [columns.join(','), ...rows.map(r => r.map(csvCell).join(','))].join('\n');
+}
+
+function csvCell(v: string | number): string {
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
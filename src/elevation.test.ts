@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { elevationStats, segmentGradesPct, slopeDistancesMeters } from './elevation';
+import { cumulativeDistancesMeters } from './utils';
+
+const M = 1 / 111195; // degrees of latitude per meter
+
+// One point every 100 m north at the given elevations (undefined for none)
+function profile(eles: (number | undefined)[]) {
+  return eles.map((ele, i) => ({ lat: 29.5 + i * 100 * M, lon: -95, ...(ele != null ? { ele } : {}) }));
+}
+
+describe('elevationStats', () => {
+  it('sums climbs and descents past the threshold', () => {
+    expect(elevationStats(profile([100, 110, 105, 120, 90]))).toEqual({ ascentM: 25, descentM: 35, minEleM: 90, maxEleM: 120 });
+  });
+
+  it('ignores jitter under the threshold but not a slow climb', () => {
+    // ±2 m wobble: no climb; 1 m steps add up once they pass 3 m from the last counted point
+    expect(elevationStats(profile([100, 102, 100, 102, 100])).ascentM).toBe(0);
+    expect(elevationStats(profile([100, 101, 102, 103, 104, 105, 106])).ascentM).toBe(6);
+  });
+
+  it('skips points without elevation, and is NaN with none', () => {
+    expect(elevationStats(profile([100, undefined, 110]))).toMatchObject({ ascentM: 10, minEleM: 100 });
+    expect(elevationStats(profile([undefined, undefined])).ascentM).toBeNaN();
+  });
+});
+
+describe('segmentGradesPct', () => {
+  it('is rise over run, NaN without elevation or movement', () => {
+    const points = profile([100, 105, undefined]);
+    // The last point stands still on the one before, now with an elevation
+    const grades = segmentGradesPct([...points, { ...points[2], ele: 110 }]);
+    expect(grades[0]).toBeCloseTo(5, 2);
+    expect(grades.slice(1)).toEqual([NaN, NaN]);
+  });
+});
+
+describe('slopeDistancesMeters', () => {
+  it('measures along the slope where both ends have elevation', () => {
+    const points = profile([0, 100, undefined]);
+    const flat = cumulativeDistancesMeters(points);
+    const slope = slopeDistancesMeters(points);
+    expect(slope[1]).toBeCloseTo(Math.hypot(flat[1], 100), 6);
+    expect(slope[2] - slope[1]).toBeCloseTo(flat[2] - flat[1], 6);
+  });
+});
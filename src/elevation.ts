@@ -0,0 +1,63 @@
+import type { LatLngTime } from './utils';
+import { haversineMeters } from './utils';
+
+// Climb, descent and grade from point elevations (meters), for inputs that carry them.
+
+export interface ElevationStats {
+  ascentM: number; // NaN when the route has no elevation
+  descentM: number;
+  minEleM: number;
+  maxEleM: number;
+}
+
+// Smaller changes don't count towards climb/descent: GPS altitude jitters by a few meters,
+// and summing every wiggle would inflate both totals
+export const CLIMB_THRESHOLD_M = 3;
+
+export function elevationStats(points: LatLngTime[], thresholdM = CLIMB_THRESHOLD_M): ElevationStats {
+  let ascentM = 0;
+  let descentM = 0;
+  let minEleM = Infinity;
+  let maxEleM = -Infinity;
+  let ref: number | undefined; // elevation the next change is measured from
+  for (const p of points) {
+    if (p.ele == null) continue;
+    minEleM = Math.min(minEleM, p.ele);
+    maxEleM = Math.max(maxEleM, p.ele);
+    if (ref == null) {
+      ref = p.ele;
+      continue;
+    }
+    const d = p.ele - ref;
+    if (d >= thresholdM) ascentM += d;
+    else if (d <= -thresholdM) descentM -= d;
+    else continue;
+    ref = p.ele;
+  }
+  if (ref == null) return { ascentM: NaN, descentM: NaN, minEleM: NaN, maxEleM: NaN };
+  return { ascentM, descentM, minEleM, maxEleM };
+}
+
+/** Rise over horizontal run per segment (points.length - 1), percent; NaN without elevation or movement. */
+export function segmentGradesPct(points: LatLngTime[]): number[] {
+  const out: number[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = points[i].ele;
+    const b = points[i + 1].ele;
+    const run = haversineMeters(points[i], points[i + 1]);
+    out.push(a != null && b != null && run > 0 ? ((b - a) / run) * 100 : NaN);
+  }
+  return out;
+}
+
+/** Like cumulativeDistancesMeters, but along the slope where both ends of a segment have elevation. */
+export function slopeDistancesMeters(points: LatLngTime[]): number[] {
+  const cum: number[] = [0];
+  for (let i = 1; i < points.length; i++) {
+    const run = haversineMeters(points[i - 1], points[i]);
+    const a = points[i - 1].ele;
+    const b = points[i].ele;
+    cum[i] = cum[i - 1] + (a != null && b != null ? Math.hypot(run, b - a) : run);
+  }
+  return cum;
+}
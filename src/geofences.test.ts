@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { Zone } from './geofences';
+import { insideZone, parseZones, zoneVisits, zonesGeoJSON } from './geofences';
+import { ImportError } from './importers';
+
+const T0 = Date.parse('2024-07-01T12:00:00Z');
+
+const square = (w: number, s: number, e: number, n: number) => [[w, s], [e, s], [e, n], [w, n], [w, s]];
+
+const DEPOT = JSON.stringify({
+  type: 'FeatureCollection',
+  features: [
+    { type: 'Feature', properties: { name: 'Depot' }, geometry: { type: 'Polygon', coordinates: [square(0, 0, 1, 1), square(0.4, 0.4, 0.6, 0.6)] } },
+    { type: 'Feature', properties: { id: 7 }, geometry: { type: 'MultiPolygon', coordinates: [[square(2, 0, 3, 1)], [square(4, 0, 5, 1)]] } },
+    { type: 'Feature', properties: {}, geometry: { type: 'LineString', coordinates: [[0, 0], [1, 1]] } },
+  ],
+});
+
+describe('parseZones', () => {
+  it('reads polygons with holes and multipolygons', () => {
+    const [depot, seven] = parseZones(DEPOT);
+    expect(depot.name).toBe('Depot');
+    expect(depot.holes).toEqual([false, true]);
+    expect(seven.name).toBe('7');
+    expect(seven.holes).toEqual([false, false]);
+  });
+
+  it('round-trips through zonesGeoJSON', () => {
+    const zones = parseZones(DEPOT);
+    expect(parseZones(zonesGeoJSON(zones))).toEqual(zones);
+  });
+
+  it('rejects files without polygons', () => {
+    expect(() => parseZones('{"type":"FeatureCollection","features":[]}')).toThrow(ImportError);
+  });
+});
+
+describe('insideZone', () => {
+  it('cuts out holes', () => {
+    const [depot] = parseZones(DEPOT);
+    expect(insideZone({ lat: 0.2, lon: 0.2 }, depot)).toBe(true);
+    expect(insideZone({ lat: 0.5, lon: 0.5 }, depot)).toBe(false);
+    expect(insideZone({ lat: 0.5, lon: 1.5 }, depot)).toBe(false);
+  });
+});
+
+describe('zoneVisits', () => {
+  const zone: Zone = { name: 'Box', rings: [square(0, 0, 1, 1).map(([lon, lat]) => ({ lat, lon }))], holes: [false] };
+
+  it('interpolates the entry and exit along the crossing segments', () => {
+    const points = [-0.5, 0.5, 1.5].map(lon => ({ lat: 0.2, lon }));
+    const [visit] = zoneVisits(points, [T0, T0 + 10000, T0 + 20000], [0, 1000, 2000], [zone]);
+    expect(visit).toMatchObject({
+      zone: 'Box', entryMs: T0 + 5000, exitMs: T0 + 15000, dwellS: 10, distanceM: 1000,
+      entryIndex: 0, exitIndex: 2, startsInside: false, endsInside: false,
+    });
+  });
+
+  it('marks visits that start or end inside', () => {
+    const points = [0.5, 1.5, 0.5].map(lon => ({ lat: 0.2, lon }));
+    const visits = zoneVisits(points, [T0, T0 + 10000, T0 + 20000], [0, 1000, 2000], [zone]);
+    expect(visits.map(v => [v.startsInside, v.endsInside, v.dwellS])).toEqual([[true, false, 5], [false, true, 5]]);
+  });
+});
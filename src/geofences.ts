@@ -0,0 +1,159 @@
+import type { LatLngTime } from './utils';
+import { ImportError } from './importers';
+
+// Geofences: polygon zones and when a track enters and leaves them.
+
+export interface Zone {
+  name: string;
+  rings: { lat: number; lon: number }[][]; // outer ring first, then holes; several outers for a MultiPolygon
+  holes: boolean[]; // per ring: true for a hole
+}
+
+export interface ZoneVisit {
+  zoneIndex: number;
+  zone: string;
+  entryMs: number; // crossing times are interpolated between samples
+  exitMs: number;
+  dwellS: number;
+  distanceM: number; // traveled inside
+  entryIndex: number; // last point before the crossing (the first point if the route starts inside)
+  exitIndex: number; // first point after the crossing (the last point if the route ends inside)
+  startsInside: boolean; // no entry crossing: the route begins in the zone
+  endsInside: boolean;
+}
+
+/**
+ * Reads zones from a GeoJSON FeatureCollection (or Feature) of Polygons/MultiPolygons.
+ * The name comes from properties.name, then properties.id, else "Zone N".
+ */
+export function parseZones(text: string): Zone[] {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    throw new ImportError('json', `invalid JSON (${(e as Error).message})`);
+  }
+  const features: any[] = json?.type === 'FeatureCollection' ? json.features ?? [] : json?.type === 'Feature' ? [json] : [];
+  const zones: Zone[] = [];
+  for (const f of features) {
+    const geom = f?.geometry;
+    const polygons: any[] = geom?.type === 'Polygon' ? [geom.coordinates] : geom?.type === 'MultiPolygon' ? geom.coordinates : [];
+    const rings: Zone['rings'] = [];
+    const holes: boolean[] = [];
+    for (const polygon of polygons) {
+      if (!Array.isArray(polygon)) continue;
+      polygon.forEach((ring: any, k: number) => {
+        if (!Array.isArray(ring)) return;
+        const coords = ring.map((c: any) => ({ lat: Number(c?.[1]), lon: Number(c?.[0]) })).filter(c => isFinite(c.lat) && isFinite(c.lon));
+        if (coords.length < 3) return;
+        rings.push(coords);
+        holes.push(k > 0);
+      });
+    }
+    if (!rings.length) continue;
+    zones.push({ name: String(f.properties?.name ?? f.properties?.id ?? `Zone ${zones.length + 1}`), rings, holes });
+  }
+  if (!zones.length) {
+    throw new ImportError('json', 'no Polygon or MultiPolygon features found');
+  }
+  return zones;
+}
+
+/** Same shape parseZones reads, for saving drawn zones. */
+export function zonesGeoJSON(zones: Zone[]): string {
+  const features = zones.map(zone => {
+    const polygons: number[][][][] = [];
+    zone.rings.forEach((ring, k) => {
+      const coords = ring.map(c => [c.lon, c.lat]);
+      // GeoJSON rings are closed
+      const [first, last] = [coords[0], coords[coords.length - 1]];
+      if (first[0] !== last[0] || first[1] !== last[1]) coords.push([...first]);
+      if (zone.holes[k] && polygons.length) polygons[polygons.length - 1].push(coords);
+      else polygons.push([coords]);
+    });
+    const geometry = polygons.length === 1 ? { type: 'Polygon', coordinates: polygons[0] } : { type: 'MultiPolygon', coordinates: polygons };
+    return { type: 'Feature', properties: { name: zone.name }, geometry };
+  });
+  return JSON.stringify({ type: 'FeatureCollection', features });
+}
+
+/** Even-odd rule over all rings, so holes (and overlapping outers) cut out. Lon/lat are treated as planar. */
+export function insideZone(p: { lat: number; lon: number }, zone: Zone): boolean {
+  let inside = false;
+  for (const ring of zone.rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i];
+      const b = ring[j];
+      if ((a.lat > p.lat) !== (b.lat > p.lat) && p.lon < ((b.lon - a.lon) * (p.lat - a.lat)) / (b.lat - a.lat) + a.lon) inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Every visit of the track to every zone, in time order. A crossing is placed where the
+ * segment meets the zone's edge, and its time and distance are interpolated from the
+ * segment's ends; a segment that cuts through a corner counts as a (short) visit.
+ */
+export function zoneVisits(points: LatLngTime[], timesMs: number[], cumDistM: number[], zones: Zone[]): ZoneVisit[] {
+  const out: ZoneVisit[] = [];
+  const n = points.length;
+  if (!n) return out;
+  const at = (i: number, u: number) => ({
+    ms: timesMs[i] + (i + 1 < n ? (timesMs[i + 1] - timesMs[i]) * u : 0),
+    m: cumDistM[i] + (i + 1 < n ? (cumDistM[i + 1] - cumDistM[i]) * u : 0),
+  });
+  zones.forEach((zone, zoneIndex) => {
+    let inside = insideZone(points[0], zone);
+    let entry = inside ? { index: 0, startsInside: true, ...at(0, 0) } : null;
+    const close = (index: number, where: { ms: number; m: number }, endsInside: boolean) => {
+      out.push({
+        zoneIndex,
+        zone: zone.name,
+        entryMs: entry!.ms,
+        exitMs: where.ms,
+        dwellS: (where.ms - entry!.ms) / 1000,
+        distanceM: where.m - entry!.m,
+        entryIndex: entry!.index,
+        exitIndex: index,
+        startsInside: entry!.startsInside,
+        endsInside,
+      });
+      entry = null;
+    };
+    for (let i = 0; i < n - 1; i++) {
+      const crossings = edgeCrossings(points[i], points[i + 1], zone);
+      // Floating point at a vertex: trust the end point over an odd count
+      if ((crossings.length % 2 === 1) === (inside === insideZone(points[i + 1], zone))) crossings.push(1);
+      for (const u of crossings) {
+        if (inside) close(i + 1, at(i, u), false);
+        else entry = { index: i, startsInside: false, ...at(i, u) };
+        inside = !inside;
+      }
+    }
+    if (inside && entry) close(n - 1, at(n - 1, 0), true);
+  });
+  return out.sort((a, b) => a.entryMs - b.entryMs || a.zoneIndex - b.zoneIndex);
+}
+
+/** Positions (0..1 along a→b) where the segment crosses any ring edge, in order. */
+function edgeCrossings(a: { lat: number; lon: number }, b: { lat: number; lon: number }, zone: Zone): number[] {
+  const us: number[] = [];
+  const dx = b.lon - a.lon;
+  const dy = b.lat - a.lat;
+  for (const ring of zone.rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const p = ring[j];
+      const q = ring[i];
+      const ex = q.lon - p.lon;
+      const ey = q.lat - p.lat;
+      const den = dx * ey - dy * ex;
+      if (den === 0) continue; // parallel
+      const u = ((p.lon - a.lon) * ey - (p.lat - a.lat) * ex) / den;
+      const v = ((p.lon - a.lon) * dy - (p.lat - a.lat) * dx) / den;
+      // Half-open on the edge so a crossing through a shared vertex counts once
+      if (u > 0 && u <= 1 && v >= 0 && v < 1) us.push(u);
+    }
+  }
+  return us.sort((x, y) => x - y);
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { heatImage, pointWeights } from './heatmap';
+
+const T0 = Date.parse('2024-07-01T12:00:00Z');
+
+describe('pointWeights', () => {
+  it('weighs each point once, or by the time it stands for', () => {
+    const times = [0, 10, 20, 30].map(s => T0 + s * 1000);
+    expect(pointWeights(times, 'points')).toEqual([1, 1, 1, 1]);
+    expect(pointWeights(times, 'dwell')).toEqual([5, 10, 10, 5]);
+  });
+
+  it('caps a gap in the recording at a few sampling intervals', () => {
+    const times = [0, 10, 20, 30, 3630].map(s => T0 + s * 1000);
+    // The hour-long gap counts as five 10 s samples
+    expect(pointWeights(times, 'dwell')).toEqual([5, 10, 10, 30, 25]);
+  });
+});
+
+describe('heatImage', () => {
+  it('is hottest at the busiest spot and fades out around it', () => {
+    const rgba = heatImage([10, 10, 30], [10, 10, 10], [1, 1, 1], 40, 20, 4);
+    const pixel = (x: number, y: number) => Array.from(rgba.slice((y * 40 + x) * 4, (y * 40 + x) * 4 + 4));
+    // The top of the ramp, never opaque
+    expect(pixel(10, 10)).toEqual([255, 0, 0, 220]);
+    // Half as busy: further down the ramp, towards yellow
+    expect(pixel(30, 10)[1]).toBeGreaterThan(0);
+    expect(pixel(16, 10)[3]).toBeLessThan(pixel(13, 10)[3]);
+    expect(pixel(20, 0)[3]).toBe(0);
+  });
+
+  it('leaves an empty grid transparent', () => {
+    expect(heatImage([-5], [50], [1], 8, 8, 2).every(v => v === 0)).toBe(true);
+  });
+});
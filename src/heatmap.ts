@@ -0,0 +1,96 @@
+import { effectiveSamplingIntervalSec } from './utils';
+
+// Density of points on screen, for seeing where one long track or many routes spend their time.
+
+export type HeatWeight = 'points' | 'dwell';
+
+export const HEAT_WEIGHT_NAMES: Record<HeatWeight, string> = {
+  points: 'point count',
+  dwell: 'dwell time',
+};
+
+// Low to high density; the legend bar uses the same stops
+export const HEAT_RAMP = ['#0000ff', '#00ffff', '#00ff00', '#ffff00', '#ff0000'];
+
+// A time step counts towards dwell up to this many sampling intervals, so gaps in the
+// recording don't pile up as time spent at the point before them
+const DWELL_CAP_SAMPLES = 5;
+
+// Log scaling: the busiest cell is 1, and a cell with 1/HEAT_GAIN of that still shows
+const HEAT_GAIN = 50;
+
+const BLUR_PASSES = 3; // box blurs, close to a Gaussian
+
+/** Weight per point: 1 each, or the seconds it stands for (half the step either side). */
+export function pointWeights(timesMs: number[], weight: HeatWeight): number[] {
+  if (weight === 'points') return timesMs.map(() => 1);
+  const capS = DWELL_CAP_SAMPLES * effectiveSamplingIntervalSec(timesMs);
+  const step = (i: number) => Math.min(capS, Math.max(0, (timesMs[i + 1] - timesMs[i]) / 1000)) || 0;
+  return timesMs.map((_, i) => ((i > 0 ? step(i - 1) : 0) + (i + 1 < timesMs.length ? step(i) : 0)) / 2);
+}
+
+/**
+ * RGBA pixels (width × height) of the weighted points at (xs, ys), spread over about
+ * radius pixels and colored along HEAT_RAMP; empty areas stay transparent.
+ */
+export function heatImage(xs: ArrayLike<number>, ys: ArrayLike<number>, weights: ArrayLike<number>, width: number, height: number, radius: number): Uint8ClampedArray {
+  let grid: Float32Array = new Float32Array(width * height);
+  for (let i = 0; i < xs.length; i++) {
+    const x = Math.floor(xs[i]);
+    const y = Math.floor(ys[i]);
+    if (x >= 0 && y >= 0 && x < width && y < height) grid[y * width + x] += weights[i];
+  }
+  const r = Math.max(1, Math.round(radius / Math.sqrt(BLUR_PASSES)));
+  for (let k = 0; k < BLUR_PASSES; k++) grid = boxBlur(boxBlur(grid, width, height, r, 1), width, height, r, width);
+
+  let max = 0;
+  for (const v of grid) max = Math.max(max, v);
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  if (!(max > 0)) return rgba;
+  const ramp = rampTable();
+  for (let i = 0; i < grid.length; i++) {
+    if (!(grid[i] > 0)) continue;
+    const v = Math.log1p((HEAT_GAIN * grid[i]) / max) / Math.log1p(HEAT_GAIN);
+    const c = Math.min(255, Math.round(v * 255)) * 3;
+    rgba[i * 4] = ramp[c];
+    rgba[i * 4 + 1] = ramp[c + 1];
+    rgba[i * 4 + 2] = ramp[c + 2];
+    rgba[i * 4 + 3] = Math.min(220, Math.round(v * 400)); // faint at the edges, never opaque
+  }
+  return rgba;
+}
+
+/** Running-sum box blur along rows (stride 1) or columns (stride width). */
+function boxBlur(src: Float32Array, width: number, height: number, r: number, stride: number): Float32Array {
+  const out = new Float32Array(src.length);
+  const [lines, length, next] = stride === 1 ? [height, width, width] : [width, height, 1];
+  const norm = 1 / (2 * r + 1);
+  for (let l = 0; l < lines; l++) {
+    const base = l * next;
+    let sum = 0;
+    for (let k = 0; k < Math.min(r, length); k++) sum += src[base + k * stride];
+    for (let k = 0; k < length; k++) {
+      if (k + r < length) sum += src[base + (k + r) * stride];
+      if (k - r - 1 >= 0) sum -= src[base + (k - r - 1) * stride];
+      out[base + k * stride] = sum * norm;
+    }
+  }
+  return out;
+}
+
+let rampCache: Uint8Array | null = null;
+
+/** HEAT_RAMP interpolated to 256 RGB entries. */
+function rampTable(): Uint8Array {
+  if (rampCache) return rampCache;
+  const stops = HEAT_RAMP.map(hex => [1, 3, 5].map(k => parseInt(hex.slice(k, k + 2), 16)));
+  const table = new Uint8Array(256 * 3);
+  for (let i = 0; i < 256; i++) {
+    const pos = (i / 255) * (stops.length - 1);
+    const k = Math.min(stops.length - 2, Math.floor(pos));
+    const f = pos - k;
+    for (let c = 0; c < 3; c++) table[i * 3 + c] = Math.round(stops[k][c] + (stops[k + 1][c] - stops[k][c]) * f);
+  }
+  rampCache = table;
+  return table;
+}
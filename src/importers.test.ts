@@ -0,0 +1,313 @@
+import { describe, expect, it } from 'vitest';
+import example from '../example.json';
+import { ImportError, detectFormat, parseRouteFile } from './importers';
+import { encodePolyline } from './utils';
+
+const T0 = Date.parse('2024-07-01T12:00:00Z');
+
+describe('detectFormat', () => {
+  it('goes by extension, then by content', () => {
+    expect(detectFormat('a.GeoJSON', '')).toBe('json');
+    expect(detectFormat('a.tcx', '')).toBe('tcx');
+    expect(detectFormat('upload', '  {"type":"Feature"}')).toBe('json');
+    expect(detectFormat('upload', '<?xml version="1.0"?>\n<gpx version="1.1">')).toBe('gpx');
+    expect(detectFormat('upload', '<kml xmlns="http://www.opengis.net/kml/2.2">')).toBe('kml');
+    expect(detectFormat('upload', '<TrainingCenterDatabase>')).toBe('tcx');
+    expect(detectFormat('upload', 'lat,lon\n1,2')).toBe('csv');
+  });
+});
+
+describe('JSON', () => {
+  it('decodes the example polyline with its start/end times', () => {
+    const [route] = parseRouteFile('example.json', JSON.stringify(example));
+    expect(route.points).toHaveLength(280);
+    expect(route.points[0].lat).toBeCloseTo(29.54193, 5);
+    expect(route.points[0].lon).toBeCloseTo(-95.01885, 5);
+    expect(route.timeSource).toBe('reconstructed');
+    expect(route.timesMs).toEqual([]);
+    expect(route.meta).toMatchObject({ label: 'home from wine bar', direction: 'B->A', sampleRateS: 2, pointCount: 280 });
+    expect(route.meta.startMs).toBe(Date.parse('2025-08-30T01:10:10Z'));
+    // The example declares no precision, so precision 5 is a guess
+    expect(route.issues).toEqual([expect.objectContaining({ level: 'warning', path: '$.properties.polyline' })]);
+  });
+
+  it('reads per-point times and elevation from coordinates', () => {
+    const feature = {
+      type: 'Feature',
+      properties: { name: 'Loop' },
+      geometry: { type: 'LineString', coordinates: [[-95, 29.5, 12, T0], [-95.001, 29.5, 14, T0 + 5000]] },
+    };
+    const [route] = parseRouteFile('a.json', JSON.stringify(feature));
+    expect(route.timeSource).toBe('per-point');
+    expect(route.timesMs).toEqual([T0, T0 + 5000]);
+    expect(route.points.map(p => p.ele)).toEqual([12, 14]);
+    expect(route.meta.label).toBe('Loop');
+  });
+
+  it('reads a third coordinate as a time when it is too large for an elevation', () => {
+    const feature = { type: 'Feature', geometry: { type: 'LineString', coordinates: [[-95, 29.5, T0 / 1000], [-95.001, 29.5, T0 / 1000 + 5]] } };
+    const [route] = parseRouteFile('a.json', JSON.stringify(feature));
+    expect(route.timesMs).toEqual([T0, T0 + 5000]);
+    expect(route.points[0].ele).toBeUndefined();
+  });
+
+  it('reads coordinate tuples of every length the README lists', () => {
+    const line = (coordinates: unknown[]) => parseRouteFile('a.json', JSON.stringify({ type: 'Feature', properties: { start_time: T0 }, geometry: { type: 'LineString', coordinates } }))[0];
+    const withEle = line([[-95, 29.5, 12], [-95.001, 29.5, -3.5]]);
+    expect(withEle.points.map(p => p.ele)).toEqual([12, -3.5]);
+    expect(withEle.timeSource).toBe('reconstructed');
+    const iso = line([[-95, 29.5, '2024-07-01T12:00:00Z'], [-95.001, 29.5, '2024-07-01T12:00:05Z']]);
+    expect(iso.timesMs).toEqual([T0, T0 + 5000]);
+    expect(iso.points[0].ele).toBeUndefined();
+    // One epoch is enough to read the whole line's third values as times
+    const mixed = line([[-95, 29.5, T0], [-95.001, 29.5], [-95.002, 29.5, T0 + 10000]]);
+    expect(mixed.timesMs).toEqual([T0, T0 + 5000, T0 + 10000]);
+    expect(mixed.points.every(p => p.ele == null)).toBe(true);
+  });
+
+  it('reads small third values as elevation, even when they were meant as relative seconds', () => {
+    // Up to 1,000,000 a number can't be told from an elevation; times need a fourth value
+    const [route] = parseRouteFile('a.json', JSON.stringify({ type: 'Feature', geometry: { type: 'LineString', coordinates: [[-95, 29.5, 0], [-95.001, 29.5, 5]] } }));
+    expect(route.points.map(p => p.ele)).toEqual([0, 5]);
+    expect(route.timeSource).toBe('reconstructed');
+  });
+
+  it('takes times from properties.timestamps', () => {
+    const feature = {
+      type: 'Feature',
+      properties: { timestamps: ['2024-07-01T12:00:00Z', '2024-07-01T12:00:10Z'] },
+      geometry: { type: 'LineString', coordinates: [[-95, 29.5], [-95.001, 29.5]] },
+    };
+    const [route] = parseRouteFile('a.json', JSON.stringify(feature));
+    expect(route.timeSource).toBe('timestamps');
+    expect(route.timesMs).toEqual([T0, T0 + 10000]);
+  });
+
+  it('loads one route per feature and per line of a MultiLineString', () => {
+    const collection = {
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', properties: { route_label: 'A' }, geometry: { type: 'LineString', coordinates: [[-95, 29.5], [-95.001, 29.5]] } },
+        { type: 'Feature', properties: { route_label: 'B' }, geometry: { type: 'MultiLineString', coordinates: [[[-94, 29], [-94.001, 29]], [[-93, 28], [-93.001, 28]]] } },
+        { type: 'Feature', properties: {}, geometry: null },
+      ],
+    };
+    const routes = parseRouteFile('a.geojson', JSON.stringify(collection));
+    expect(routes.map(r => r.meta.label)).toEqual(['A', 'B #1', 'B #2']);
+  });
+
+  it('joins per-segment features back into one route', () => {
+    const segment = (i: number, from: number, to: number) => ({
+      type: 'Feature',
+      properties: { segment_index: i, route_label: 'R', t_start: T0 + i * 1000, t_end: T0 + (i + 1) * 1000 },
+      geometry: { type: 'LineString', coordinates: [[from, 29.5], [to, 29.5]] },
+    });
+    const collection = { type: 'FeatureCollection', features: [segment(1, -95.001, -95.002), segment(0, -95, -95.001)] };
+    const [route] = parseRouteFile('a.geojson', JSON.stringify(collection));
+    expect(route.points.map(p => p.lon)).toEqual([-95, -95.001, -95.002]);
+    expect(route.timesMs).toEqual([T0, T0 + 1000, T0 + 2000]);
+  });
+
+  it('rejects files without coordinates', () => {
+    expect(() => parseRouteFile('a.json', '{"type":"Feature","properties":{}}')).toThrow(ImportError);
+    expect(() => parseRouteFile('a.json', '{not json')).toThrow(/invalid JSON/);
+  });
+});
+
+describe('multi-route files', () => {
+  it('loads one route per GPX track and TCX activity', () => {
+    const trk = (name: string, lat: number) => `<trk><name>${name}</name><trkseg><trkpt lat="${lat}" lon="2"/><trkpt lat="${lat + 0.001}" lon="2"/></trkseg></trk>`;
+    const gpx = parseRouteFile('a.gpx', `<gpx>${trk('Out', 1)}${trk('Back', 3)}</gpx>`);
+    expect(gpx.map(r => [r.meta.label, r.points[0].lat])).toEqual([['Out', 1], ['Back', 3]]);
+
+    const activity = (sport: string) => `<Activity Sport="${sport}"><Lap><Track><Trackpoint><Position><LatitudeDegrees>1</LatitudeDegrees><LongitudeDegrees>2</LongitudeDegrees></Position></Trackpoint></Track></Lap></Activity>`;
+    const tcx = parseRouteFile('a.tcx', `<TrainingCenterDatabase><Activities>${activity('Running')}${activity('Biking')}</Activities></TrainingCenterDatabase>`);
+    expect(tcx.map(r => r.meta.label)).toEqual(['Running', 'Biking']);
+  });
+
+  it('drops routes left without points and keeps the rest', () => {
+    const collection = {
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', properties: { name: 'Bad' }, geometry: { type: 'LineString', coordinates: [['x', 1], [2, 'y']] } },
+        { type: 'Feature', properties: { name: 'Good' }, geometry: { type: 'LineString', coordinates: [[-95, 29.5], [-95.001, 29.5]] } },
+      ],
+    };
+    expect(parseRouteFile('a.geojson', JSON.stringify(collection)).map(r => r.meta.label)).toEqual(['Good']);
+  });
+
+  it('shares properties.timestamps across the lines of a MultiLineString', () => {
+    const feature = {
+      type: 'Feature',
+      properties: { timestamps: [0, 10, 20, 30].map(s => new Date(T0 + s * 1000).toISOString()) },
+      geometry: { type: 'MultiLineString', coordinates: [[[-95, 29.5], [-95.001, 29.5]], [[-94, 29], [-94.001, 29]]] },
+    };
+    const [first, second] = parseRouteFile('a.json', JSON.stringify(feature));
+    expect(first.timesMs).toEqual([T0, T0 + 10000]);
+    expect(second.timesMs).toEqual([T0 + 20000, T0 + 30000]);
+  });
+});
+
+describe('GPX', () => {
+  it('reads track points with time and elevation', () => {
+    const gpx = `<?xml version="1.0"?>
+      <gpx version="1.1"><metadata><name>Doc</name></metadata>
+        <trk><name>Ride</name><desc>North</desc><trkseg>
+          <trkpt lat="29.5" lon="-95"><ele>10</ele><time>2024-07-01T12:00:00Z</time></trkpt>
+          <trkpt lat="29.501" lon="-95"><ele>11.5</ele><time>2024-07-01T12:00:05Z</time></trkpt>
+        </trkseg></trk>
+      </gpx>`;
+    const [route] = parseRouteFile('a.gpx', gpx);
+    expect(route.format).toBe('gpx');
+    expect(route.timeSource).toBe('measured');
+    expect(route.timesMs).toEqual([T0, T0 + 5000]);
+    expect(route.points.map(p => p.ele)).toEqual([10, 11.5]);
+    expect(route.meta).toMatchObject({ label: 'Ride', direction: 'North' });
+  });
+
+  it('falls back to route points', () => {
+    const gpx = '<gpx><rte><rtept lat="1" lon="2"/><rtept lat="1.001" lon="2"/></rte></gpx>';
+    const [route] = parseRouteFile('a.gpx', gpx);
+    expect(route.points.map(p => [p.lat, p.lon])).toEqual([[1, 2], [1.001, 2]]);
+    expect(route.timeSource).toBe('reconstructed');
+  });
+
+  it('skips a point with a bad coordinate and names its element', () => {
+    const gpx = '<gpx><trk><trkseg><trkpt lat="1" lon="2"/><trkpt lat="x" lon="2"/><trkpt lat="1.001" lon="2"/></trkseg></trk></gpx>';
+    const [route] = parseRouteFile('a.gpx', gpx);
+    expect(route.points.map(p => p.lat)).toEqual([1, 1.001]);
+    expect(route.issues?.[0]).toMatchObject({ level: 'error', path: '$.gpx[0].trk[0].trkseg[0].trkpt[1]' });
+  });
+
+  it('rejects a file whose every point is bad', () => {
+    const gpx = '<gpx><trk><trkseg><trkpt lat="x" lon="2"/></trkseg></trk></gpx>';
+    expect(() => parseRouteFile('a.gpx', gpx)).toThrow(/no usable coordinates \(\$\.gpx\[0\]\.trk\[0\]\.trkseg\[0\]\.trkpt\[0\]/);
+  });
+});
+
+describe('KML', () => {
+  it('reads a gx:Track and a LineString placemark', () => {
+    const kml = `<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2"><Document>
+      <Placemark><name>Timed</name><gx:Track>
+        <when>2024-07-01T12:00:00Z</when><when>2024-07-01T12:00:30Z</when>
+        <gx:coord>-95 29.5 3</gx:coord><gx:coord>-95.001 29.5 4</gx:coord>
+      </gx:Track></Placemark>
+      <Placemark><name>Plain</name><LineString><coordinates>-94,29,1 -94.001,29,2</coordinates></LineString></Placemark>
+    </Document></kml>`;
+    const [timed, plain] = parseRouteFile('a.kml', kml);
+    expect(timed.meta.label).toBe('Timed');
+    expect(timed.timesMs).toEqual([T0, T0 + 30000]);
+    expect(timed.points.map(p => p.ele)).toEqual([3, 4]);
+    expect(plain.meta.label).toBe('Plain');
+    expect(plain.points.map(p => [p.lon, p.lat, p.ele])).toEqual([[-94, 29, 1], [-94.001, 29, 2]]);
+    expect(plain.timeSource).toBe('reconstructed');
+  });
+
+  it('skips a tuple that is not lon,lat', () => {
+    const kml = '<kml><Placemark><LineString><coordinates>-94,29 oops -94.001,29 -94.002,</coordinates></LineString></Placemark></kml>';
+    const [route] = parseRouteFile('a.kml', kml);
+    expect(route.points).toHaveLength(2);
+    expect(route.issues?.[0]).toMatchObject({ path: '$.kml[0].Placemark[0].LineString[0].coordinates (tuple 1)', message: expect.stringMatching(/2 points/) });
+  });
+
+  it('rejects mismatched when/coord counts', () => {
+    const kml = '<kml><Placemark><gx:Track><when>2024-07-01T12:00:00Z</when><gx:coord>1 2 0</gx:coord><gx:coord>1 2 0</gx:coord></gx:Track></Placemark></kml>';
+    expect(() => parseRouteFile('a.kml', kml)).toThrow(/1 <when> but 2 <gx:coord>/);
+  });
+});
+
+describe('XML', () => {
+  it('reads numeric entities beyond Unicode as the replacement character', () => {
+    const gpx = '<gpx><trk><name>A&#99999999;B&#x41;</name><trkseg><trkpt lat="1" lon="2"/><trkpt lat="1.001" lon="2"/></trkseg></trk></gpx>';
+    expect(parseRouteFile('a.gpx', gpx)[0].meta.label).toBe('A\ufffdBA');
+  });
+});
+
+describe('TCX', () => {
+  it('reads trackpoints and skips those without a position', () => {
+    const tcx = `<TrainingCenterDatabase><Activities><Activity Sport="Biking"><Id>2024-07-01T12:00:00Z</Id><Lap><Track>
+      <Trackpoint><Time>2024-07-01T12:00:00Z</Time><Position><LatitudeDegrees>29.5</LatitudeDegrees><LongitudeDegrees>-95</LongitudeDegrees></Position><AltitudeMeters>7</AltitudeMeters></Trackpoint>
+      <Trackpoint><Time>2024-07-01T12:00:01Z</Time><HeartRateBpm><Value>120</Value></HeartRateBpm></Trackpoint>
+      <Trackpoint><Time>2024-07-01T12:00:02Z</Time><Position><LatitudeDegrees>29.501</LatitudeDegrees><LongitudeDegrees>-95</LongitudeDegrees></Position></Trackpoint>
+    </Track></Lap></Activity></Activities></TrainingCenterDatabase>`;
+    const [route] = parseRouteFile('a.tcx', tcx);
+    expect(route.meta.label).toBe('Biking');
+    expect(route.timesMs).toEqual([T0, T0 + 2000]);
+    expect(route.points.map(p => p.ele)).toEqual([7, undefined]);
+  });
+});
+
+describe('CSV', () => {
+  it('finds columns by name, delimiter and quoting', () => {
+    const csv = 'Latitude;Longitude;"Time";alt\n29.5;-95;2024-07-01T12:00:00Z;5\n"29.501";-95;2024-07-01T12:00:04Z;6\n';
+    const [route] = parseRouteFile('a.csv', csv);
+    expect(route.points.map(p => [p.lat, p.lon, p.ele])).toEqual([[29.5, -95, 5], [29.501, -95, 6]]);
+    expect(route.timesMs).toEqual([T0, T0 + 4000]);
+  });
+
+  it('reads numeric times as epoch seconds or milliseconds', () => {
+    const csv = `lat,lon,timestamp\n29.5,-95,${T0 / 1000}\n29.501,-95,${T0 + 4000}\n`;
+    const [route] = parseRouteFile('a.csv', csv);
+    expect(route.timesMs).toEqual([T0, T0 + 4000]);
+  });
+
+  it('skips rows with a bad coordinate and reports their line', () => {
+    const [route] = parseRouteFile('a.csv', 'lat,lon\n29.5,-95\nn/a,-95\n29.502,-95\n');
+    expect(route.points).toHaveLength(2);
+    expect(route.issues?.[0]).toMatchObject({ level: 'error', path: 'line 3' });
+  });
+
+  it('needs latitude and longitude columns', () => {
+    expect(() => parseRouteFile('a.csv', 'a,b\n1,2')).toThrow(/latitude and longitude/);
+  });
+});
+
+describe('partial times', () => {
+  it('fills the points without a time and keeps the recorded ones', () => {
+    const gpx = `<gpx><trk><trkseg>
+      <trkpt lat="29.5" lon="-95"><time>2024-07-01T12:00:00Z</time></trkpt>
+      <trkpt lat="29.501" lon="-95"/>
+      <trkpt lat="29.502" lon="-95"><time>2024-07-01T12:00:20Z</time></trkpt>
+      <trkpt lat="29.503" lon="-95"/>
+    </trkseg></trk></gpx>`;
+    const [route] = parseRouteFile('a.gpx', gpx);
+    expect(route.timeSource).toBe('measured');
+    expect(route.timesMs).toEqual([T0, T0 + 10000, T0 + 20000, T0 + 30000]);
+    expect(route.points.map(p => p.timeFill)).toEqual([undefined, 'interpolated', undefined, 'extrapolated']);
+  });
+
+  it('pins the declared start time to an untimed first point', () => {
+    const feature = {
+      type: 'Feature',
+      properties: { start_time: '2024-07-01T11:59:00Z' },
+      geometry: { type: 'LineString', coordinates: [[-95, 29.5], [-95, 29.501, 0, T0]] },
+    };
+    const [route] = parseRouteFile('a.json', JSON.stringify(feature));
+    expect(route.timesMs).toEqual([T0 - 60000, T0]);
+  });
+});
+
+describe('polyline precision', () => {
+  const coords: [number, number][] = [[29.5, -95], [29.501, -95.002]];
+  const feature = (polyline: string, precision?: number) => JSON.stringify({ type: 'Feature', properties: { polyline, polyline_precision: precision, start_time: T0 } });
+
+  it('uses the declared precision', () => {
+    const [route] = parseRouteFile('a.json', feature(encodePolyline(coords, 6), 6));
+    expect(route.points.map(p => [p.lat, p.lon])).toEqual(coords);
+    expect(route.issues).toEqual([]);
+  });
+
+  it('reads precision 6 when precision 5 would land out of range', () => {
+    const [route] = parseRouteFile('a.json', feature(encodePolyline(coords, 6)));
+    expect(route.points.map(p => [p.lat, p.lon])).toEqual(coords);
+    expect(route.issues).toEqual([]);
+  });
+
+  it('warns when the precision is only a guess', () => {
+    const nearZero: [number, number][] = [[0.5, 1], [0.501, 1.002]];
+    const [route] = parseRouteFile('a.json', feature(encodePolyline(nearZero, 6)));
+    // Read as precision 5: ten times too far out
+    expect(route.points[0].lat).toBeCloseTo(5, 6);
+    expect(route.issues).toEqual([expect.objectContaining({ level: 'warning', path: '$.properties.polyline' })]);
+  });
+});
@@ -0,0 +1,635 @@
+import type { LatLngTime } from './utils';
+import { cumulativeDistancesMeters, decodePolyline, fillTimeGaps, parseMaybeTime } from './utils';
+import type { Locator, ValidationContext, ValidationIssue } from './validation';
+import { validateRoute } from './validation';
+
+type AnyGeo = any;
+
+export type RouteFormat = 'json' | 'gpx' | 'kml' | 'tcx' | 'csv';
+
+export type RouteMeta = {
+  label?: string;
+  direction?: string;
+  startMs?: number;
+  endMs?: number;
+  sampleRateS?: number;
+  pointCount?: number;
+};
+
+/**
+ * Where a route's times came from: device formats record them ('measured'), JSON
+ * carries them per coordinate ('per-point') or as properties.timestamps
+ * ('timestamps'); otherwise they are 'reconstructed' from start/end times.
+ */
+export type TimeSource = 'measured' | 'per-point' | 'timestamps' | 'reconstructed';
+
+export type ParsedRoute = {
+  format: RouteFormat;
+  points: LatLngTime[];
+  meta: RouteMeta;
+  timesMs: number[];
+  timeSource: TimeSource;
+  issues?: ValidationIssue[]; // what the validation pass found; absent on routes saved before it existed
+};
+
+const FORMAT_NAMES: Record<RouteFormat, string> = {
+  json: 'JSON/GeoJSON',
+  gpx: 'GPX',
+  kml: 'KML',
+  tcx: 'TCX',
+  csv: 'CSV',
+};
+
+export class ImportError extends Error {
+  format: RouteFormat;
+  constructor(format: RouteFormat, message: string) {
+    super(`${FORMAT_NAMES[format]}: ${message}`);
+    this.name = 'ImportError';
+    this.format = format;
+  }
+}
+
+export const ACCEPTED_EXTENSIONS = ['.json', '.geojson', '.gpx', '.kml', '.tcx', '.csv'];
+
+export function detectFormat(fileName: string, text: string): RouteFormat {
+  const ext = fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  if (ext === 'json' || ext === 'geojson') return 'json';
+  if (ext === 'gpx' || ext === 'kml' || ext === 'tcx' || ext === 'csv') return ext;
+
+  // Unknown extension: sniff the content
+  const head = text.slice(0, 2048).trimStart();
+  if (head.startsWith('{') || head.startsWith('[')) return 'json';
+  if (/<gpx[\s>]/i.test(head)) return 'gpx';
+  if (/<kml[\s>]/i.test(head)) return 'kml';
+  if (/<TrainingCenterDatabase[\s>]/i.test(head)) return 'tcx';
+  return 'csv';
+}
+
+// Importers say where each route and point came from so validation can point at it
+type RouteData = Omit<ParsedRoute, 'format' | 'issues'> & { check: ValidationContext };
+
+/**
+ * Parses a route file into one entry per route it contains (features, lines, tracks, …).
+ * Each entry carries its validation issues; points with unusable coordinates are already dropped.
+ */
+export function parseRouteFile(fileName: string, text: string): ParsedRoute[] {
+  const format = detectFormat(fileName, text);
+  let parsed: RouteData[];
+  switch (format) {
+    case 'json': parsed = parseJsonRoutes(text); break;
+    case 'gpx': parsed = parseGpx(text); break;
+    case 'kml': parsed = parseKml(text); break;
+    case 'tcx': parsed = parseTcx(text); break;
+    case 'csv': parsed = [parseCsv(text)]; break;
+  }
+  const routes = parsed.filter(r => r.points.length > 0).map(({ check, ...r }): ParsedRoute => {
+    const { issues, points, timesMs } = validateRoute(r, check);
+    // Missing times are filled only now, so the distances they're spread over skip dropped points
+    return { format, ...r, points, ...fillMissingTimes(points, timesMs, r.meta, r.timeSource), issues };
+  });
+  const usable = routes.filter(r => r.points.length > 0);
+  if (!usable.length) {
+    const issue = routes[0]?.issues?.find(i => i.level === 'error');
+    throw new ImportError(format, issue ? `no usable coordinates (${issue.path}: ${issue.message})` : 'no coordinates found');
+  }
+  return usable;
+}
+
+// ---------------------------------------------------------------------------
+// JSON / GeoJSON
+
+function parseJsonRoutes(text: string): RouteData[] {
+  let json: AnyGeo;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    throw new ImportError('json', `invalid JSON (${(e as Error).message})`);
+  }
+  const routes = extractRoutes(json);
+  if (!routes.length) {
+    throw new ImportError('json', 'no coordinates found. Expect properties.polyline or geometry.coordinates');
+  }
+  return routes;
+}
+
+/**
+ * Extracts every route from a Feature, FeatureCollection or Feature-like object.
+ * Each feature yields one route; a MultiLineString yields one route per line.
+ */
+export function extractRoutes(json: AnyGeo): RouteData[] {
+  const all = getFeatures(json);
+  // Per-segment features (our GeoJSON export) are stitched back into their route
+  const segments = all.filter(isSegmentFeature);
+  const features = all.filter(f => !isSegmentFeature(f));
+  // Bare objects like { polyline, start_time } carry everything at the top level
+  if (!all.length) features.push(undefined);
+
+  // JSON paths: $.features[k] inside a collection, $ for a lone feature or bare object
+  const featurePath = (f: AnyGeo) => (f && json?.type === 'FeatureCollection' ? `$.features[${json.features.indexOf(f)}]` : '$');
+  const routes: RouteData[] = stitchSegments(segments.map(f => ({
+    index: f.properties.segment_index,
+    points: coordsToPoints(f.geometry.coordinates),
+    startMs: parseMaybeTime(f.properties.t_start),
+    endMs: parseMaybeTime(f.properties.t_end),
+    meta: { label: f.properties.route_label, direction: f.properties.direction },
+    path: featurePath(f),
+    locate: (i: number) => `${featurePath(f)}.geometry.coordinates[${i}]`,
+  })), 'per-point');
+  for (const feature of features) {
+    const fp = featurePath(feature);
+    const props = feature?.properties ?? json?.properties ?? {};
+    const propsPath = feature?.properties ? `${fp}.properties` : '$.properties';
+    // Path of a property that may also sit on the top-level object
+    const at = (key: string) => (props[key] != null ? `${propsPath}.${key}` : `$.${key}`);
+    const meta: RouteMeta = {
+      label: props.route_label ?? props.label ?? props.name ?? json?.route_label ?? json?.label,
+      direction: props.direction ?? json?.direction,
+      startMs: parseMaybeTime(props.start_time ?? json?.start_time),
+      endMs: parseMaybeTime(props.end_time ?? json?.end_time),
+      sampleRateS: positiveNumber(props.sample_rate_s ?? json?.sample_rate_s),
+      pointCount: positiveNumber(props.point_count ?? json?.point_count),
+    };
+    let lines: LatLngTime[][] = [];
+    let locators: Locator[] = [];
+    let precisionGuess: ValidationContext['precisionGuess'];
+
+    // 1) properties.polyline (Google encoded, precision 5 or 6)
+    const encoded = props.polyline ?? json?.polyline;
+    if (typeof encoded === 'string' && encoded.length > 0) {
+      const { precision, guessed } = polylinePrecision(encoded, props.polyline_precision ?? props.precision ?? json?.polyline_precision ?? json?.precision);
+      if (guessed) precisionGuess = { path: at('polyline'), precision };
+      const arr = decodePolyline(encoded, precision);
+      lines = [arr.map(([lat, lon]) => ({ lat, lon }))];
+      locators = [i => `${at('polyline')} (point ${i})`];
+    }
+
+    // 2) geometry.coordinates fallback (LineString, MultiLineString or array of [lon,lat(,time)])
+    if (!lines.length) {
+      const geom = feature?.geometry ?? json?.geometry;
+      const geomPath = feature?.geometry ? `${fp}.geometry` : '$.geometry';
+      if (geom?.type === 'LineString' && Array.isArray(geom.coordinates)) {
+        lines = [coordsToPoints(geom.coordinates)];
+        locators = [i => `${geomPath}.coordinates[${i}]`];
+      } else if (geom?.type === 'MultiLineString' && Array.isArray(geom.coordinates)) {
+        const kept = (geom.coordinates as any[]).flatMap((line, k) => (Array.isArray(line) ? [k] : []));
+        lines = kept.map(k => coordsToPoints(geom.coordinates[k]));
+        locators = kept.map(k => (i: number) => `${geomPath}.coordinates[${k}][${i}]`);
+      } else if (Array.isArray(geom)) {
+        // Raw array of coordinates
+        lines = [coordsToPoints(geom)];
+        locators = [i => `${geomPath}[${i}]`];
+      }
+    }
+
+    // properties.timestamps spans all lines of the feature, in order
+    const ts = props.timestamps ?? json?.timestamps;
+    const totalPoints = lines.reduce((n, l) => n + l.length, 0);
+    const bbox = feature?.bbox != null ? { path: `${fp}.bbox`, value: feature.bbox } : json?.bbox != null ? { path: '$.bbox', value: json.bbox } : undefined;
+    let offset = 0;
+    lines.forEach((points, k) => {
+      const lineMeta = lines.length > 1 ? { ...meta, label: `${meta.label ?? 'Line'} #${k + 1}` } : meta;
+      const check: ValidationContext = { path: lines.length > 1 ? `${fp} (line ${k})` : fp, locate: locators[k], bbox, precisionGuess };
+      if (Array.isArray(ts)) check.timestamps = { path: at('timestamps'), count: ts.length, expected: totalPoints };
+      if (meta.pointCount != null && k === 0) check.pointCount = { path: at('point_count'), declared: meta.pointCount, decoded: totalPoints };
+
+      // Collect times from per-point t if present
+      let times = timesFromPoints(points, 'per-point');
+
+      // Or from properties.timestamps array
+      if (!times.timesMs.length && Array.isArray(ts) && ts.length === totalPoints) {
+        const parsed = ts.slice(offset, offset + points.length)
+          .map((v: any) => parseMaybeTime(v)).filter((v: any) => typeof v === 'number') as number[];
+        if (parsed.length === points.length) {
+          times = { timesMs: parsed, timeSource: 'timestamps' };
+          const base = offset;
+          check.locateTime = i => `${at('timestamps')}[${base + i}]`;
+        }
+      }
+      offset += points.length;
+      routes.push({ points, meta: lineMeta, ...times, check });
+    });
+  }
+  return routes.filter(r => r.points.length > 0);
+}
+
+function isSegmentFeature(f: AnyGeo): boolean {
+  return typeof f?.properties?.segment_index === 'number' && f.geometry?.type === 'LineString' && Array.isArray(f.geometry.coordinates);
+}
+
+/** The declared precision, else 6 if precision 5 decodes out of range, else a guess of 5. */
+function polylinePrecision(encoded: string, declared: unknown): { precision: number; guessed: boolean } {
+  const n = Number(declared);
+  if (n === 5 || n === 6) return { precision: n, guessed: false };
+  // A precision-6 string read as precision 5 lands 10x too far out, unless it lies near 0°, 0°
+  const outOfRange = decodePolyline(encoded, 5).some(([lat, lon]) => Math.abs(lat) > 90 || Math.abs(lon) > 180);
+  return outOfRange ? { precision: 6, guessed: false } : { precision: 5, guessed: true };
+}
+
+function positiveNumber(v: unknown): number | undefined {
+  const n = typeof v === 'string' ? parseFloat(v) : v;
+  return typeof n === 'number' && isFinite(n) && n > 0 ? n : undefined;
+}
+
+function finiteNumber(v: string | undefined): number | undefined {
+  const n = v != null && v.trim() !== '' ? Number(v) : NaN;
+  return isFinite(n) ? n : undefined;
+}
+
+// A third coordinate beyond this is an epoch time (seconds or ms), not an altitude
+const MAX_ELEVATION_M = 1e6;
+
+/**
+ * [lon, lat], [lon, lat, ele], [lon, lat, ele, time] or the older [lon, lat, time]. A line's
+ * third values are all read as times if any of them is a date string or too large for an
+ * elevation, so one route never mixes the two.
+ */
+function coordsToPoints(coords: any[]): LatLngTime[] {
+  const thirdIsTime = coords.some((c: any) => Array.isArray(c) && c.length === 3
+    && (typeof c[2] === 'string' || (typeof c[2] === 'number' && Math.abs(c[2]) > MAX_ELEVATION_M)));
+  return coords.map((c: any) => {
+    const p: LatLngTime = { lat: c?.[1], lon: c?.[0] };
+    if (thirdIsTime) {
+      p.t = parseMaybeTime(c?.[2]);
+      return p;
+    }
+    if (typeof c?.[2] === 'number' && isFinite(c[2])) p.ele = c[2];
+    p.t = parseMaybeTime(c?.[3]);
+    return p;
+  });
+}
+
+function getFeatures(json: AnyGeo): AnyGeo[] {
+  if (!json) return [];
+  if (json.type === 'Feature') return [json];
+  if (json.type === 'FeatureCollection' && Array.isArray(json.features)) return [...json.features];
+  if (json.geometry || json.properties) return [json]; // loosely treat as Feature-like
+  return [];
+}
+
+/** Times from the points' own t; points without one are NaN until fillMissingTimes. */
+function timesFromPoints(points: LatLngTime[], source: TimeSource): Pick<RouteData, 'timesMs' | 'timeSource'> {
+  if (!points.some(p => typeof p.t === 'number')) return { timesMs: [], timeSource: 'reconstructed' };
+  return { timesMs: points.map(p => (typeof p.t === 'number' ? p.t! : NaN)), timeSource: source };
+}
+
+/**
+ * Where some points lack a time: keeps the known ones (plus the route's start/end times at its
+ * ends) and fills the gaps around them; the filled points are flagged.
+ */
+function fillMissingTimes(points: LatLngTime[], timesMs: number[], meta: RouteMeta, source: TimeSource): Pick<ParsedRoute, 'timesMs' | 'timeSource'> {
+  if (timesMs.every(t => isFinite(t))) return { timesMs, timeSource: source };
+  // Validation may have dropped every point that had a time
+  if (!timesMs.some(t => isFinite(t))) return { timesMs: [], timeSource: 'reconstructed' };
+  const n = timesMs.length;
+  const known = timesMs.slice();
+  if (!isFinite(known[0]) && meta.startMs != null) known[0] = meta.startMs;
+  if (!isFinite(known[n - 1]) && meta.endMs != null) known[n - 1] = meta.endMs;
+  const filled = fillTimeGaps(known, cumulativeDistancesMeters(points), (meta.sampleRateS ?? 1) * 1000);
+  points.forEach((p, i) => {
+    if (filled.fill[i]) p.timeFill = filled.fill[i];
+  });
+  return { timesMs: filled.timesMs, timeSource: source };
+}
+
+type Segment = {
+  index: number; // position of the segment along its route
+  points: LatLngTime[];
+  startMs?: number;
+  endMs?: number;
+  meta: RouteMeta;
+  path: string;
+  locate: Locator;
+};
+
+/**
+ * Joins per-segment pieces back into routes, grouped by label and ordered by index.
+ * Consecutive segments share an endpoint, which is kept once.
+ */
+function stitchSegments(segments: Segment[], source: TimeSource): RouteData[] {
+  const groups = new Map<string, Segment[]>();
+  for (const s of segments) {
+    if (!s.points.length) continue;
+    const key = s.meta.label ?? '';
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(s);
+  }
+  return [...groups.values()].map(group => {
+    group.sort((a, b) => a.index - b.index);
+    const points: LatLngTime[] = [];
+    const origins: [Segment, number][] = []; // segment and index within it, per stitched point
+    group.forEach((s, k) => {
+      const first = s.points[0];
+      const last = s.points[s.points.length - 1];
+      if (k === 0) { points.push({ ...first, t: s.startMs ?? first.t }); origins.push([s, 0]); }
+      s.points.slice(1, -1).forEach((p, i) => { points.push(p); origins.push([s, i + 1]); });
+      if (s.points.length > 1) { points.push({ ...last, t: s.endMs ?? last.t }); origins.push([s, s.points.length - 1]); }
+    });
+    const meta = group[0].meta;
+    const check: ValidationContext = { path: group[0].path, locate: i => origins[i][0].locate(origins[i][1]) };
+    return { points, meta, ...timesFromPoints(points, source), check };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// GPX: one route per <trk> (segments joined), falling back to one per <rte>
+
+function parseGpx(text: string): RouteData[] {
+  const root = parseXml(text, 'gpx');
+  if (!findFirst(root, 'gpx')) throw new ImportError('gpx', 'missing <gpx> root element');
+
+  let containers = findAllWithPaths(root, 'trk', '$');
+  let pointName = 'trkpt';
+  if (!containers.some(([c]) => findFirst(c, 'trkpt'))) {
+    containers = findAllWithPaths(root, 'rte', '$');
+    pointName = 'rtept';
+  }
+  if (!containers.length) throw new ImportError('gpx', 'no <trk> or <rte> elements found');
+
+  const docName = childText(findFirst(root, 'metadata'), 'name');
+  return containers.map(([trk, trkPath]) => {
+    const points: LatLngTime[] = [];
+    const paths: string[] = [];
+    for (const [pt, path] of findAllWithPaths(trk, pointName, trkPath)) {
+      // A bad lat/lon comes through as NaN; validation skips and reports it
+      const lat = parseFloat(pt.attrs.lat);
+      const lon = parseFloat(pt.attrs.lon);
+      points.push({ lat, lon, t: parseMaybeTime(childText(pt, 'time')), ele: finiteNumber(childText(pt, 'ele')) });
+      paths.push(path);
+    }
+    const meta: RouteMeta = {
+      label: childText(trk, 'name') ?? docName,
+      direction: childText(trk, 'desc'),
+    };
+    return { points, meta, ...timesFromPoints(points, 'measured'), check: { path: trkPath, locate: i => paths[i] } };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// KML: one route per <gx:Track> (paired <when>/<gx:coord>) or <LineString><coordinates>.
+// Placemarks carrying a segment_index in <ExtendedData> are stitched back into one route.
+
+function parseKml(text: string): RouteData[] {
+  const root = parseXml(text, 'kml');
+  if (!findFirst(root, 'kml')) throw new ImportError('kml', 'missing <kml> root element');
+
+  const placemarks = findAllWithPaths(root, 'Placemark', '$');
+  const docName = childText(findFirst(root, 'Document'), 'name');
+  const routes: RouteData[] = [];
+  const segments: Segment[] = [];
+  for (const [container, containerPath] of placemarks.length ? placemarks : [[root, '$'] as const]) {
+    const lines: LatLngTime[][] = [];
+    const locators: Locator[] = [];
+    const data = extendedData(container);
+
+    for (const [track, trackPath] of findAllWithPaths(container, 'Track', containerPath)) {
+      const whens = children(track, 'when');
+      const coords = children(track, 'coord');
+      if (whens.length && whens.length !== coords.length) {
+        throw new ImportError('kml', `${trackPath} has ${whens.length} <when> but ${coords.length} <gx:coord> elements`);
+      }
+      const locate: Locator = i => `${trackPath}.coord[${i}]`;
+      lines.push(coords.map((c, i) => {
+        const [lon, lat, alt] = c.text.trim().split(/\s+/);
+        return { lat: finiteNumber(lat) ?? NaN, lon: finiteNumber(lon) ?? NaN, t: parseMaybeTime(whens[i]?.text.trim()), ele: finiteNumber(alt) };
+      }));
+      locators.push(locate);
+    }
+
+    for (const [line, linePath] of findAllWithPaths(container, 'LineString', containerPath)) {
+      const coordText = childText(line, 'coordinates') ?? '';
+      const locate: Locator = i => `${linePath}.coordinates (tuple ${i})`;
+      lines.push(coordText.split(/\s+/).filter(Boolean).map((tuple, i) => {
+        const [lon, lat, alt] = tuple.split(',');
+        return { lat: finiteNumber(lat) ?? NaN, lon: finiteNumber(lon) ?? NaN, ele: finiteNumber(alt) };
+      }));
+      locators.push(locate);
+    }
+
+    const segmentIndex = data.segment_index != null ? parseInt(data.segment_index, 10) : NaN;
+    if (isFinite(segmentIndex) && lines.length === 1) {
+      const span = children(container, 'TimeSpan')[0];
+      segments.push({
+        index: segmentIndex,
+        points: lines[0],
+        startMs: parseMaybeTime(data.t_start ?? childText(span, 'begin')),
+        endMs: parseMaybeTime(data.t_end ?? childText(span, 'end')),
+        meta: { label: data.route_label ?? docName, direction: data.direction },
+        path: containerPath,
+        locate: locators[0],
+      });
+      continue;
+    }
+
+    const label = container === root ? docName : childText(container, 'name') ?? docName;
+    lines.forEach((points, k) => {
+      const meta: RouteMeta = {
+        label: lines.length > 1 ? `${label ?? 'Track'} #${k + 1}` : label,
+        direction: container === root ? undefined : childText(container, 'description'),
+      };
+      routes.push({ points, meta, ...timesFromPoints(points, 'measured'), check: { path: containerPath, locate: locators[k] } });
+    });
+  }
+  routes.push(...stitchSegments(segments, 'measured'));
+  if (!routes.length) throw new ImportError('kml', 'no <gx:Track> or <LineString><coordinates> found');
+  return routes;
+}
+
+function extendedData(placemark: XmlNode): Record<string, string> {
+  // <ExtendedData><Data name="…"><value>…</value></Data></ExtendedData>
+  const out: Record<string, string> = {};
+  for (const d of children(children(placemark, 'ExtendedData')[0], 'Data')) {
+    const value = childText(d, 'value');
+    if (d.attrs.name && value != null) out[d.attrs.name] = value;
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// TCX: one route per <Activity> or <Course>, from
+// <Trackpoint><Time/><Position><LatitudeDegrees/><LongitudeDegrees/></Position></Trackpoint>
+
+function parseTcx(text: string): RouteData[] {
+  const root = parseXml(text, 'tcx');
+  if (!findFirst(root, 'TrainingCenterDatabase')) {
+    throw new ImportError('tcx', 'missing <TrainingCenterDatabase> root element');
+  }
+
+  const containers = [...findAllWithPaths(root, 'Activity', '$'), ...findAllWithPaths(root, 'Course', '$')];
+  if (!findFirst(root, 'Trackpoint')) throw new ImportError('tcx', 'no <Trackpoint> elements found');
+
+  const routes = (containers.length ? containers : [[root, '$'] as const]).map(([container, containerPath]): RouteData => {
+    const points: LatLngTime[] = [];
+    const paths: string[] = [];
+    for (const [tp, path] of findAllWithPaths(container, 'Trackpoint', containerPath)) {
+      // Trackpoints without <Position> (e.g. paused HR-only samples) are skipped
+      const pos = children(tp, 'Position')[0];
+      if (!pos) continue;
+      const lat = parseFloat(childText(pos, 'LatitudeDegrees') ?? '');
+      const lon = parseFloat(childText(pos, 'LongitudeDegrees') ?? '');
+      points.push({ lat, lon, t: parseMaybeTime(childText(tp, 'Time')), ele: finiteNumber(childText(tp, 'AltitudeMeters')) });
+      paths.push(path);
+    }
+    const meta: RouteMeta = {
+      label: childText(container, 'Name') ?? container.attrs.Sport ?? childText(container, 'Id'),
+      direction: childText(container, 'Notes'),
+    };
+    return { points, meta, ...timesFromPoints(points, 'measured'), check: { path: containerPath, locate: i => paths[i] } };
+  });
+  if (!routes.some(r => r.points.length)) throw new ImportError('tcx', 'no <Trackpoint> carries a <Position>');
+  return routes;
+}
+
+// ---------------------------------------------------------------------------
+// CSV with a header row naming lat/lon (and optionally time) columns
+
+const LAT_COLUMNS = ['lat', 'latitude', 'y'];
+const LON_COLUMNS = ['lon', 'lng', 'long', 'longitude', 'x'];
+const TIME_COLUMNS = ['time', 'timestamp', 't', 'datetime', 'date_time', 'utc'];
+const ELE_COLUMNS = ['ele', 'ele_m', 'elevation', 'alt', 'altitude', 'z'];
+
+function parseCsv(text: string): RouteData {
+  const lines = text.split(/\r?\n/).filter(l => l.trim().length > 0);
+  if (lines.length < 2) throw new ImportError('csv', 'expected a header row and at least one data row');
+
+  const header = lines[0];
+  const delim = [',', ';', '\t'].reduce((best, d) => (header.split(d).length > header.split(best).length ? d : best), ',');
+  const cols = splitCsvLine(header, delim).map(c => c.trim().toLowerCase());
+  const latIdx = cols.findIndex(c => LAT_COLUMNS.includes(c));
+  const lonIdx = cols.findIndex(c => LON_COLUMNS.includes(c));
+  const timeIdx = cols.findIndex(c => TIME_COLUMNS.includes(c));
+  const eleIdx = cols.findIndex(c => ELE_COLUMNS.includes(c));
+  if (latIdx < 0 || lonIdx < 0) {
+    throw new ImportError('csv', `header must name latitude and longitude columns (found: ${cols.join(', ')})`);
+  }
+
+  const points: LatLngTime[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    const cells = splitCsvLine(lines[i], delim);
+    const lat = parseFloat(cells[latIdx]);
+    const lon = parseFloat(cells[lonIdx]);
+    const rawTime = timeIdx >= 0 ? cells[timeIdx]?.trim() : undefined;
+    const t = rawTime && /^-?\d+(\.\d+)?$/.test(rawTime) ? parseMaybeTime(Number(rawTime)) : parseMaybeTime(rawTime);
+    points.push({ lat, lon, t, ele: eleIdx >= 0 ? finiteNumber(cells[eleIdx]) : undefined });
+  }
+
+  const meta: RouteMeta = {};
+  // Data rows follow the header
+  return { points, meta, ...timesFromPoints(points, 'measured'), check: { path: '$', locate: i => `line ${i + 2}` } };
+}
+
+function splitCsvLine(line: string, delim: string): string[] {
+  const cells: string[] = [];
+  let cur = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cur += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cur += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delim) {
+      cells.push(cur); cur = '';
+    } else {
+      cur += ch;
+    }
+  }
+  cells.push(cur);
+  return cells;
+}
+
+// ---------------------------------------------------------------------------
+// Minimal XML reader. Enough for GPX/KML/TCX track data without relying on
+// DOMParser; namespace prefixes are ignored when matching element names.
+
+type XmlNode = {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+};
+
+const XML_TOKEN = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<![^>]*>|<\/\s*([^\s>]+)\s*>|<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+const XML_ATTR = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function parseXml(text: string, format: RouteFormat): XmlNode {
+  const root: XmlNode = { name: '#document', attrs: {}, children: [], text: '' };
+  const stack: XmlNode[] = [root];
+  XML_TOKEN.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = XML_TOKEN.exec(text))) {
+    const top = stack[stack.length - 1];
+    const [, cdata, closeName, openName, attrText, selfClose, chars] = m;
+    if (cdata != null) {
+      top.text += cdata;
+    } else if (chars != null) {
+      top.text += decodeXmlEntities(chars);
+    } else if (closeName) {
+      if (localName(top.name) !== localName(closeName)) {
+        throw new ImportError(format, `malformed XML: unexpected </${closeName}> while inside <${top.name}>`);
+      }
+      stack.pop();
+    } else if (openName) {
+      const attrs: Record<string, string> = {};
+      XML_ATTR.lastIndex = 0;
+      let a: RegExpExecArray | null;
+      while ((a = XML_ATTR.exec(attrText))) attrs[localName(a[1])] = decodeXmlEntities(a[2] ?? a[3] ?? '');
+      const node: XmlNode = { name: openName, attrs, children: [], text: '' };
+      top.children.push(node);
+      if (!selfClose) stack.push(node);
+    }
+  }
+  if (stack.length > 1) {
+    throw new ImportError(format, `malformed XML: <${stack[stack.length - 1].name}> is never closed`);
+  }
+  return root;
+}
+
+function decodeXmlEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, ent: string) => {
+    if (ent[0] === '#') {
+      const code = ent[1] === 'x' || ent[1] === 'X' ? parseInt(ent.slice(2), 16) : parseInt(ent.slice(1), 10);
+      // fromCodePoint throws past U+10FFFF; such an entity reads as the replacement character
+      return code <= 0x10ffff ? String.fromCodePoint(code) : '\ufffd';
+    }
+    return ({ lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" } as Record<string, string>)[ent.toLowerCase()];
+  });
+}
+
+function localName(name: string): string {
+  const i = name.indexOf(':');
+  return i >= 0 ? name.slice(i + 1) : name;
+}
+
+function children(node: XmlNode | undefined, name: string): XmlNode[] {
+  return node ? node.children.filter(c => localName(c.name) === name) : [];
+}
+
+function childText(node: XmlNode | undefined, name: string): string | undefined {
+  const text = children(node, name)[0]?.text.trim();
+  return text ? text : undefined;
+}
+
+/** Every descendant element with this name, paired with its path below `path`, e.g. $.gpx[0].trk[1].trkseg[0].trkpt[12]. */
+function findAllWithPaths(node: XmlNode, name: string, path: string, out: [XmlNode, string][] = []): [XmlNode, string][] {
+  const seen = new Map<string, number>();
+  for (const c of node.children) {
+    const local = localName(c.name);
+    const k = seen.get(local) ?? 0;
+    seen.set(local, k + 1);
+    const childPath = `${path}.${local}[${k}]`;
+    if (local === name) out.push([c, childPath]);
+    findAllWithPaths(c, name, childPath, out);
+  }
+  return out;
+}
+
+function findFirst(node: XmlNode, name: string): XmlNode | undefined {
+  for (const c of node.children) {
+    if (localName(c.name) === name) return c;
+    const found = findFirst(c, name);
+    if (found) return found;
+  }
+  return undefined;
+}
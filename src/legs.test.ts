@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LEG_OPTIONS, detectLegs, travelMode } from './legs';
+import type { Stop } from './stops';
+
+const T0 = Date.parse('2024-07-01T12:00:00Z');
+
+// Points every 10 s, with the given segment speeds
+function series(speeds: number[]): { timesMs: number[]; speeds: number[] } {
+  return { timesMs: speeds.concat(0).map((_, i) => T0 + i * 10000), speeds };
+}
+const repeat = (v: number, k: number) => new Array(k).fill(v);
+
+describe('detectLegs', () => {
+  it('splits at a long time gap', () => {
+    const { timesMs, speeds } = series(repeat(15, 20));
+    for (let i = 11; i < timesMs.length; i++) timesMs[i] += 600000;
+    const legs = detectLegs(timesMs, speeds, [], DEFAULT_LEG_OPTIONS);
+    expect(legs.map(l => [l.startIndex, l.endIndex, l.after, l.mode])).toEqual([
+      [0, 10, 'start', 'drive'],
+      [11, 20, 'gap', 'drive'],
+    ]);
+  });
+
+  it('splits at a long stop, leaving the stop out', () => {
+    const { timesMs, speeds } = series([...repeat(10, 10), ...repeat(0, 70), ...repeat(10, 10)]);
+    const stop: Stop = { startIndex: 10, endIndex: 80, startMs: timesMs[10], endMs: timesMs[80], durationS: 700, lat: 0, lon: 0 };
+    const legs = detectLegs(timesMs, speeds, [stop], DEFAULT_LEG_OPTIONS);
+    expect(legs.map(l => [l.startIndex, l.endIndex, l.after])).toEqual([[0, 10, 'start'], [80, 90, 'stop']]);
+    expect(detectLegs(timesMs, speeds, [{ ...stop, durationS: 300 }], DEFAULT_LEG_OPTIONS)).toHaveLength(1);
+  });
+
+  it('splits at a lasting change of travel mode, not a short one', () => {
+    // Ten minutes' walk with a one-minute jog, then ten minutes' drive
+    const walk = [...repeat(1.4, 30), ...repeat(3, 6), ...repeat(1.4, 24)];
+    const { timesMs, speeds } = series([...walk, ...repeat(15, 60)]);
+    const legs = detectLegs(timesMs, speeds, [], { ...DEFAULT_LEG_OPTIONS, byMode: true });
+    expect(legs.map(l => [l.mode, l.after])).toEqual([['walk', 'start'], ['drive', 'mode']]);
+    expect(legs[0].endIndex).toBe(legs[1].startIndex);
+    expect(Math.abs(legs[1].startIndex - 60)).toBeLessThanOrEqual(3);
+  });
+
+  it('keeps one leg without breaks', () => {
+    const { timesMs, speeds } = series(repeat(1, 5));
+    expect(detectLegs(timesMs, speeds, [], DEFAULT_LEG_OPTIONS)).toEqual([
+      { startIndex: 0, endIndex: 5, startMs: T0, endMs: T0 + 50000, mode: 'walk', after: 'start' },
+    ]);
+  });
+});
+
+describe('travelMode', () => {
+  it('guesses the mode from speed', () => {
+    expect([0.2, 1.4, 5, 15].map(travelMode)).toEqual(['still', 'walk', 'cycle', 'drive']);
+  });
+});
@@ -0,0 +1,156 @@
+import type { Stop } from './stops';
+import { effectiveSamplingIntervalSec, timeDeltasSec } from './utils';
+
+// Splits a recording into legs (separate trips) at long time gaps, long stops and, optionally,
+// lasting changes of travel mode guessed from speed.
+
+export interface LegOptions {
+  gapS: number; // a time step longer than this (and than GAP_SAMPLING_FACTOR samples) ends a leg
+  stopS: number; // so does a detected stop lasting at least this long
+  byMode: boolean; // and a lasting change of travel mode
+}
+
+export const DEFAULT_LEG_OPTIONS: LegOptions = {
+  gapS: 300,
+  stopS: 600,
+  byMode: false,
+};
+
+export type TravelMode = 'still' | 'walk' | 'cycle' | 'drive';
+
+export const TRAVEL_MODE_NAMES: Record<TravelMode, string> = {
+  still: 'Still',
+  walk: 'Walk',
+  cycle: 'Cycle',
+  drive: 'Drive',
+};
+
+/** What ended the previous leg. */
+export type LegBreak = 'start' | 'gap' | 'stop' | 'mode';
+
+export interface Leg {
+  startIndex: number;
+  endIndex: number; // inclusive; a leg split by mode shares its last point with the next
+  startMs: number;
+  endMs: number;
+  mode: TravelMode; // from the median moving speed; a rough guess
+  after: LegBreak;
+}
+
+// Sparse recordings (one fix a minute) shouldn't fall apart at every sample
+const GAP_SAMPLING_FACTOR = 5;
+
+// Mode guessing: upper speed bounds (m/s), the window speeds are smoothed over, and the
+// shortest stretch in one mode that counts as a change rather than traffic or a red light
+const STILL_MPS = 0.5;
+const WALK_MPS = 2.5; // 9 km/h
+const CYCLE_MPS = 7; // ~25 km/h
+const MODE_WINDOW_S = 60;
+const MIN_MODE_S = 180;
+
+export function detectLegs(timesMs: number[], segSpeedsMps: number[], stops: Stop[], opts: LegOptions): Leg[] {
+  const n = timesMs.length;
+  if (n < 2) return [];
+
+  // Breaks, as the last point before and the first point after
+  const gapS = Math.max(opts.gapS, GAP_SAMPLING_FACTOR * effectiveSamplingIntervalSec(timesMs));
+  const breaks: { end: number; next: number; reason: LegBreak }[] = [];
+  timeDeltasSec(timesMs).forEach((dt, i) => {
+    if (dt > gapS) breaks.push({ end: i, next: i + 1, reason: 'gap' });
+  });
+  for (const stop of stops) {
+    if (stop.durationS >= opts.stopS) breaks.push({ end: stop.startIndex, next: stop.endIndex, reason: 'stop' });
+  }
+  breaks.sort((a, b) => a.end - b.end);
+
+  const pieces: [number, number, LegBreak][] = [];
+  let start = 0;
+  let reason: LegBreak = 'start';
+  for (const b of breaks) {
+    if (b.end > start) pieces.push([start, b.end, reason]);
+    if (b.next > start) {
+      start = b.next;
+      reason = b.reason;
+    }
+  }
+  if (start < n - 1) pieces.push([start, n - 1, reason]);
+
+  const legs: Leg[] = [];
+  for (const [s, e, why] of pieces) {
+    const runs = opts.byMode ? modeRuns(timesMs, segSpeedsMps, s, e) : [[s, e]];
+    runs.forEach(([a, b], k) => legs.push({
+      startIndex: a,
+      endIndex: b,
+      startMs: timesMs[a],
+      endMs: timesMs[b],
+      mode: legMode(segSpeedsMps.slice(a, b)),
+      after: k ? 'mode' : why,
+    }));
+  }
+  return legs;
+}
+
+export function travelMode(mps: number): TravelMode {
+  if (mps < STILL_MPS) return 'still';
+  if (mps < WALK_MPS) return 'walk';
+  if (mps < CYCLE_MPS) return 'cycle';
+  return 'drive';
+}
+
+function legMode(speeds: number[]): TravelMode {
+  const moving = speeds.filter(v => v >= STILL_MPS);
+  return moving.length ? travelMode(median(moving)) : 'still';
+}
+
+/** Point ranges within s..e that each keep one travel mode for at least MIN_MODE_S. */
+function modeRuns(timesMs: number[], speeds: number[], s: number, e: number): [number, number][] {
+  // Mode per segment from the median speed around it; still segments take their neighbours' mode
+  const mid = (i: number) => (timesMs[i] + timesMs[i + 1]) / 2;
+  const half = (MODE_WINDOW_S * 1000) / 2;
+  const modes: TravelMode[] = [];
+  let lo = s;
+  let hi = s;
+  for (let i = s; i < e; i++) {
+    while (mid(lo) < mid(i) - half) lo++;
+    hi = Math.max(hi, i);
+    while (hi + 1 < e && mid(hi + 1) <= mid(i) + half) hi++;
+    modes.push(travelMode(median(speeds.slice(lo, hi + 1))));
+  }
+  for (let k = 1; k < modes.length; k++) if (modes[k] === 'still') modes[k] = modes[k - 1];
+  for (let k = modes.length - 2; k >= 0; k--) if (modes[k] === 'still') modes[k] = modes[k + 1];
+
+  // Runs of segments [a, b] in one mode; short runs are absorbed by their longer neighbour
+  const runs: { a: number; b: number; mode: TravelMode }[] = [];
+  modes.forEach((mode, k) => {
+    const last = runs[runs.length - 1];
+    if (last?.mode === mode) last.b = s + k;
+    else runs.push({ a: s + k, b: s + k, mode });
+  });
+  const duration = (r: { a: number; b: number }) => (timesMs[r.b + 1] - timesMs[r.a]) / 1000;
+  for (;;) {
+    const short = runs.filter(r => duration(r) < MIN_MODE_S);
+    if (runs.length < 2 || !short.length) break;
+    const k = runs.indexOf(short.reduce((x, y) => (duration(y) < duration(x) ? y : x)));
+    const prev = runs[k - 1];
+    const next = runs[k + 1];
+    const into = !next || (prev && duration(prev) >= duration(next)) ? prev : next;
+    into.a = Math.min(into.a, runs[k].a);
+    into.b = Math.max(into.b, runs[k].b);
+    runs.splice(k, 1);
+    // The neighbours may now be in the same mode
+    for (let j = runs.length - 1; j > 0; j--) {
+      if (runs[j].mode === runs[j - 1].mode) {
+        runs[j - 1].b = runs[j].b;
+        runs.splice(j, 1);
+      }
+    }
+  }
+  return runs.map(r => [r.a, r.b + 1]);
+}
+
+function median(values: number[]): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const m = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[m] : (sorted[m - 1] + sorted[m]) / 2;
+}
@@ -0,0 +1,58 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import type { ParsedRoute } from './importers';
+import { deleteEntry, getTrack, listEntries, saveRoute, updateEntry, updateTrack } from './library';
+
+const T0 = Date.parse('2024-07-01T12:00:00Z');
+
+function route(label: string, n = 100): ParsedRoute {
+  const points = Array.from({ length: n }, (_, i) => ({ lat: 29.5 + i * 1e-4, lon: -95 + (i % 2) * 1e-4 }));
+  return { format: 'gpx', points, meta: { label }, timesMs: points.map((_, i) => T0 + i * 1000), timeSource: 'per-point' };
+}
+
+describe('route library', () => {
+  it('saves a route with its summary and track', async () => {
+    const parsed = route('Morning');
+    const id = await saveRoute(parsed, 'morning.gpx', { distanceM: 1100, durationS: 99 });
+    const [entry] = await listEntries();
+    expect(entry).toMatchObject({ id, label: 'Morning', source: 'morning.gpx', tags: [], startMs: T0, distanceM: 1100, pointCount: 100 });
+    expect(entry.bbox).toEqual([29.5, -95, parsed.points[99].lat, -95 + 1e-4]);
+    expect(entry.thumb).toHaveLength(48);
+    expect(entry.thumb[47]).toEqual([parsed.points[99].lat, parsed.points[99].lon]);
+    expect(await getTrack(id)).toEqual(parsed);
+    await deleteEntry(id);
+  });
+
+  it('finds the entry again when the same file is imported twice', async () => {
+    const first = await saveRoute(route('Twice'), 'twice.gpx', { distanceM: 1, durationS: 1 });
+    const second = await saveRoute(route('Twice'), 'twice.gpx', { distanceM: 1, durationS: 1 });
+    expect(second).toBe(first);
+    expect(await listEntries()).toHaveLength(1);
+    await deleteEntry(first);
+  });
+
+  it('lists the most recently opened first, and renames, tags and deletes', async () => {
+    const a = await saveRoute(route('A', 3), 'a.gpx', { distanceM: 1, durationS: 1 });
+    const b = await saveRoute(route('B', 4), 'b.gpx', { distanceM: 1, durationS: 1 });
+    await updateEntry(a, { openedMs: Date.now() + 1000, label: 'Renamed', tags: ['commute'] });
+    expect((await listEntries()).map(e => [e.id, e.label, e.tags])).toEqual([[a, 'Renamed', ['commute']], [b, 'B', []]]);
+    await deleteEntry(a);
+    await deleteEntry(b);
+    expect(await listEntries()).toEqual([]);
+    expect(await getTrack(a)).toBeUndefined();
+  });
+
+  it('replaces the track and its summary after an edit', async () => {
+    const id = await saveRoute(route('Long'), 'long.gpx', { distanceM: 1100, durationS: 99 });
+    await updateEntry(id, { tags: ['kept'] });
+    const trimmed = { ...route('Long'), points: route('Long').points.slice(10, 20), timesMs: route('Long').timesMs.slice(10, 20) };
+    await updateTrack(id, trimmed, 'Long (1)', { distanceM: 100, durationS: 9 });
+    const [entry] = await listEntries();
+    expect(entry).toMatchObject({ id, label: 'Long (1)', tags: ['kept'], startMs: T0 + 10000, distanceM: 100, durationS: 9, pointCount: 10 });
+    expect(entry.thumb).toHaveLength(10);
+    expect(await getTrack(id)).toEqual(trimmed);
+    // The edited route is its own data now: importing the original file again adds it anew
+    expect(await saveRoute(route('Long'), 'long.gpx', { distanceM: 1100, durationS: 99 })).not.toBe(id);
+    for (const e of await listEntries()) await deleteEntry(e.id);
+  });
+});
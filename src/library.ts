@@ -0,0 +1,215 @@
+import type { ParsedRoute } from './importers';
+
+// Local route library in IndexedDB. Summaries (what the sidebar lists) and the parsed
+// tracks live in separate stores so listing never loads every point. The offline basemap
+// package is kept here too, so it survives a reload. Nothing leaves the browser.
+
+export interface LibraryEntry {
+  id: string;
+  fingerprint: string; // same file + same points = same entry
+  label: string;
+  source: string; // file name it was imported from
+  tags: string[];
+  savedMs: number;
+  openedMs: number;
+  startMs?: number;
+  distanceM: number;
+  durationS: number;
+  pointCount: number;
+  bbox: [number, number, number, number]; // minLat, minLon, maxLat, maxLon
+  thumb: [number, number][]; // up to THUMB_POINTS [lat, lon] for the sidebar sketch
+}
+
+type TrackRecord = { id: string; parsed: ParsedRoute };
+
+const DB_NAME = 'geointerp';
+const DB_VERSION = 2;
+const ENTRIES = 'routes';
+const TRACKS = 'tracks';
+const PACKAGES = 'packages'; // added in version 2
+const BASEMAP_PACKAGE = 'basemap';
+const THUMB_POINTS = 48;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(ENTRIES)) db.createObjectStore(ENTRIES, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(TRACKS)) db.createObjectStore(TRACKS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(PACKAGES)) db.createObjectStore(PACKAGES);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Let a later call retry after a failure (e.g. storage blocked, then allowed)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+function done<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function committed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** Most recently opened first. */
+export async function listEntries(): Promise<LibraryEntry[]> {
+  const db = await openDb();
+  const entries = await done(db.transaction(ENTRIES).objectStore(ENTRIES).getAll()) as LibraryEntry[];
+  return entries.sort((a, b) => b.openedMs - a.openedMs);
+}
+
+export async function getTrack(id: string): Promise<ParsedRoute | undefined> {
+  const db = await openDb();
+  const rec = await done(db.transaction(TRACKS).objectStore(TRACKS).get(id)) as TrackRecord | undefined;
+  return rec?.parsed;
+}
+
+/**
+ * Saves an imported route, or refreshes the existing entry for the same data, and
+ * returns the entry id.
+ */
+export async function saveRoute(parsed: ParsedRoute, source: string, stats: { distanceM: number; durationS: number }): Promise<string> {
+  const fingerprint = routeFingerprint(parsed, source);
+  const existing = (await listEntries()).find(e => e.fingerprint === fingerprint);
+  const now = Date.now();
+  const entry: LibraryEntry = existing
+    ? { ...existing, openedMs: now }
+    : {
+        id: newId(),
+        fingerprint,
+        label: parsed.meta.label || source,
+        source,
+        tags: [],
+        savedMs: now,
+        openedMs: now,
+        startMs: parsed.timesMs[0],
+        distanceM: stats.distanceM,
+        durationS: stats.durationS,
+        pointCount: parsed.points.length,
+        bbox: boundingBox(parsed),
+        thumb: thumbnail(parsed),
+      };
+  const db = await openDb();
+  const tx = db.transaction([ENTRIES, TRACKS], 'readwrite');
+  tx.objectStore(ENTRIES).put(entry);
+  if (!existing) {
+    const track: TrackRecord = { id: entry.id, parsed };
+    tx.objectStore(TRACKS).put(track);
+  }
+  await committed(tx);
+  return entry.id;
+}
+
+/** Replaces a saved route's track after an edit (trim, split), with the summary redone to match. */
+export async function updateTrack(id: string, parsed: ParsedRoute, label: string, stats: { distanceM: number; durationS: number }): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([ENTRIES, TRACKS], 'readwrite');
+  const store = tx.objectStore(ENTRIES);
+  const entry = await done(store.get(id)) as LibraryEntry | undefined;
+  if (entry) {
+    store.put({
+      ...entry,
+      fingerprint: routeFingerprint(parsed, entry.source),
+      label,
+      startMs: parsed.timesMs[0],
+      distanceM: stats.distanceM,
+      durationS: stats.durationS,
+      pointCount: parsed.points.length,
+      bbox: boundingBox(parsed),
+      thumb: thumbnail(parsed),
+    });
+    const track: TrackRecord = { id, parsed };
+    tx.objectStore(TRACKS).put(track);
+  }
+  await committed(tx);
+}
+
+export async function updateEntry(id: string, patch: Partial<Pick<LibraryEntry, 'label' | 'tags' | 'openedMs'>>): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(ENTRIES, 'readwrite');
+  const store = tx.objectStore(ENTRIES);
+  const entry = await done(store.get(id)) as LibraryEntry | undefined;
+  if (entry) store.put({ ...entry, ...patch });
+  await committed(tx);
+}
+
+export async function deleteEntry(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([ENTRIES, TRACKS], 'readwrite');
+  tx.objectStore(ENTRIES).delete(id);
+  tx.objectStore(TRACKS).delete(id);
+  await committed(tx);
+}
+
+/** Stores the offline tile package (the file's bytes, not a reference), replacing any previous one. */
+export async function saveTilePackage(file: Blob): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(PACKAGES, 'readwrite');
+  tx.objectStore(PACKAGES).put(file, BASEMAP_PACKAGE);
+  await committed(tx);
+}
+
+export async function getTilePackage(): Promise<Blob | undefined> {
+  const db = await openDb();
+  return await done(db.transaction(PACKAGES).objectStore(PACKAGES).get(BASEMAP_PACKAGE)) as Blob | undefined;
+}
+
+export async function deleteTilePackage(): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(PACKAGES, 'readwrite');
+  tx.objectStore(PACKAGES).delete(BASEMAP_PACKAGE);
+  await committed(tx);
+}
+
+function routeFingerprint(parsed: ParsedRoute, source: string): string {
+  const first = parsed.points[0];
+  const last = parsed.points[parsed.points.length - 1];
+  return [source, parsed.format, parsed.meta.label ?? '', parsed.points.length, parsed.timesMs[0] ?? '',
+    first.lat.toFixed(6), first.lon.toFixed(6), last.lat.toFixed(6), last.lon.toFixed(6)].join('|');
+}
+
+function boundingBox(parsed: ParsedRoute): LibraryEntry['bbox'] {
+  const box: LibraryEntry['bbox'] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const p of parsed.points) {
+    box[0] = Math.min(box[0], p.lat);
+    box[1] = Math.min(box[1], p.lon);
+    box[2] = Math.max(box[2], p.lat);
+    box[3] = Math.max(box[3], p.lon);
+  }
+  return box;
+}
+
+function thumbnail(parsed: ParsedRoute): [number, number][] {
+  // Evenly spaced by index; plenty for a sketch a few dozen pixels wide
+  const n = parsed.points.length;
+  const count = Math.min(n, THUMB_POINTS);
+  const out: [number, number][] = [];
+  for (let k = 0; k < count; k++) {
+    const p = parsed.points[count > 1 ? Math.round((k * (n - 1)) / (count - 1)) : 0];
+    out.push([p.lat, p.lon]);
+  }
+  return out;
+}
+
+function newId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { ImportError } from './importers';
+import { DEFAULT_SPEED_LIMIT, detectViolations, limitLevel, parseLimitSections, parseMaxspeed, segmentLimits } from './limits';
+
+const T0 = Date.parse('2024-07-01T12:00:00Z');
+const M = 1 / 111195; // degrees of latitude per meter
+
+describe('parseMaxspeed', () => {
+  it('reads OpenStreetMap maxspeed values in m/s', () => {
+    expect(parseMaxspeed('50')).toBeCloseTo(13.889, 3);
+    expect(parseMaxspeed(50)).toBeCloseTo(13.889, 3);
+    expect(parseMaxspeed('30 mph')).toBeCloseTo(13.411, 3);
+    expect(parseMaxspeed('10 knots')).toBeCloseTo(5.144, 3);
+    expect(parseMaxspeed('none')).toBeUndefined();
+    expect(parseMaxspeed('0')).toBeUndefined();
+  });
+});
+
+describe('parseLimitSections', () => {
+  it('takes every line with a usable maxspeed', () => {
+    const collection = {
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', properties: { maxspeed: '30 mph', name: 'Main St' }, geometry: { type: 'LineString', coordinates: [[-95, 29.5], [-95, 29.6]] } },
+        { type: 'Feature', properties: { maxspeed: 'signals' }, geometry: { type: 'LineString', coordinates: [[-94, 29.5], [-94, 29.6]] } },
+        { type: 'Feature', properties: { maxspeed: 80, ref: 'A1' }, geometry: { type: 'MultiLineString', coordinates: [[[-93, 29], [-93, 29.1]], [[-92, 29]]] } },
+      ],
+    };
+    const sections = parseLimitSections(JSON.stringify(collection));
+    expect(sections.map(s => s.name)).toEqual(['Main St', 'A1']);
+    expect(sections[0].coords).toEqual([{ lat: 29.5, lon: -95 }, { lat: 29.6, lon: -95 }]);
+  });
+
+  it('rejects files without any', () => {
+    expect(() => parseLimitSections('{"type":"FeatureCollection","features":[]}')).toThrow(ImportError);
+  });
+});
+
+describe('segmentLimits', () => {
+  // Ten 100 m segments due north
+  const points = Array.from({ length: 11 }, (_, i) => ({ lat: 29.5 + i * 100 * M, lon: -95 }));
+  const opts = { ...DEFAULT_SPEED_LIMIT, enabled: true, limitMps: 20 };
+  const lonPerM = M / Math.cos((29.5 * Math.PI) / 180);
+
+  it('uses a road section running alongside, else the default', () => {
+    // 10 m to the east, over the first half of the track
+    const road = { coords: [{ lat: 29.5, lon: -95 + 10 * lonPerM }, { lat: 29.5 + 500 * M, lon: -95 + 10 * lonPerM }], limitMps: 10 };
+    expect(segmentLimits(points, [road], opts)).toEqual([10, 10, 10, 10, 10, 20, 20, 20, 20, 20]);
+  });
+
+  it('ignores sections beyond the match radius', () => {
+    const road = { coords: [{ lat: 29.5, lon: -95 + 50 * lonPerM }, { lat: 29.5 + 1000 * M, lon: -95 + 50 * lonPerM }], limitMps: 10 };
+    expect(segmentLimits(points, [road], opts).every(l => l === 20)).toBe(true);
+    expect(segmentLimits(points, [], { ...opts, limitMps: null }).every(l => isNaN(l))).toBe(true);
+  });
+});
+
+describe('detectViolations', () => {
+  it('groups consecutive violating segments under the same limit', () => {
+    const speeds = [10, 25, 30, 21, 25, 25, 10];
+    const limits = [20, 20, 20, 20, 20, 15, 20];
+    const timesMs = speeds.concat(0).map((_, i) => T0 + i * 10000);
+    let d = 0;
+    const cum = [0, ...speeds.map(v => (d += v * 10))];
+    const violations = detectViolations(timesMs, cum, speeds, limits, 10);
+    // 21 is within the 10% tolerance, so it only warns
+    expect(limitLevel(21, 20, 10)).toBe('warning');
+    expect(violations.map(v => [v.startIndex, v.endIndex, v.limitMps, v.peakMps])).toEqual([
+      [1, 3, 20, 30],
+      [4, 5, 20, 25],
+      [5, 6, 15, 25],
+    ]);
+    expect(violations[0]).toMatchObject({ durationS: 20, distanceM: 550, avgMps: 27.5 });
+  });
+});
@@ -0,0 +1,170 @@
+import type { LatLngTime } from './utils';
+import { localProjection, pointSegmentDistance } from './utils';
+import { ImportError } from './importers';
+
+export interface SpeedLimitOptions {
+  enabled: boolean;
+  limitMps: number | null; // applies where no road section matches; null = only sections
+  tolerancePct: number; // speeds up to limit * (1 + tolerance) are a warning, not a violation
+  matchRadiusM: number; // how close a segment must run to a road section to take its limit
+}
+
+export const DEFAULT_SPEED_LIMIT: SpeedLimitOptions = {
+  enabled: false,
+  limitMps: 20.1168, // 45 mph
+  tolerancePct: 10,
+  matchRadiusM: 20,
+};
+
+export interface LimitSection {
+  coords: { lat: number; lon: number }[];
+  limitMps: number;
+  name?: string;
+}
+
+export type LimitLevel = 'ok' | 'warning' | 'violation';
+
+export interface Violation {
+  startIndex: number; // first point of the first offending segment
+  endIndex: number; // last point of the last offending segment
+  startMs: number;
+  endMs: number;
+  durationS: number;
+  distanceM: number;
+  peakMps: number;
+  avgMps: number; // distance / duration
+  limitMps: number;
+}
+
+/**
+ * Reads road sections from a GeoJSON FeatureCollection of LineStrings/MultiLineStrings
+ * with properties.maxspeed ("50", "50 km/h", "30 mph", "10 knots" or a number in km/h,
+ * following OpenStreetMap conventions).
+ */
+export function parseLimitSections(text: string): LimitSection[] {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    throw new ImportError('json', `invalid JSON (${(e as Error).message})`);
+  }
+  const features: any[] = json?.type === 'FeatureCollection' ? json.features ?? [] : json?.type === 'Feature' ? [json] : [];
+  const sections: LimitSection[] = [];
+  for (const f of features) {
+    const limitMps = parseMaxspeed(f?.properties?.maxspeed);
+    const geom = f?.geometry;
+    if (limitMps == null || !geom) continue;
+    const lines: any[] = geom.type === 'LineString' ? [geom.coordinates] : geom.type === 'MultiLineString' ? geom.coordinates : [];
+    for (const line of lines) {
+      if (!Array.isArray(line) || line.length < 2) continue;
+      sections.push({
+        coords: line.map((c: any) => ({ lat: Number(c[1]), lon: Number(c[0]) })),
+        limitMps,
+        name: f.properties.name ?? f.properties.ref,
+      });
+    }
+  }
+  if (!sections.length) {
+    throw new ImportError('json', 'no LineString features with a usable properties.maxspeed found');
+  }
+  return sections;
+}
+
+export function parseMaxspeed(v: unknown): number | undefined {
+  if (typeof v === 'number') return v > 0 ? v / 3.6 : undefined;
+  if (typeof v !== 'string') return undefined;
+  const m = v.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(km\/h|kmh|kph|mph|knots|kn)?$/);
+  if (!m) return undefined; // "none", "signals", "walk", …
+  const n = parseFloat(m[1]);
+  if (!(n > 0)) return undefined;
+  switch (m[2]) {
+    case 'mph': return n * 0.44704;
+    case 'knots':
+    case 'kn': return n * 0.514444;
+    default: return n / 3.6;
+  }
+}
+
+/** The limit for each segment (points.length - 1): a matching road section's, else the default, else NaN. */
+export function segmentLimits(points: LatLngTime[], sections: LimitSection[], opts: SpeedLimitOptions): number[] {
+  const fallback = opts.limitMps ?? NaN;
+  const n = Math.max(0, points.length - 1);
+  if (!sections.length) return new Array(n).fill(fallback);
+
+  // Meters around the track; bounding boxes skip far sections cheaply
+  const project = localProjection(points);
+  const r = opts.matchRadiusM;
+  const projected = sections.map(s => {
+    const xy = s.coords.map(project);
+    let minX = Infinity;
+    let maxX = -Infinity;
+    let minY = Infinity;
+    let maxY = -Infinity;
+    for (const [x, y] of xy) {
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
+    return { xy, limitMps: s.limitMps, minX: minX - r, maxX: maxX + r, minY: minY - r, maxY: maxY + r };
+  });
+
+  const limits: number[] = new Array(n);
+  for (let i = 0; i < n; i++) {
+    const mid = project({ lat: (points[i].lat + points[i + 1].lat) / 2, lon: (points[i].lon + points[i + 1].lon) / 2 });
+    const [x, y] = mid;
+    let best = Infinity;
+    let limit = fallback;
+    for (const s of projected) {
+      if (x < s.minX || x > s.maxX || y < s.minY || y > s.maxY) continue;
+      for (let k = 0; k < s.xy.length - 1; k++) {
+        const d = pointSegmentDistance(mid, s.xy[k], s.xy[k + 1]);
+        if (d <= r && d < best) { best = d; limit = s.limitMps; }
+      }
+    }
+    limits[i] = limit;
+  }
+  return limits;
+}
+
+export function limitLevel(speedMps: number, limitMps: number, tolerancePct: number): LimitLevel {
+  if (!isFinite(limitMps) || speedMps <= limitMps) return 'ok';
+  return speedMps > limitMps * (1 + tolerancePct / 100) ? 'violation' : 'warning';
+}
+
+/** Runs of consecutive violating segments under the same limit. */
+export function detectViolations(
+  timesMs: number[],
+  cumDistM: number[],
+  segSpeedsMps: number[],
+  limits: number[],
+  tolerancePct: number,
+): Violation[] {
+  const out: Violation[] = [];
+  let i = 0;
+  while (i < segSpeedsMps.length) {
+    if (limitLevel(segSpeedsMps[i], limits[i], tolerancePct) !== 'violation') { i++; continue; }
+    let j = i;
+    let peakMps = segSpeedsMps[i];
+    while (j + 1 < segSpeedsMps.length && limits[j + 1] === limits[i]
+      && limitLevel(segSpeedsMps[j + 1], limits[j + 1], tolerancePct) === 'violation') {
+      j++;
+      peakMps = Math.max(peakMps, segSpeedsMps[j]);
+    }
+    const durationS = (timesMs[j + 1] - timesMs[i]) / 1000;
+    const distanceM = cumDistM[j + 1] - cumDistM[i];
+    out.push({
+      startIndex: i,
+      endIndex: j + 1,
+      startMs: timesMs[i],
+      endMs: timesMs[j + 1],
+      durationS,
+      distanceM,
+      peakMps,
+      avgMps: durationS > 0 ? distanceM / durationS : peakMps,
+      limitMps: limits[i],
+    });
+    i = j + 1;
+  }
+  return out;
+}
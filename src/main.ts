@@ -1,24 +1,76 @@
 import 'leaflet/dist/leaflet.css';
 import './style.css';
 import L from 'leaflet';
-import type { LatLngTime, UnitSystem } from './utils';
+import type { InterpolationMethod, LatLngTime, ResampleOptions, TimeReconstruction, UnitSystem } from './utils';
 import {
+  MAX_RESAMPLED_POINTS,
   average,
   bearingDegrees,
-  computeSegmentSpeedsMps,
-  cumulativeDistancesMeters,
-  decodePolyline,
-  distributeEvenTimes,
-  effectiveSamplingIntervalSec,
+  encodePolyline,
+  escapeXml,
   formatDuration,
   formatDistance,
+  formatElevation,
   formatTimeMs,
   haversineMeters,
-  isoUtc,
   mpsToSpeedText,
-  parseMaybeTime,
-  speedColor,
+  positionAtTime,
+  resampleSampleCount,
 } from './utils';
+import type { ParsedRoute, TimeSource } from './importers';
+import { ACCEPTED_EXTENSIONS, ImportError, parseRouteFile } from './importers';
+import type { ProcessOptions, ProcessedRoute, RouteLeg } from './core';
+import {
+  baseSeries,
+  comparisonCSV,
+  legRoute,
+  processRoute,
+  routeCSV,
+  routeGeoJSON,
+  routeGPX,
+  routeKML,
+  routeLegs,
+  routePolylineJSON,
+  routeStops,
+  routeViolations,
+  routeZoneVisits,
+  splitParsed,
+  trimParsed,
+  violationsCSV,
+  zoneVisitsCSV,
+} from './core';
+import type { CleaningOptions, Smoother } from './cleaning';
+import { DEFAULT_CLEANING } from './cleaning';
+import type { SimplifyMethod, SimplifyOptions, SimplifyReport } from './simplify';
+import { simplifyIndices, simplifyReport } from './simplify';
+import type { Stop, StopOptions } from './stops';
+import { DEFAULT_STOP_OPTIONS } from './stops';
+import type { Chart, ChartData, ChartSeries } from './chart';
+import { createChart } from './chart';
+import type { BasemapKind, BasemapSource } from './basemaps';
+import { basemapProblem, graticuleLabel, graticuleStep, graticuleValues, MBTILES_BASEMAP, NO_BASEMAP, OSM_BASEMAP } from './basemaps';
+import type { LibraryEntry } from './library';
+import { deleteEntry, deleteTilePackage, getTilePackage, getTrack, listEntries, saveRoute, saveTilePackage, updateEntry, updateTrack } from './library';
+import type { LimitSection, SpeedLimitOptions } from './limits';
+import type { MBTiles } from './mbtiles';
+import { MBTilesError, openMBTiles } from './mbtiles';
+import type { ShareState } from './share';
+import { formatShareHash, MAX_SHARE_POLYLINE, parseShareHash, shareRouteJson } from './share';
+import { DEFAULT_SPEED_LIMIT, limitLevel, parseLimitSections } from './limits';
+import type { ColorMode, ColorScale } from './colorby';
+import { COLOR_MODE_NAMES, colorScale, hasElevation, LEG_COLORS, metricColor, segmentMetric } from './colorby';
+import type { LegOptions } from './legs';
+import { DEFAULT_LEG_OPTIONS, TRAVEL_MODE_NAMES } from './legs';
+import { segmentGradesPct } from './elevation';
+import type { Comparison, CompareOptions } from './compare';
+import { compareRoutes, DEFAULT_COMPARE_OPTIONS } from './compare';
+import type { HeatWeight } from './heatmap';
+import { HEAT_RAMP, HEAT_WEIGHT_NAMES, pointWeights } from './heatmap';
+import type { TrackCanvas } from './trackcanvas';
+import { createTrackCanvas } from './trackcanvas';
+import type { Zone } from './geofences';
+import { parseZones, zonesGeoJSON } from './geofences';
+import { browserTimeZone, inferTimeZone, isValidTimeZone, listTimeZones, offsetText, timeZoneAbbr, timeZoneOffsetMinutes } from './timezones';
 
 // Fix default icon assets for Vite bundling
 // @ts-expect-error - vite will transform these imports to URLs
@@ -33,49 +85,202 @@ L.Icon.Default.mergeOptions({
   shadowUrl: markerShadow,
 });
 
-type AnyGeo = any;
+type RouteLayers = {
+  group: L.LayerGroup;
+  raw: L.LayerGroup; // before/after cleaning overlay
+  segments: L.LayerGroup;
+  points: L.LayerGroup;
+  arrows: L.LayerGroup;
+  markers: L.LayerGroup;
+  stops: L.LayerGroup;
+  limits: L.LayerGroup; // speed-limit warnings/violations under the segments
+  deviations: L.LayerGroup; // off-route sections against the reference
+};
+
+type Route = ProcessedRoute & {
+  id: number;
+  source: string; // file the route was loaded from
+  color: string; // identifies the route in the summary and on point markers
+  visible: boolean;
+  parsed: ParsedRoute; // as imported; the series below are derived from it
+  timeModel: TimeReconstruction; // used only when the input carries no usable times
+  cleaning: CleaningOptions;
+  showRaw: boolean;
+  simplify: SimplifyOptions | null;
+  resample: ResampleOptions | null;
+  startZone: string; // inferred from the first imported point
+  libraryId?: string; // entry in the local route library, once saved
+  layers?: RouteLayers;
+  comparison?: CachedComparison;
+};
+
+/** A comparison with the reference and the series it came from (compared by identity: processing makes new arrays). */
+type CachedComparison = {
+  cumDistM: number[];
+  referenceCumDistM: number[];
+  maxDeviationM: number;
+  result: Comparison;
+};
+
+type ChartAxis = 'time' | 'distance';
+type ChartMetric = 'speed' | 'elevation';
 
-type RouteMeta = {
-  label?: string;
-  direction?: string;
-  startMs?: number;
-  endMs?: number;
+/** Point range of the active route, picked for trimming or a range-only export. */
+type RangeSelection = {
+  routeId: number;
+  start: number;
+  end: number;
+  open: boolean; // only the start is picked so far; the next picked point sets the end
+};
+
+/** A reversible change to the session's routes, for undo/redo. */
+type Edit = {
+  label: string;
+  routes: Route[]; // routes it touches; removing one of them drops the edit
+  undo: () => void;
+  redo: () => void;
+};
+
+type Playback = {
+  routeId: number | null;
+  tMs: number; // absolute time of the vehicle marker
+  playing: boolean;
+  multiplier: number; // route seconds per wall-clock second
+  follow: boolean;
+  frame?: number; // requestAnimationFrame handle
+  lastFrameMs?: number;
+  marker?: L.Marker;
 };
 
 type AppState = {
   unitSystem: UnitSystem;
-  points: LatLngTime[];
-  timesMs: number[];
-  cumDistM: number[];
-  segSpeedsMps: number[];
-  stats: {
-    totalDistM: number;
-    durationS: number;
-    avgMps: number;
-    maxMps: number;
-    samplingS: number;
-  } | null;
-  meta: RouteMeta;
+  timeZone: string; // IANA zone for displayed and exported local times
+  timeZoneFromRoute: boolean; // use each route's inferred start zone instead
+  colorMode: ColorMode;
+  colorClipPct: number; // percentile clipped off each end of the color scale
+  heatmap: HeatWeight | null; // a density heatmap instead of the tracks
+  libraryOpen: boolean;
+  basemap: string; // OSM_BASEMAP.id, a custom source id, MBTILES_BASEMAP or NO_BASEMAP
+  customBasemaps: BasemapSource[];
+  tilePackage?: MBTiles; // opened offline package, when there is one
+  routes: Route[];
+  activeId: number | null;
+  selectedIndex: number | null; // clicked point of the active route, carried in share links
+  selection: RangeSelection | null;
+  pickingRange: boolean; // clicks on points set the range ends
+  exportRange: boolean; // exports cover only the selected range
+  undo: Edit[];
+  redo: Edit[];
+  nextId: number;
+  chartAxis: ChartAxis;
+  chartMetric: ChartMetric;
+  stopOptions: StopOptions;
+  speedLimit: SpeedLimitOptions;
+  limitSections: LimitSection[]; // road sections with their own maxspeed
+  slopeDistance: boolean; // distances follow the slope where routes carry elevation
+  legOptions: LegOptions;
+  zones: Zone[]; // geofences, drawn or loaded
+  drawingZone: L.LatLng[] | null; // corners of the zone being drawn
+  referenceId: number | null; // route the others are compared against
+  compareOptions: CompareOptions;
+  playback: Playback;
   map?: L.Map;
+  chart?: Chart;
+  trackCanvas?: TrackCanvas;
   layers?: {
-    segments: L.LayerGroup;
-    points: L.LayerGroup;
-    arrows: L.LayerGroup;
-    markers: L.LayerGroup;
     legend?: L.Control;
+    highlight?: L.CircleMarker;
+    selection?: L.LayerGroup;
+    sections?: L.LayerGroup;
+    zones?: L.LayerGroup;
+    basemap?: L.Layer;
+    graticule?: L.LayerGroup;
+    scale?: L.Control.Scale;
   };
 };
 
+/** Settings remembered between sessions in localStorage; the routes themselves live in the IndexedDB library. */
+type Prefs = {
+  unitSystem: UnitSystem;
+  timeZone: string;
+  timeZoneFromRoute: boolean;
+  colorMode: ColorMode;
+  colorClipPct: number;
+  heatmap: HeatWeight | null;
+  chartAxis: ChartAxis;
+  chartMetric: ChartMetric;
+  stopOptions: StopOptions;
+  speedLimit: SpeedLimitOptions;
+  slopeDistance: boolean;
+  legOptions: LegOptions;
+  zones: Zone[];
+  compareOptions: CompareOptions;
+  playbackMultiplier: number;
+  playbackFollow: boolean;
+  libraryOpen: boolean;
+  basemap: string;
+  customBasemaps: BasemapSource[];
+  openRouteIds: string[]; // library entries open at the end of the last session
+};
+
+const PREFS_KEY = 'geointerp.prefs';
+
+const prefs = loadPrefs();
+
 const state: AppState = {
-  unitSystem: 'imperial',
-  points: [],
-  timesMs: [],
-  cumDistM: [],
-  segSpeedsMps: [],
-  stats: null,
-  meta: {},
+  unitSystem: prefs.unitSystem,
+  timeZone: prefs.timeZone,
+  timeZoneFromRoute: prefs.timeZoneFromRoute,
+  colorMode: prefs.colorMode,
+  colorClipPct: prefs.colorClipPct,
+  heatmap: prefs.heatmap,
+  libraryOpen: prefs.libraryOpen,
+  basemap: prefs.basemap,
+  customBasemaps: prefs.customBasemaps,
+  routes: [],
+  activeId: null,
+  selectedIndex: null,
+  selection: null,
+  pickingRange: false,
+  exportRange: false,
+  undo: [],
+  redo: [],
+  nextId: 1,
+  chartAxis: prefs.chartAxis,
+  chartMetric: prefs.chartMetric,
+  stopOptions: prefs.stopOptions,
+  speedLimit: prefs.speedLimit,
+  limitSections: [],
+  slopeDistance: prefs.slopeDistance,
+  legOptions: prefs.legOptions,
+  zones: prefs.zones,
+  drawingZone: null,
+  referenceId: null,
+  compareOptions: prefs.compareOptions,
+  playback: { routeId: null, tMs: 0, playing: false, multiplier: prefs.playbackMultiplier, follow: prefs.playbackFollow },
+};
+
+const PLAYBACK_MULTIPLIERS = [1, 10, 60];
+
+// Routes this long are drawn on the track canvas, without a Leaflet layer per segment and point
+const CANVAS_MIN_POINTS = 5000;
+const HOVER_PX = 8;
+
+const TIME_MODEL_NAMES: Record<TimeReconstruction, string> = {
+  index: 'even by index',
+  distance: 'constant speed',
+  hints: 'sample-rate hints',
+};
+
+const TIME_SOURCE_NAMES: Record<TimeSource, string> = {
+  measured: 'measured',
+  'per-point': 'per-point',
+  timestamps: 'timestamps array',
+  reconstructed: 'reconstructed',
 };
 
+const ROUTE_COLORS = ['#4da3ff', '#f39c12', '#9b59b6', '#1abc9c', '#e84393', '#fdcb6e', '#00cec9', '#e17055'];
+
 function buildLayout() {
   const app = document.getElementById('app')!;
   app.innerHTML = '';
@@ -86,15 +291,31 @@ function buildLayout() {
   const summary = document.createElement('div');
   summary.className = 'summary';
   summary.innerHTML = `
-    <div><span class="label">Route:</span> <span id="route_label" class="val">—</span></div>
-    <div><span class="label">Dir:</span> <span id="route_dir" class="val">—</span></div>
-    <div><span class="label">Start (UTC/CT):</span> <span id="start_times" class="val">—</span></div>
-    <div><span class="label">End (UTC/CT):</span> <span id="end_times" class="val">—</span></div>
-    <div><span class="label">Distance:</span> <span id="sum_dist" class="val">—</span></div>
-    <div><span class="label">Duration:</span> <span id="sum_dur" class="val">—</span></div>
-    <div><span class="label">Avg Speed:</span> <span id="avg_spd" class="val">—</span></div>
-    <div><span class="label">Max Speed:</span> <span id="max_spd" class="val">—</span></div>
-    <div><span class="label">Sampling:</span> <span id="samp_int" class="val">—</span></div>
+    <table>
+      <thead>
+        <tr>
+          <th></th>
+          <th>Route</th>
+          <th>Dir</th>
+          <th>Start (UTC / local)</th>
+          <th>End (UTC / local)</th>
+          <th>Distance</th>
+          <th>Duration</th>
+          <th>Moving</th>
+          <th>Stopped</th>
+          <th>Avg Speed</th>
+          <th>Moving Avg</th>
+          <th>Max Speed</th>
+          <th>Climb</th>
+          <th>Elevation</th>
+          <th>Sampling</th>
+          <th>Times</th>
+          <th>Removed</th>
+          <th></th>
+        </tr>
+      </thead>
+      <tbody id="summary_rows"></tbody>
+    </table>
   `;
 
   const controls = document.createElement('div');
@@ -102,18 +323,19 @@ function buildLayout() {
 
   const fileInput = document.createElement('input');
   fileInput.type = 'file';
-  fileInput.accept = '.json,.geojson,application/json';
+  fileInput.accept = [...ACCEPTED_EXTENSIONS, 'application/json'].join(',');
+  fileInput.multiple = true;
   fileInput.id = 'file_input';
   fileInput.className = 'hidden';
 
   const fileLabel = document.createElement('label');
   fileLabel.htmlFor = 'file_input';
   fileLabel.className = 'file-input-label';
-  fileLabel.textContent = 'Open JSON/GeoJSON…';
+  fileLabel.textContent = 'Open route files…';
 
   const dropzone = document.createElement('div');
   dropzone.className = 'dropzone';
-  dropzone.textContent = 'Drop a Feature JSON/GeoJSON here or use "Open"';
+  dropzone.textContent = 'Drop one or more JSON/GeoJSON, GPX, KML, TCX or CSV routes here or use "Open"';
   dropzone.title = 'All processing happens locally in your browser';
 
   const unitSelect = document.createElement('select');
@@ -121,8 +343,34 @@ function buildLayout() {
     <option value="imperial">mi / ft</option>
     <option value="metric">km / m</option>
   `;
+  unitSelect.id = 'unit_select';
   unitSelect.value = state.unitSystem;
 
+  const colorModeSelect = document.createElement('select');
+  colorModeSelect.id = 'color_mode';
+  colorModeSelect.title = 'Metric the route segments are colored by';
+  colorModeSelect.innerHTML = (Object.keys(COLOR_MODE_NAMES) as ColorMode[])
+    .map(m => `<option value="${m}">Color: ${COLOR_MODE_NAMES[m].toLowerCase()}</option>`).join('');
+  colorModeSelect.value = state.colorMode;
+
+  const colorClipSelect = document.createElement('select');
+  colorClipSelect.id = 'color_clip';
+  colorClipSelect.title = 'Clip the color scale to a percentile range so outliers do not wash out the colors';
+  colorClipSelect.innerHTML = `
+    <option value="0">Full range</option>
+    <option value="1">Clip 1–99%</option>
+    <option value="2">Clip 2–98%</option>
+    <option value="5">Clip 5–95%</option>
+  `;
+  colorClipSelect.value = String(state.colorClipPct);
+
+  const viewSelect = document.createElement('select');
+  viewSelect.id = 'map_view';
+  viewSelect.title = 'Draw the routes, or a heatmap of where they spend their points or their time';
+  viewSelect.innerHTML = '<option value="">View: tracks</option>' + (Object.keys(HEAT_WEIGHT_NAMES) as HeatWeight[])
+    .map(w => `<option value="${w}">View: heatmap by ${HEAT_WEIGHT_NAMES[w]}</option>`).join('');
+  viewSelect.value = state.heatmap ?? '';
+
   const exportCsvBtn = document.createElement('button');
   exportCsvBtn.textContent = 'Export CSV';
   exportCsvBtn.id = 'btn_csv';
@@ -133,20 +381,352 @@ function buildLayout() {
   exportGpxBtn.id = 'btn_gpx';
   exportGpxBtn.disabled = true;
 
-  controls.append(fileInput, fileLabel, exportCsvBtn, exportGpxBtn, unitSelect);
+  const exportGeoJsonBtn = document.createElement('button');
+  exportGeoJsonBtn.textContent = 'Export GeoJSON';
+  exportGeoJsonBtn.id = 'btn_geojson';
+  exportGeoJsonBtn.title = 'One LineString per segment with speed, distance, times and bearing';
+  exportGeoJsonBtn.disabled = true;
+
+  const exportKmlBtn = document.createElement('button');
+  exportKmlBtn.textContent = 'Export KML';
+  exportKmlBtn.id = 'btn_kml';
+  exportKmlBtn.title = 'Speed-colored segments for Google Earth or QGIS';
+  exportKmlBtn.disabled = true;
+
+  const timeModelSelect = document.createElement('select');
+  timeModelSelect.id = 'time_model';
+  timeModelSelect.title = 'How times are reconstructed when the active route only has start/end times';
+  timeModelSelect.innerHTML = (Object.keys(TIME_MODEL_NAMES) as TimeReconstruction[])
+    .map(m => `<option value="${m}">Times: ${TIME_MODEL_NAMES[m]}</option>`).join('');
+  timeModelSelect.disabled = true;
+
+  const resample = document.createElement('div');
+  resample.className = 'toggle';
+  resample.title = 'Resample the active route at a fixed time or distance step';
+  resample.innerHTML = `
+    <select id="resample_mode">
+      <option value="">Raw samples</option>
+      <option value="time">Every N s</option>
+      <option value="distance">Every N m</option>
+    </select>
+    <input id="resample_step" type="number" min="0" step="any" value="1" class="num-input" disabled />
+    <select id="resample_method" disabled>
+      <option value="linear">Linear</option>
+      <option value="spline">Spline</option>
+    </select>
+  `;
+
+  const cleaning = document.createElement('details');
+  cleaning.className = 'menu';
+  cleaning.innerHTML = `
+    <summary>Cleaning</summary>
+    <div class="menu-body">
+      <label><input type="checkbox" id="clean_enabled" /> Clean GPS noise on the active route</label>
+      <label><input type="checkbox" id="clean_dupes" /> Collapse duplicate / zero-dt points</label>
+      <label>Drop spikes faster than <input type="number" id="clean_maxspd" class="num-input" min="0" step="any" /> <span id="clean_maxspd_unit"></span></label>
+      <label>Smoother
+        <select id="clean_smoother">
+          <option value="none">None</option>
+          <option value="moving-average">Moving average</option>
+          <option value="kalman">Kalman</option>
+        </select>
+      </label>
+      <label>Window <input type="number" id="clean_window" class="num-input" min="1" step="2" /> points</label>
+      <label>GPS noise <input type="number" id="clean_noise" class="num-input" min="1" step="any" /> m</label>
+      <label><input type="checkbox" id="clean_overlay" /> Show before/after on the map</label>
+    </div>
+  `;
+
+  const stopsMenu = document.createElement('details');
+  stopsMenu.className = 'menu';
+  stopsMenu.innerHTML = `
+    <summary>Stops</summary>
+    <div class="menu-body">
+      <label>Median speed under <input type="number" id="stop_speed" class="num-input" min="0" step="any" /> <span id="stop_speed_unit"></span></label>
+      <label>Within a radius of <input type="number" id="stop_radius" class="num-input" min="1" step="any" /> m</label>
+      <label>For at least <input type="number" id="stop_duration" class="num-input" min="1" step="any" /> s</label>
+    </div>
+  `;
+
+  const legsMenu = document.createElement('details');
+  legsMenu.className = 'menu';
+  legsMenu.innerHTML = `
+    <summary>Legs</summary>
+    <div class="menu-body">
+      <label>Split at time gaps over <input type="number" id="legs_gap" class="num-input" min="1" step="any" /> min</label>
+      <label>Split at stops of at least <input type="number" id="legs_stop" class="num-input" min="1" step="any" /> min</label>
+      <label><input type="checkbox" id="legs_mode" /> Split where the travel mode changes (walk, cycle, drive; guessed from speed)</label>
+    </div>
+  `;
+
+  const limitMenu = document.createElement('details');
+  limitMenu.className = 'menu';
+  limitMenu.innerHTML = `
+    <summary>Speed limit</summary>
+    <div class="menu-body">
+      <label><input type="checkbox" id="limit_enabled" /> Highlight segments over the limit</label>
+      <label>Limit <input type="number" id="limit_speed" class="num-input" min="0" step="any" /> <span id="limit_speed_unit"></span></label>
+      <label>Tolerance <input type="number" id="limit_tolerance" class="num-input" min="0" step="any" /> %</label>
+      <label class="file-input-label" for="limit_file">Load road limits (GeoJSON maxspeed)…</label>
+      <input type="file" id="limit_file" class="hidden" accept=".json,.geojson,application/json" />
+      <label>Match roads within <input type="number" id="limit_radius" class="num-input" min="1" step="any" /> m</label>
+      <div><span id="limit_sections" class="muted"></span> <button id="limit_clear_sections" class="icon-btn" title="Forget road limits">✕</button></div>
+    </div>
+  `;
+
+  const zonesMenu = document.createElement('details');
+  zonesMenu.className = 'menu';
+  zonesMenu.innerHTML = `
+    <summary>Zones</summary>
+    <div class="menu-body">
+      <label class="file-input-label" for="zone_file">Add zones (GeoJSON polygons)…</label>
+      <input type="file" id="zone_file" class="hidden" accept=".json,.geojson,application/json" />
+      <div><button id="zone_draw">Draw zone</button> <button id="zone_save" title="Download the zones as GeoJSON">Save zones</button></div>
+      <div id="zone_hint" class="muted hidden">Click the map to add corners; double-click or Finish to close the zone, Esc to cancel.</div>
+      <div><span id="zone_count" class="muted"></span> <button id="zone_clear" class="icon-btn" title="Forget all zones">✕</button></div>
+    </div>
+  `;
+
+  const compareMenu = document.createElement('details');
+  compareMenu.className = 'menu';
+  compareMenu.innerHTML = `
+    <summary>Compare</summary>
+    <div class="menu-body">
+      <label>Reference <select id="compare_ref"></select></label>
+      <label class="file-input-label" for="compare_file">Load reference…</label>
+      <input type="file" id="compare_file" class="hidden" accept="${fileInput.accept}" />
+      <label>Off route beyond <input type="number" id="compare_max" class="num-input" min="1" step="any" /> m</label>
+      <div class="muted">Other routes are matched against the reference: off-route sections are outlined on the map and the chart adds the time delta.</div>
+    </div>
+  `;
+
+  const basemapMenu = document.createElement('details');
+  basemapMenu.className = 'menu';
+  basemapMenu.innerHTML = `
+    <summary>Basemap</summary>
+    <div class="menu-body">
+      <label>Show <select id="basemap_select"></select></label>
+      <div><span id="basemap_status" class="muted"></span> <button id="basemap_remove" class="icon-btn" title="Remove this source">✕</button></div>
+      <b>Add a tile source</b>
+      <select id="basemap_kind">
+        <option value="xyz">XYZ tiles</option>
+        <option value="wms">WMS</option>
+      </select>
+      <input type="text" id="basemap_name" class="text-input" placeholder="Name" />
+      <input type="text" id="basemap_url" class="text-input" placeholder="https://tiles.example.com/{z}/{x}/{y}.png" />
+      <input type="text" id="basemap_layers" class="text-input hidden" placeholder="WMS layers, e.g. topo,roads" />
+      <input type="text" id="basemap_attribution" class="text-input" placeholder="Attribution (optional)" />
+      <button id="basemap_add">Add and show</button>
+      <label class="file-input-label" for="basemap_file">Open offline package (MBTiles)…</label>
+      <input type="file" id="basemap_file" class="hidden" accept=".mbtiles" />
+    </div>
+  `;
+
+  const simplifyMenu = document.createElement('details');
+  simplifyMenu.className = 'menu';
+  simplifyMenu.innerHTML = `
+    <summary>Simplify</summary>
+    <div class="menu-body">
+      <label>Method
+        <select id="simplify_method">
+          <option value="">None</option>
+          <option value="douglas-peucker">Douglas-Peucker</option>
+          <option value="visvalingam">Visvalingam</option>
+        </select>
+      </label>
+      <label>Tolerance <input type="range" id="simplify_tol" min="0" max="100" step="0.5" value="5" /> <span id="simplify_tol_text"></span></label>
+      <div id="simplify_preview" class="muted"></div>
+    </div>
+  `;
+
+  const exportPolylineBtn = document.createElement('button');
+  exportPolylineBtn.textContent = 'Export Polyline';
+  exportPolylineBtn.id = 'btn_polyline';
+  exportPolylineBtn.title = 'Encoded polyline of the active route, as a GeoJSON Feature GeoInterp can re-open';
+  exportPolylineBtn.disabled = true;
+
+  const precisionSelect = document.createElement('select');
+  precisionSelect.id = 'polyline_precision';
+  precisionSelect.title = 'Encoded polyline precision';
+  precisionSelect.innerHTML = `
+    <option value="5">1e-5</option>
+    <option value="6">1e-6</option>
+  `;
+
+  const editMenu = document.createElement('details');
+  editMenu.className = 'menu';
+  editMenu.innerHTML = `
+    <summary>Edit</summary>
+    <div class="menu-body">
+      <label><input type="checkbox" id="edit_pick" /> Pick a range: click its first and last point</label>
+      <div><span id="edit_range" class="muted"></span> <button id="edit_range_clear" class="icon-btn" title="Clear the range">✕</button></div>
+      <button id="edit_trim">Trim to range</button>
+      <button id="edit_split" title="Split the active route at the clicked point">Split at selected point</button>
+      <label><input type="checkbox" id="edit_export_range" /> Exports cover the range only</label>
+      <div><button id="edit_undo">Undo</button> <button id="edit_redo">Redo</button></div>
+    </div>
+  `;
+
+  const timeZoneMenu = document.createElement('details');
+  timeZoneMenu.className = 'menu';
+  timeZoneMenu.innerHTML = `
+    <summary>Time zone</summary>
+    <div class="menu-body">
+      <label>Show local times in <select id="tz_select"></select></label>
+      <label><input type="checkbox" id="tz_from_route" /> Use the zone at each route's start instead</label>
+      <div id="tz_inferred" class="muted"></div>
+    </div>
+  `;
+
+  const libraryBtn = document.createElement('button');
+  libraryBtn.textContent = 'Library';
+  libraryBtn.id = 'btn_library';
+  libraryBtn.title = 'Routes saved in this browser';
+
+  const shareBtn = document.createElement('button');
+  shareBtn.textContent = 'Copy link';
+  shareBtn.title = 'Link that opens the active route with the same units, view and selected point';
+
+  const slopeToggle = document.createElement('label');
+  slopeToggle.className = 'toggle';
+  slopeToggle.title = 'Measure distance (and speed) along the slope where routes carry elevation, instead of over the ground';
+  slopeToggle.innerHTML = '<input type="checkbox" id="slope_distance" /> Slope distance';
+
+  const clearBtn = document.createElement('button');
+  clearBtn.textContent = 'Clear';
+  clearBtn.id = 'btn_clear';
+  clearBtn.disabled = true;
+
+  controls.append(fileInput, fileLabel, libraryBtn, timeModelSelect, cleaning, stopsMenu, legsMenu, limitMenu, zonesMenu, compareMenu, simplifyMenu, resample, exportCsvBtn, exportGpxBtn, exportGeoJsonBtn, exportKmlBtn, exportPolylineBtn, precisionSelect, shareBtn, editMenu, timeZoneMenu, basemapMenu, clearBtn, viewSelect, colorModeSelect, colorClipSelect, slopeToggle, unitSelect);
 
   topbar.append(summary, controls);
   app.appendChild(topbar);
   app.appendChild(dropzone);
 
+  // Import check: shown when a file has validation issues, until the user decides
+  const validation = document.createElement('section');
+  validation.id = 'validation';
+  validation.className = 'validation hidden';
+  validation.innerHTML = `
+    <div class="chart-head">
+      <b>Import check</b> <span id="validation_status" class="muted"></span>
+      <button id="validation_proceed">Import anyway</button>
+      <button id="validation_skip">Skip these routes</button>
+    </div>
+    <table class="list">
+      <thead><tr><th></th><th>File</th><th>Route</th><th>Where</th><th>Problem</th></tr></thead>
+      <tbody id="validation_rows"></tbody>
+    </table>
+  `;
+  app.appendChild(validation);
+
+  const workspace = document.createElement('div');
+  workspace.className = 'workspace';
+  const library = document.createElement('aside');
+  library.id = 'library';
+  library.className = state.libraryOpen ? 'library' : 'library hidden';
+  library.innerHTML = `
+    <div class="chart-head"><b>Library</b> <span id="library_status" class="muted"></span></div>
+    <input id="library_filter" type="search" placeholder="Filter by label, tag or file" />
+    <ul id="library_list" class="library-list"></ul>
+  `;
   const mapDiv = document.createElement('div');
   mapDiv.id = 'map';
-  app.appendChild(mapDiv);
+  workspace.append(library, mapDiv);
+  app.appendChild(workspace);
+
+  const playbackBar = document.createElement('div');
+  playbackBar.className = 'playback';
+  playbackBar.innerHTML = `
+    <button id="pb_play" title="Play / pause" disabled>▶</button>
+    <input id="pb_scrub" type="range" min="0" max="0" step="any" value="0" disabled />
+    <select id="pb_speed" title="Playback speed">
+      ${PLAYBACK_MULTIPLIERS.map(m => `<option value="${m}">${m}x</option>`).join('')}
+    </select>
+    <label class="toggle"><input id="pb_follow" type="checkbox" /> Follow</label>
+    <span id="pb_readout" class="readout">—</span>
+  `;
+  app.appendChild(playbackBar);
+
+  const chartPanel = document.createElement('div');
+  chartPanel.className = 'chart-panel';
+  chartPanel.innerHTML = `
+    <div class="chart-main">
+      <div class="chart-head">
+        <select id="chart_metric">
+          <option value="speed">Speed</option>
+          <option value="elevation">Elevation</option>
+        </select>
+        vs
+        <select id="chart_axis">
+          <option value="time">time</option>
+          <option value="distance">distance</option>
+        </select>
+        <span class="muted">Drag to zoom the map to a section, double-click to show the whole route</span>
+      </div>
+      <canvas id="chart"></canvas>
+    </div>
+    <div class="side-panel">
+      <div class="chart-head"><b>Stops</b> <span id="stops_count" class="muted"></span></div>
+      <table class="list">
+        <thead><tr><th>#</th><th>Start</th><th>End</th><th>Duration</th></tr></thead>
+        <tbody id="stops_rows"></tbody>
+      </table>
+    </div>
+    <div class="side-panel">
+      <div class="chart-head">
+        <b>Legs</b> <span id="legs_count" class="muted"></span>
+        <select id="legs_format" title="Format of the ⤓ leg exports">
+          <option value="csv">CSV</option>
+          <option value="gpx">GPX</option>
+          <option value="geojson">GeoJSON</option>
+          <option value="kml">KML</option>
+        </select>
+      </div>
+      <table class="list">
+        <thead><tr><th>#</th><th>Mode</th><th>Start</th><th>Duration</th><th>Dist</th><th>Avg</th><th></th></tr></thead>
+        <tbody id="legs_rows"></tbody>
+      </table>
+    </div>
+    <div class="side-panel">
+      <div class="chart-head">
+        <b>Zones</b> <span id="zones_count" class="muted"></span>
+        <button id="btn_zones_csv" disabled>CSV</button>
+      </div>
+      <table class="list">
+        <thead><tr><th>#</th><th>Zone</th><th>In</th><th>Out</th><th>Dwell</th><th>Dist</th></tr></thead>
+        <tbody id="zones_rows"></tbody>
+      </table>
+    </div>
+    <div class="side-panel">
+      <div class="chart-head">
+        <b>Off route</b> <span id="deviations_count" class="muted"></span>
+        <button id="btn_compare_csv" disabled title="Offset and time delta at every point">CSV</button>
+      </div>
+      <table class="list">
+        <thead><tr><th>#</th><th>Start</th><th>End</th><th>Dist</th><th>Max off</th></tr></thead>
+        <tbody id="deviations_rows"></tbody>
+      </table>
+    </div>
+    <div class="side-panel">
+      <div class="chart-head">
+        <b>Over limit</b> <span id="violations_count" class="muted"></span>
+        <button id="btn_violations_csv" disabled>CSV</button>
+      </div>
+      <table class="list">
+        <thead><tr><th>#</th><th>Start</th><th>End</th><th>Dist</th><th>Peak</th><th>Avg</th></tr></thead>
+        <tbody id="violations_rows"></tbody>
+      </table>
+    </div>
+  `;
+  app.appendChild(chartPanel);
 
   // Events
   fileInput.addEventListener('change', async (e) => {
-    const file = (e.target as HTMLInputElement).files?.[0];
-    if (file) await loadFile(file);
+    const input = e.target as HTMLInputElement;
+    const files = Array.from(input.files ?? []);
+    if (files.length) await loadFiles(files);
+    input.value = '';
   });
 
   dropzone.addEventListener('dragover', (e) => {
@@ -157,37 +737,706 @@ function buildLayout() {
   dropzone.addEventListener('drop', async (e) => {
     e.preventDefault();
     dropzone.classList.remove('dragover');
-    const file = e.dataTransfer?.files?.[0];
-    if (file) await loadFile(file);
+    const files = Array.from(e.dataTransfer?.files ?? []);
+    if (files.length) await loadFiles(files);
   });
 
   unitSelect.addEventListener('change', () => {
-    state.unitSystem = unitSelect.value as UnitSystem;
+    setUnitSystem(unitSelect.value as UnitSystem);
+    writeShareHash(true);
+  });
+  shareBtn.addEventListener('click', () => copyShareLink());
+  const slopeBox = document.getElementById('slope_distance') as HTMLInputElement;
+  slopeBox.checked = state.slopeDistance;
+  slopeBox.addEventListener('change', () => {
+    state.slopeDistance = slopeBox.checked;
+    for (const route of state.routes) computeRoute(route);
+    renderRoutes();
     refreshSummary();
-    refreshTooltips();
     refreshLegend();
+    refreshChart();
+    refreshViolationsList();
+    savePrefs();
+  });
+
+  const playBtn = document.getElementById('pb_play') as HTMLButtonElement;
+  const scrub = document.getElementById('pb_scrub') as HTMLInputElement;
+  const speedSelect = document.getElementById('pb_speed') as HTMLSelectElement;
+  const followBox = document.getElementById('pb_follow') as HTMLInputElement;
+  speedSelect.value = String(state.playback.multiplier);
+  playBtn.addEventListener('click', () => (state.playback.playing ? pausePlayback() : startPlayback()));
+  scrub.addEventListener('input', () => {
+    const route = activeRoute();
+    if (!route) return;
+    setPlaybackTime(route.timesMs[0] + parseFloat(scrub.value) * 1000);
+  });
+  followBox.checked = state.playback.follow;
+  speedSelect.addEventListener('change', () => {
+    state.playback.multiplier = parseFloat(speedSelect.value);
+    savePrefs();
+  });
+  followBox.addEventListener('change', () => {
+    state.playback.follow = followBox.checked;
+    savePrefs();
+  });
+
+  colorModeSelect.addEventListener('change', () => {
+    state.colorMode = colorModeSelect.value as ColorMode;
+    savePrefs();
+    renderRoutes();
+    refreshLegend();
+  });
+  colorClipSelect.addEventListener('change', () => {
+    state.colorClipPct = parseFloat(colorClipSelect.value);
+    savePrefs();
+    renderRoutes();
+    refreshLegend();
+  });
+  viewSelect.addEventListener('change', () => {
+    state.heatmap = (viewSelect.value || null) as HeatWeight | null;
+    savePrefs();
+    syncColorModeControl();
+    renderRoutes();
+    refreshLegend();
+  });
+
+  const tzSelect = document.getElementById('tz_select') as HTMLSelectElement;
+  const tzFromRoute = document.getElementById('tz_from_route') as HTMLInputElement;
+  const browserZone = browserTimeZone();
+  for (const zone of listTimeZones()) {
+    const opt = document.createElement('option');
+    opt.value = zone;
+    opt.textContent = zone === browserZone ? `${zone} (browser)` : zone;
+    tzSelect.appendChild(opt);
+  }
+  tzSelect.value = state.timeZone;
+  tzFromRoute.checked = state.timeZoneFromRoute;
+  tzSelect.addEventListener('change', () => {
+    state.timeZone = tzSelect.value;
+    savePrefs();
+    refreshTimeZone();
+  });
+  tzFromRoute.addEventListener('change', () => {
+    state.timeZoneFromRoute = tzFromRoute.checked;
+    savePrefs();
+    refreshTimeZone();
+  });
+  syncTimeZoneControls();
+
+  libraryBtn.addEventListener('click', () => {
+    state.libraryOpen = !state.libraryOpen;
+    library.classList.toggle('hidden', !state.libraryOpen);
+    state.map?.invalidateSize();
+    savePrefs();
+  });
+  document.getElementById('library_filter')!.addEventListener('input', () => refreshLibrary());
+  document.getElementById('validation_proceed')!.addEventListener('click', () => settleReview?.(true));
+  document.getElementById('validation_skip')!.addEventListener('click', () => settleReview?.(false));
+
+  const axisSelect = document.getElementById('chart_axis') as HTMLSelectElement;
+  axisSelect.value = state.chartAxis;
+  axisSelect.addEventListener('change', () => {
+    state.chartAxis = axisSelect.value as ChartAxis;
+    savePrefs();
+    refreshChart();
+  });
+  const metricSelect = document.getElementById('chart_metric') as HTMLSelectElement;
+  metricSelect.value = state.chartMetric;
+  metricSelect.addEventListener('change', () => {
+    state.chartMetric = metricSelect.value as ChartMetric;
+    savePrefs();
+    refreshChart();
   });
 
   exportCsvBtn.addEventListener('click', () => exportCSV());
   exportGpxBtn.addEventListener('click', () => exportGPX());
+  exportGeoJsonBtn.addEventListener('click', () => exportGeoJSON());
+  exportKmlBtn.addEventListener('click', () => exportKML());
+  exportPolylineBtn.addEventListener('click', () => exportPolyline(parseInt(precisionSelect.value, 10)));
+  clearBtn.addEventListener('click', () => clearRoutes());
+  document.getElementById('edit_pick')!.addEventListener('change', (e) => {
+    state.pickingRange = (e.target as HTMLInputElement).checked;
+  });
+  document.getElementById('edit_range_clear')!.addEventListener('click', () => {
+    state.selection = null;
+    renderSelection();
+  });
+  document.getElementById('edit_trim')!.addEventListener('click', () => trimToSelection());
+  document.getElementById('edit_split')!.addEventListener('click', () => splitAtSelectedPoint());
+  document.getElementById('edit_export_range')!.addEventListener('change', (e) => {
+    state.exportRange = (e.target as HTMLInputElement).checked;
+  });
+  document.getElementById('edit_undo')!.addEventListener('click', () => undoEdit());
+  document.getElementById('edit_redo')!.addEventListener('click', () => redoEdit());
+  document.addEventListener('keydown', (e) => {
+    if (!(e.ctrlKey || e.metaKey) || (e.target as HTMLElement).closest('input, select, textarea')) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) undoEdit();
+    else if ((key === 'z' && e.shiftKey) || key === 'y') redoEdit();
+    else return;
+    e.preventDefault();
+  });
+  timeModelSelect.addEventListener('change', () => {
+    const route = activeRoute();
+    if (!route) return;
+    route.timeModel = timeModelSelect.value as TimeReconstruction;
+    computeRoute(route);
+    renderRoutes();
+    refreshSummary();
+    refreshLegend();
+    refreshChart();
+  });
+  for (const id of ['clean_enabled', 'clean_dupes', 'clean_maxspd', 'clean_smoother', 'clean_window', 'clean_noise', 'clean_overlay']) {
+    document.getElementById(id)!.addEventListener('change', () => applyCleaningControls());
+  }
+  for (const id of ['stop_speed', 'stop_radius', 'stop_duration']) {
+    document.getElementById(id)!.addEventListener('change', () => applyStopControls());
+  }
+  syncStopControls();
+  for (const id of ['legs_gap', 'legs_stop', 'legs_mode']) {
+    document.getElementById(id)!.addEventListener('change', () => applyLegControls());
+  }
+  syncLegControls();
+  for (const id of ['limit_enabled', 'limit_speed', 'limit_tolerance', 'limit_radius']) {
+    document.getElementById(id)!.addEventListener('change', () => applyLimitControls());
+  }
+  document.getElementById('limit_file')!.addEventListener('change', async (e) => {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    try {
+      state.limitSections = parseLimitSections(await file.text());
+    } catch (err) {
+      alert(err instanceof ImportError ? `Failed to load road limits from ${file.name}\n${err.message}` : `Failed to read ${file.name}`);
+      return;
+    }
+    state.speedLimit.enabled = true;
+    refreshLimits();
+  });
+  document.getElementById('limit_clear_sections')!.addEventListener('click', () => {
+    state.limitSections = [];
+    refreshLimits();
+  });
+  document.getElementById('btn_violations_csv')!.addEventListener('click', () => exportViolationsCSV());
+  syncLimitControls();
+  document.getElementById('zone_file')!.addEventListener('change', async (e) => {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    let zones: Zone[];
+    try {
+      zones = parseZones(await file.text());
+    } catch (err) {
+      alert(err instanceof ImportError ? `Failed to load zones from ${file.name}\n${err.message}` : `Failed to read ${file.name}`);
+      return;
+    }
+    state.zones = [...state.zones, ...zones];
+    savePrefs();
+    refreshZones();
+  });
+  document.getElementById('zone_draw')!.addEventListener('click', () => (state.drawingZone ? finishZone() : startZone()));
+  document.getElementById('zone_save')!.addEventListener('click', () => exportZones());
+  document.getElementById('zone_clear')!.addEventListener('click', () => {
+    state.zones = [];
+    savePrefs();
+    refreshZones();
+  });
+  document.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape' && state.drawingZone) endZoneDrawing();
+  });
+  document.getElementById('btn_zones_csv')!.addEventListener('click', () => exportZoneVisitsCSV());
+  syncZoneControls();
+  document.getElementById('compare_ref')!.addEventListener('change', (e) => {
+    const value = (e.target as HTMLSelectElement).value;
+    state.referenceId = value ? Number(value) : null;
+    refreshComparison();
+  });
+  document.getElementById('compare_file')!.addEventListener('change', async (e) => {
+    const input = e.target as HTMLInputElement;
+    const files = Array.from(input.files ?? []);
+    input.value = '';
+    if (!files.length) return;
+    const active = activeRoute();
+    const added = await loadFiles(files.slice(0, 1));
+    if (!added.length) return;
+    state.referenceId = added[0].id;
+    // The reference is compared against, not the route to look at
+    if (active) setActiveRoute(active);
+    refreshComparison();
+  });
+  document.getElementById('compare_max')!.addEventListener('change', (e) => {
+    const max = parseFloat((e.target as HTMLInputElement).value);
+    state.compareOptions = { maxDeviationM: max > 0 ? max : DEFAULT_COMPARE_OPTIONS.maxDeviationM };
+    savePrefs();
+    syncCompareControls();
+    refreshComparison();
+  });
+  document.getElementById('btn_compare_csv')!.addEventListener('click', () => exportComparisonCSV());
+  document.getElementById('basemap_select')!.addEventListener('change', (e) => {
+    state.basemap = (e.target as HTMLSelectElement).value;
+    savePrefs();
+    applyBasemap();
+  });
+  document.getElementById('basemap_kind')!.addEventListener('change', (e) => {
+    const wms = (e.target as HTMLSelectElement).value === 'wms';
+    document.getElementById('basemap_layers')!.classList.toggle('hidden', !wms);
+    (document.getElementById('basemap_url') as HTMLInputElement).placeholder = wms
+      ? 'https://maps.example.com/wms'
+      : 'https://tiles.example.com/{z}/{x}/{y}.png';
+  });
+  document.getElementById('basemap_add')!.addEventListener('click', () => addCustomBasemap());
+  document.getElementById('basemap_remove')!.addEventListener('click', () => removeBasemap());
+  document.getElementById('basemap_file')!.addEventListener('change', async (e) => {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (file) await loadTilePackage(file);
+  });
+  document.getElementById('simplify_tol')!.addEventListener('input', () => previewSimplify());
+  document.getElementById('simplify_tol')!.addEventListener('change', () => applySimplifyControls());
+  document.getElementById('simplify_method')!.addEventListener('change', () => applySimplifyControls());
+  for (const id of ['resample_mode', 'resample_step', 'resample_method']) {
+    document.getElementById(id)!.addEventListener('change', () => applyResampleControls());
+  }
 }
 
 function initMap() {
   const map = L.map('map', { preferCanvas: true });
-  const osm = L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-    attribution: '&copy; OpenStreetMap contributors',
-  }).addTo(map);
+  state.map = map;
+  state.layers = {
+    highlight: L.circleMarker([0, 0], { radius: 8, color: '#fff', weight: 2, fillColor: '#4da3ff', fillOpacity: 0.9, interactive: false }),
+    selection: L.layerGroup().addTo(map),
+    sections: L.layerGroup().addTo(map),
+    zones: L.layerGroup().addTo(map),
+  };
+  state.trackCanvas = createTrackCanvas(map);
+  applyBasemap();
+  // Zone drawing: clicks (on points too, which bubble up) add corners
+  map.on('click', (e) => {
+    if (!state.drawingZone) return;
+    state.drawingZone.push(e.latlng);
+    renderZones();
+  });
+  map.on('dblclick', () => {
+    if (state.drawingZone) finishZone();
+  });
+  // Canvas routes have no layer per point: the point under the mouse is looked up instead,
+  // and one tooltip follows it
+  const hover = L.tooltip({ direction: 'top', opacity: 0.9 });
+  let hovered: { route: Route; index: number } | null = null;
+  const setHovered = (hit: { route: Route; index: number } | null) => {
+    if (hit?.route === hovered?.route && hit?.index === hovered?.index) return;
+    if (hovered?.route.id === state.activeId) state.chart?.setCursor(null);
+    hovered = hit;
+    if (!hit) {
+      map.closeTooltip(hover);
+      return;
+    }
+    const p = hit.route.points[hit.index];
+    map.openTooltip(hover.setLatLng([p.lat, p.lon]).setContent(pointHtml(hit.route, hit.index)));
+    if (hit.route.id === state.activeId) state.chart?.setCursor(hit.index);
+  };
+  map.on('mousemove', (e) => setHovered(canvasPointAt(e.containerPoint)));
+  map.on('mouseout movestart', () => setHovered(null));
+  map.on('click', (e) => {
+    if (state.drawingZone) return;
+    const hit = canvasPointAt(e.containerPoint);
+    if (hit) clickPoint(hit.route, hit.index);
+  });
+  renderZones();
+  map.on('moveend', () => {
+    if (state.layers?.graticule) drawGraticule();
+    writeShareHash(false);
+  });
+  addLegendControl();
+}
+
+function mapHasView(): boolean {
+  // Leaflet has no view (and throws) until the first fit or setView
+  try {
+    state.map?.getCenter();
+    return !!state.map;
+  } catch {
+    return false;
+  }
+}
+
+function basemapSources(): BasemapSource[] {
+  return [OSM_BASEMAP, ...state.customBasemaps];
+}
+
+/** Swaps in the chosen basemap; without one (or before an offline package is open) draws a graticule. */
+function applyBasemap() {
+  const map = state.map;
+  if (!map || !state.layers) return;
+  const layers = state.layers;
+  if (layers.basemap) map.removeLayer(layers.basemap);
+  if (layers.graticule) map.removeLayer(layers.graticule);
+  layers.scale?.remove();
+  layers.basemap = layers.graticule = layers.scale = undefined;
+
+  const pkg = state.tilePackage;
+  const source = basemapSources().find(b => b.id === state.basemap);
+  if (state.basemap === MBTILES_BASEMAP && pkg) {
+    layers.basemap = tilePackageLayer(pkg).addTo(map);
+  } else if (source?.kind === 'wms') {
+    layers.basemap = L.tileLayer.wms(source.url, { layers: source.wmsLayers ?? '', format: 'image/png', attribution: source.attribution }).addTo(map);
+  } else if (source) {
+    layers.basemap = L.tileLayer(source.url, { attribution: source.attribution }).addTo(map);
+  } else {
+    layers.graticule = L.layerGroup().addTo(map);
+    layers.scale = L.control.scale({ position: 'bottomleft' }).addTo(map);
+    drawGraticule();
+  }
   // Ensure dark UI does not affect map tiles
-  (osm.getContainer() as HTMLElement).style.filter = 'none';
+  if (layers.basemap instanceof L.GridLayer) (layers.basemap.getContainer() as HTMLElement).style.filter = 'none';
+  map.getContainer().classList.toggle('no-basemap', !layers.basemap);
+  syncBasemapControls();
+}
+
+function tilePackageLayer(pkg: MBTiles): L.GridLayer {
+  const b = pkg.bounds;
+  const PackageLayer: new (options: L.GridLayerOptions) => L.GridLayer = L.GridLayer.extend({ createTile: packageTile(pkg) });
+  return new PackageLayer({
+    minNativeZoom: pkg.minZoom,
+    maxNativeZoom: pkg.maxZoom,
+    bounds: b ? L.latLngBounds([b[1], b[0]], [b[3], b[2]]) : undefined,
+    attribution: pkg.attribution,
+  });
+}
 
-  const segments = L.layerGroup().addTo(map);
-  const points = L.layerGroup().addTo(map);
-  const arrows = L.layerGroup().addTo(map);
-  const markers = L.layerGroup().addTo(map);
+function packageTile(pkg: MBTiles) {
+  return (coords: L.Coords, done: L.DoneCallback): HTMLElement => {
+    const img = document.createElement('img');
+    img.alt = '';
+    pkg.getTile(coords.z, coords.x, coords.y).then((blob) => {
+      if (!blob) {
+        done(undefined, img); // outside the package: leave the tile empty
+        return;
+      }
+      img.onload = () => {
+        URL.revokeObjectURL(img.src);
+        done(undefined, img);
+      };
+      img.onerror = () => done(new Error('unreadable tile image'), img);
+      img.src = URL.createObjectURL(blob);
+    }, (err) => done(err, img));
+    return img;
+  };
+}
 
-  state.map = map;
-  state.layers = { segments, points, arrows, markers };
-  addLegendControl();
+function drawGraticule() {
+  const map = state.map;
+  const group = state.layers?.graticule;
+  if (!map || !group) return;
+  group.clearLayers();
+  if (!mapHasView()) return; // drawn on the first moveend instead
+  const bounds = map.getBounds();
+  const south = Math.max(bounds.getSouth(), -85);
+  const north = Math.min(bounds.getNorth(), 85);
+  const west = Math.max(bounds.getWest(), -180);
+  const east = Math.min(bounds.getEast(), 180);
+  const step = graticuleStep(Math.max(north - south, east - west));
+  const style = { color: '#7d8b99', weight: 1, opacity: 0.6, interactive: false };
+  const label = (lat: number, lon: number, text: string) => L.marker([lat, lon], {
+    icon: L.divIcon({ html: `<span>${text}</span>`, className: 'graticule-label', iconSize: undefined }),
+    interactive: false,
+  }).addTo(group);
+  for (const lat of graticuleValues(south, north, step)) {
+    L.polyline([[lat, west], [lat, east]], style).addTo(group);
+    label(lat, west, graticuleLabel(lat, 'lat', step));
+  }
+  for (const lon of graticuleValues(west, east, step)) {
+    L.polyline([[south, lon], [north, lon]], style).addTo(group);
+    label(south, lon, graticuleLabel(lon, 'lon', step));
+  }
+}
+
+function syncBasemapControls() {
+  const select = document.getElementById('basemap_select') as HTMLSelectElement | null;
+  if (!select) return;
+  const options = basemapSources().map(b => [b.id, b.name]);
+  options.push([MBTILES_BASEMAP, state.tilePackage ? `Offline: ${state.tilePackage.name}` : 'Offline package (not open)']);
+  options.push([NO_BASEMAP, 'None (graticule and scale)']);
+  select.innerHTML = '';
+  for (const [id, name] of options) {
+    const opt = document.createElement('option');
+    opt.value = id;
+    opt.textContent = name;
+    select.appendChild(opt);
+  }
+  select.value = state.basemap;
+  if (select.value !== state.basemap) select.value = NO_BASEMAP;
+
+  const pkg = state.tilePackage;
+  const status = document.getElementById('basemap_status')!;
+  if (state.basemap === MBTILES_BASEMAP) {
+    status.textContent = pkg
+      ? `${pkg.tileCount} tiles, zoom ${pkg.minZoom}–${pkg.maxZoom} (${pkg.format})`
+      : 'Open the package again to show it';
+  } else {
+    status.textContent = state.layers?.graticule ? 'No tiles are requested' : '';
+  }
+  const removable = state.customBasemaps.some(b => b.id === state.basemap) || (state.basemap === MBTILES_BASEMAP && !!pkg);
+  document.getElementById('basemap_remove')!.classList.toggle('hidden', !removable);
+}
+
+function addCustomBasemap() {
+  const value = (id: string) => (document.getElementById(id) as HTMLInputElement).value.trim();
+  const kind = value('basemap_kind') as BasemapKind;
+  const url = value('basemap_url');
+  const wmsLayers = kind === 'wms' ? value('basemap_layers') : undefined;
+  const problem = basemapProblem(kind, url, wmsLayers);
+  if (problem) {
+    alert(`Can't add this tile source: ${problem}.`);
+    return;
+  }
+  const source: BasemapSource = {
+    id: `custom-${Date.now().toString(36)}`,
+    name: value('basemap_name') || new URL(url.replace(/\{-?[a-z]\}/g, '0')).hostname,
+    kind,
+    url,
+    wmsLayers,
+    attribution: value('basemap_attribution') || undefined,
+  };
+  state.customBasemaps.push(source);
+  state.basemap = source.id;
+  for (const id of ['basemap_name', 'basemap_url', 'basemap_layers', 'basemap_attribution']) {
+    (document.getElementById(id) as HTMLInputElement).value = '';
+  }
+  savePrefs();
+  applyBasemap();
+}
+
+async function removeBasemap() {
+  if (state.basemap === MBTILES_BASEMAP) {
+    if (!confirm('Forget the offline tile package? It is removed from this browser’s storage.')) return;
+    state.tilePackage = undefined;
+    await deleteTilePackage().catch(() => undefined);
+  } else {
+    state.customBasemaps = state.customBasemaps.filter(b => b.id !== state.basemap);
+  }
+  state.basemap = OSM_BASEMAP.id;
+  savePrefs();
+  applyBasemap();
+}
+
+async function loadTilePackage(file: Blob, save = true) {
+  try {
+    state.tilePackage = await openMBTiles(file);
+  } catch (err) {
+    alert(err instanceof MBTilesError ? `Failed to open the tile package\n${err.message}` : 'Failed to read the tile package');
+    return;
+  }
+  state.basemap = MBTILES_BASEMAP;
+  savePrefs();
+  applyBasemap();
+  const b = state.tilePackage.bounds;
+  if (b && !state.routes.length) state.map?.fitBounds([[b[1], b[0]], [b[3], b[2]]]);
+  // Keep a copy so the package is still there after a reload
+  if (save) await saveTilePackage(file).catch(() => setBasemapNote('not saved for next time (storage unavailable or full)'));
+}
+
+async function restoreTilePackage() {
+  if (state.basemap !== MBTILES_BASEMAP) return;
+  const file = await getTilePackage().catch(() => undefined);
+  if (file) await loadTilePackage(file, false);
+}
+
+function setBasemapNote(text: string) {
+  const status = document.getElementById('basemap_status')!;
+  status.textContent = `${status.textContent}; ${text}`;
+}
+
+function initChart() {
+  const canvas = document.getElementById('chart') as HTMLCanvasElement;
+  state.chart = createChart(canvas, {
+    onHover: (index) => highlightPoint(index),
+    onBrush: (startIndex, endIndex) => {
+      const route = activeRoute();
+      if (!route) return;
+      fitToPoints(route.points.slice(startIndex, endIndex + 1));
+    },
+    onReset: () => {
+      const route = activeRoute();
+      if (route) fitToPoints(route.points);
+    },
+  });
+}
+
+function refreshChart() {
+  const route = activeRoute();
+  // The elevation profile needs a route that carries elevation; the choice is kept for the next one
+  const profile = document.querySelector<HTMLOptionElement>('#chart_metric option[value="elevation"]');
+  if (profile) profile.disabled = !route || !hasElevation(route.points);
+  const metricSelect = document.getElementById('chart_metric') as HTMLSelectElement | null;
+  if (metricSelect) metricSelect.value = chartMetric(route);
+  state.chart?.setData(route ? chartData(route) : null);
+  refreshStopsList();
+  refreshLegsList();
+  refreshZonesList();
+  refreshDeviationsList();
+  refreshViolationsList();
+  syncPlayback();
+}
+
+/** Keeps the playback bar on the active route; switching routes rewinds it. */
+function syncPlayback() {
+  const route = activeRoute();
+  const pb = state.playback;
+  const playBtn = document.getElementById('pb_play') as HTMLButtonElement;
+  const scrub = document.getElementById('pb_scrub') as HTMLInputElement;
+  playBtn.disabled = scrub.disabled = !route || route.points.length < 2;
+  if (!route || route.points.length < 2) {
+    pausePlayback();
+    pb.routeId = null;
+    pb.marker?.remove();
+    document.getElementById('pb_readout')!.textContent = '—';
+    return;
+  }
+  const start = route.timesMs[0];
+  const end = route.timesMs[route.timesMs.length - 1];
+  scrub.max = String((end - start) / 1000);
+  if (pb.routeId !== route.id || pb.tMs < start || pb.tMs > end) {
+    pausePlayback();
+    pb.routeId = route.id;
+    pb.tMs = start;
+  }
+  setPlaybackTime(pb.tMs);
+}
+
+function startPlayback() {
+  const route = activeRoute();
+  const pb = state.playback;
+  if (!route || pb.playing) return;
+  // Restart from the beginning once the end has been reached
+  if (pb.tMs >= route.timesMs[route.timesMs.length - 1]) pb.tMs = route.timesMs[0];
+  pb.playing = true;
+  pb.lastFrameMs = undefined;
+  document.getElementById('pb_play')!.textContent = '⏸';
+  pb.frame = requestAnimationFrame(playbackFrame);
+}
+
+function pausePlayback() {
+  const pb = state.playback;
+  pb.playing = false;
+  if (pb.frame != null) cancelAnimationFrame(pb.frame);
+  pb.frame = undefined;
+  const btn = document.getElementById('pb_play');
+  if (btn) btn.textContent = '▶';
+}
+
+function playbackFrame(nowMs: number) {
+  const route = activeRoute();
+  const pb = state.playback;
+  if (!route || !pb.playing) return;
+  const elapsed = pb.lastFrameMs != null ? nowMs - pb.lastFrameMs : 0;
+  pb.lastFrameMs = nowMs;
+  const end = route.timesMs[route.timesMs.length - 1];
+  setPlaybackTime(Math.min(end, pb.tMs + elapsed * pb.multiplier));
+  if (pb.tMs >= end) {
+    pausePlayback();
+    return;
+  }
+  pb.frame = requestAnimationFrame(playbackFrame);
+}
+
+function setPlaybackTime(tMs: number) {
+  const route = activeRoute();
+  const pb = state.playback;
+  if (!route || !state.map) return;
+  pb.tMs = tMs;
+  const pos = positionAtTime(route.points, route.timesMs, tMs);
+  const i = pos.index;
+  const next = Math.min(i + 1, route.points.length - 1);
+  const distM = route.cumDistM[i] + (route.cumDistM[next] - route.cumDistM[i]) * pos.fraction;
+  const speed = route.segSpeedsMps[Math.min(i, route.segSpeedsMps.length - 1)] ?? 0;
+  const brg = bearingDegrees(route.points[Math.min(i, route.points.length - 2)], route.points[next]);
+
+  if (!pb.marker) {
+    const icon = L.divIcon({ className: '', html: '<div class="vehicle-icon"><span>➤</span></div>', iconSize: [24, 24], iconAnchor: [12, 12] });
+    pb.marker = L.marker([pos.lat, pos.lon], { icon, interactive: false, zIndexOffset: 1000 });
+  }
+  pb.marker.setLatLng([pos.lat, pos.lon]);
+  if (route.visible) pb.marker.addTo(state.map); else pb.marker.remove();
+  // The glyph points east; bearings are clockwise from north
+  const glyph = pb.marker.getElement()?.querySelector('span') as HTMLElement | null;
+  if (glyph) glyph.style.transform = `rotate(${brg - 90}deg)`;
+  if (pb.follow && pb.playing) state.map.panTo([pos.lat, pos.lon], { animate: false });
+
+  (document.getElementById('pb_scrub') as HTMLInputElement).value = String((tMs - route.timesMs[0]) / 1000);
+  document.getElementById('pb_readout')!.textContent = [
+    localTimeText(tMs, routeTimeZone(route)),
+    `+${formatDuration((tMs - route.timesMs[0]) / 1000)}`,
+    mpsToSpeedText(speed, state.unitSystem).text,
+    formatDistance(distM, state.unitSystem).text,
+  ].join(' · ');
+  state.chart?.setCursor(pos.fraction >= 0.5 ? next : i);
+}
+
+function chartData(route: Route): ChartData {
+  const { timesMs, cumDistM, segSpeedsMps } = route;
+  const units = state.unitSystem;
+  const speedUnit = mpsToSpeedText(0, units).unit;
+  const n = route.points.length;
+  const xs = state.chartAxis === 'time'
+    ? timesMs.map(t => (t - timesMs[0]) / 1000)
+    : cumDistM.slice();
+  const comparison = routeComparison(route);
+  const eleFactor = units === 'imperial' ? 1 / 0.3048 : 1;
+  const eleUnit = units === 'imperial' ? 'ft' : 'm';
+  const main: ChartSeries = chartMetric(route) === 'elevation' ? {
+    ys: route.points.map(p => (p.ele != null ? p.ele * eleFactor : NaN)),
+    color: '#7bd88f',
+    label: 'Elevation',
+    format: (y) => `${y.toFixed(0)} ${eleUnit}`,
+  } : {
+    ys: route.points.map((_, i) => mpsToSpeedText(segSpeedsMps[Math.min(i, n - 2)] ?? 0, units).value),
+    color: '#4da3ff',
+    label: 'Speed',
+    format: (y) => `${y.toFixed(y < 10 ? 1 : 0)} ${speedUnit}`,
+    fromZero: true,
+  };
+  return {
+    xs,
+    formatX: state.chartAxis === 'time' ? (x) => formatDuration(x) : (x) => formatDistance(x, units).text,
+    series: [main, ...(comparison ? [{
+      ys: comparison.deltaS,
+      color: '#e056fd',
+      label: 'Delta',
+      format: deltaText,
+    }] : [])],
+  };
+}
+
+/** What the chart plots for a route: the chosen metric, or speed when it has no elevation. */
+function chartMetric(route: Route | undefined): ChartMetric {
+  return state.chartMetric === 'elevation' && route && hasElevation(route.points) ? 'elevation' : 'speed';
+}
+
+/** Marks a point of the active route on the map (chart hover), falling back to the selected point. */
+function highlightPoint(index: number | null) {
+  const marker = state.layers?.highlight;
+  const route = activeRoute();
+  if (!marker || !state.map) return;
+  const i = index ?? state.selectedIndex;
+  const p = i != null ? route?.points[i] : undefined;
+  if (!p || !route?.visible) {
+    marker.remove();
+    return;
+  }
+  marker.setLatLng([p.lat, p.lon]).addTo(state.map);
+}
+
+function legStepsGradient(count: number): string {
+  const n = Math.max(1, Math.round(count));
+  const stops = Array.from({ length: n }, (_, k) => {
+    const color = LEG_COLORS[k % LEG_COLORS.length];
+    return `${color} ${(k / n) * 100}% ${((k + 1) / n) * 100}%`;
+  });
+  return `linear-gradient(90deg, ${stops.join(', ')})`;
 }
 
 function addLegendControl() {
@@ -195,9 +1444,10 @@ function addLegendControl() {
   legend.onAdd = () => {
     const div = L.DomUtil.create('div', 'legend');
     div.innerHTML = `
-      <div><b>Speed</b></div>
+      <div><b id="legend_title">Speed</b></div>
       <div class="bar"></div>
       <div class="scale"><span id="spd_min">0</span><span id="spd_mid">—</span><span id="spd_max">—</span></div>
+      <div id="legend_tz" class="muted"></div>
     `;
     return div;
   };
@@ -207,197 +1457,1433 @@ function addLegendControl() {
 }
 
 function refreshLegend() {
-  if (!state.stats) return;
-  const { maxMps, avgMps } = state.stats;
+  const route = activeRoute();
+  if (!route) return;
+  const scale = sharedColorScale();
+  const titleEl = document.getElementById('legend_title');
   const minEl = document.getElementById('spd_min');
   const midEl = document.getElementById('spd_mid');
   const maxEl = document.getElementById('spd_max');
-  if (minEl && midEl && maxEl) {
-    const minText = mpsToSpeedText(0, state.unitSystem).text;
-    const midText = mpsToSpeedText(avgMps, state.unitSystem).text;
-    const maxText = mpsToSpeedText(maxMps, state.unitSystem).text;
-    minEl.textContent = minText;
-    midEl.textContent = midText;
-    maxEl.textContent = maxText;
+  if (titleEl && minEl && midEl && maxEl && state.heatmap) {
+    titleEl.textContent = `Heatmap by ${HEAT_WEIGHT_NAMES[state.heatmap]}`;
+    minEl.textContent = 'less';
+    midEl.textContent = '';
+    maxEl.textContent = 'more';
+  } else if (titleEl && minEl && midEl && maxEl) {
+    const clip = state.colorClipPct > 0 ? ` (clipped ${state.colorClipPct}–${100 - state.colorClipPct}%)` : '';
+    titleEl.textContent = COLOR_MODE_NAMES[scale.mode] + clip;
+    // Speed keeps the active route's average in the middle; other modes show the scale midpoint
+    const mid = scale.mode === 'speed' ? route.stats.avgMps : (scale.lo + scale.hi) / 2;
+    minEl.textContent = metricText(scale.mode, scale.lo);
+    midEl.textContent = scale.mode === 'leg' ? '' : metricText(scale.mode, mid);
+    maxEl.textContent = metricText(scale.mode, scale.hi);
+  }
+  // Leg colors are steps, not a ramp
+  const bar = document.querySelector<HTMLElement>('.legend .bar');
+  if (bar) {
+    bar.style.background = state.heatmap
+      ? `linear-gradient(90deg, ${HEAT_RAMP.join(', ')})`
+      : scale.mode === 'leg' ? legStepsGradient(scale.hi + 1) : '';
+  }
+  const tzEl = document.getElementById('legend_tz');
+  if (tzEl) {
+    const zone = routeTimeZone(route);
+    tzEl.textContent = `Times: ${zone} (UTC${offsetText(timeZoneOffsetMinutes(route.timesMs[0], zone))})`;
   }
 }
 
-async function loadFile(file: File) {
-  const text = await file.text();
-  let json: AnyGeo;
+async function loadFiles(files: File[]): Promise<Route[]> {
+  let imported: { source: string; parsed: ParsedRoute }[] = [];
+  for (const file of files) {
+    const text = await file.text();
+    let parsed: ParsedRoute[];
+    try {
+      parsed = parseRouteFile(file.name, text);
+    } catch (e) {
+      alert(e instanceof ImportError ? `Failed to import ${file.name}\n${e.message}` : `Failed to read ${file.name}`);
+      continue;
+    }
+    for (const p of parsed) imported.push({ source: file.name, parsed: p });
+  }
+  const flagged = imported.filter(i => i.parsed.issues?.length);
+  if (flagged.length && !(await reviewIssues(flagged))) imported = imported.filter(i => !flagged.includes(i));
+  const added = imported.map(i => buildRoute(i.parsed, i.source));
+  if (!added.length) return added;
+  addRoutes(added);
+
+  // Keep a copy in the local library; importing still works when storage is unavailable
   try {
-    json = JSON.parse(text);
+    for (const route of added) {
+      route.libraryId = await saveRoute(route.parsed, route.source, { distanceM: route.stats.totalDistM, durationS: route.stats.durationS });
+    }
   } catch (e) {
-    alert('Failed to parse JSON');
-    return;
-  }
-  const { points, meta, timesMs } = extractPoints(json);
-  if (!points.length) {
-    alert('No coordinates found. Expect properties.polyline or geometry.coordinates');
-    return;
+    setLibraryStatus(`not saved (${(e as Error).message})`);
   }
+  savePrefs();
+  refreshLibrary();
+  return added;
+}
 
-  state.meta = meta;
-  state.points = points;
-
-  // Times
-  let tms = timesMs;
-  if (!tms.length) {
-    const start = meta.startMs ?? Date.now();
-    const end = meta.endMs ?? start + (points.length - 1) * 1000;
-    tms = distributeEvenTimes(start, end, points.length);
+let settleReview: ((proceed: boolean) => void) | null = null;
+
+/** Lists the validation issues of freshly parsed routes and waits for the user to import or skip them. */
+function reviewIssues(flagged: { source: string; parsed: ParsedRoute }[]): Promise<boolean> {
+  settleReview?.(false); // a newer import replaces a report still waiting for an answer
+  const panel = document.getElementById('validation')!;
+  const rows = document.getElementById('validation_rows')!;
+  rows.innerHTML = '';
+  let errors = 0;
+  let warnings = 0;
+  for (const { source, parsed } of flagged) {
+    for (const issue of parsed.issues ?? []) {
+      if (issue.level === 'error') errors++;
+      else warnings++;
+      const tr = document.createElement('tr');
+      tr.className = issue.level;
+      for (const text of [issue.level === 'error' ? '✕' : '⚠', source, parsed.meta.label ?? '', issue.path, issue.message]) {
+        const td = document.createElement('td');
+        td.textContent = text;
+        tr.appendChild(td);
+      }
+      rows.appendChild(tr);
+    }
   }
-  state.timesMs = tms;
+  document.getElementById('validation_status')!.textContent =
+    `${errors} error(s), ${warnings} warning(s) in ${flagged.length} route(s)`;
+  panel.classList.remove('hidden');
+  return new Promise((resolve) => {
+    settleReview = (ok) => {
+      settleReview = null;
+      panel.classList.add('hidden');
+      resolve(ok);
+    };
+  });
+}
 
-  // Distances and speeds
-  const cum = cumulativeDistancesMeters(points);
-  state.cumDistM = cum;
-  const speeds = computeSegmentSpeedsMps(tms, cum);
-  state.segSpeedsMps = speeds;
+function addRoutes(added: Route[]) {
+  state.routes.push(...added);
+  state.activeId = added[0].id;
+  state.selectedIndex = null;
+  renderRoutes();
+  fitToRoutes(added);
+  refreshSummary();
+  refreshLegend();
+  refreshChart();
+  refreshButtons();
+}
 
-  const totalDistM = cum[cum.length - 1] || 0;
-  const durationS = (tms[tms.length - 1] - tms[0]) / 1000;
-  const avgMps = durationS > 0 ? totalDistM / durationS : 0;
-  const maxMps = speeds.length ? Math.max(...speeds) : 0;
-  const samplingS = effectiveSamplingIntervalSec(tms);
-  state.stats = { totalDistM, durationS, avgMps, maxMps, samplingS };
+function libraryRoute(entry: LibraryEntry, parsed: ParsedRoute): Route {
+  const route = buildRoute(parsed, entry.source);
+  route.libraryId = entry.id;
+  route.meta = { ...route.meta, label: entry.label };
+  return route;
+}
 
-  renderRoute();
-  refreshSummary();
-  (document.getElementById('btn_csv') as HTMLButtonElement).disabled = false;
-  (document.getElementById('btn_gpx') as HTMLButtonElement).disabled = false;
-}
-
-function extractPoints(json: AnyGeo): { points: LatLngTime[]; meta: RouteMeta; timesMs: number[] } {
-  const feature = getFirstFeature(json);
-  const props = feature?.properties ?? json?.properties ?? {};
-  const meta: RouteMeta = {
-    label: props.route_label ?? props.label ?? props.name ?? json?.route_label ?? json?.label,
-    direction: props.direction ?? json?.direction,
-    startMs: parseMaybeTime(props.start_time ?? json?.start_time),
-    endMs: parseMaybeTime(props.end_time ?? json?.end_time),
-  };
-  let points: LatLngTime[] = [];
-  let timesMs: number[] = [];
-
-  // 1) properties.polyline (Google encoded, precision 5)
-  const encoded = props.polyline ?? json?.polyline;
-  if (typeof encoded === 'string' && encoded.length > 0) {
-    const arr = decodePolyline(encoded, 5);
-    points = arr.map(([lat, lon]) => ({ lat, lon }));
-  }
-
-  // 2) geometry.coordinates fallback (LineString or array of [lon,lat(,time)])
-  if (!points.length) {
-    const geom = feature?.geometry ?? json?.geometry;
-    if (geom?.type === 'LineString' && Array.isArray(geom.coordinates)) {
-      points = (geom.coordinates as any[]).map((c: any) => ({ lat: c[1], lon: c[0], t: parseMaybeTime(c[2]) }));
-    } else if (geom?.type === 'MultiLineString' && Array.isArray(geom.coordinates)) {
-      const first: any[] = (geom.coordinates as any[])[0] ?? [];
-      points = first.map((c: any) => ({ lat: c[1], lon: c[0], t: parseMaybeTime(c[2]) }));
-    } else if (Array.isArray(geom)) {
-      // Raw array of coordinates
-      points = (geom as any[]).map((c: any) => ({ lat: c[1], lon: c[0], t: parseMaybeTime(c[2]) }));
+/** Reopens the routes that were open when the page was last closed. */
+async function restoreSession() {
+  if (!prefs.openRouteIds.length) return;
+  const restored: Route[] = [];
+  try {
+    const entries = await listEntries();
+    for (const id of prefs.openRouteIds) {
+      const entry = entries.find(e => e.id === id);
+      const parsed = entry && await getTrack(id);
+      if (entry && parsed) restored.push(libraryRoute(entry, parsed));
     }
+  } catch (e) {
+    setLibraryStatus(`unavailable (${(e as Error).message})`);
   }
+  if (restored.length) addRoutes(restored);
+}
 
-  // Collect times from per-point t if present
-  if (points.some(p => typeof p.t === 'number')) {
-    timesMs = points.map(p => (typeof p.t === 'number' ? p.t! : NaN));
-    // If some NaNs, try to fill with even distribution between known bounds
-    if (timesMs.some(t => !isFinite(t))) {
-      const start = meta.startMs ?? timesMs.find(t => isFinite(t)) ?? Date.now();
-      const end = meta.endMs ?? (isFinite(timesMs[timesMs.length - 1]) ? timesMs[timesMs.length - 1] : start + (points.length - 1) * 1000);
-      timesMs = distributeEvenTimes(start, end, points.length);
-    }
+async function openFromLibrary(entry: LibraryEntry) {
+  const open = state.routes.find(r => r.libraryId === entry.id);
+  if (open) {
+    if (!open.visible) setRouteVisible(open, true);
+    setActiveRoute(open);
+    fitToRoutes([open]);
+    return;
   }
+  const parsed = await getTrack(entry.id);
+  if (!parsed) {
+    alert(`“${entry.label}” is missing its track data; delete it and import the file again.`);
+    return;
+  }
+  addRoutes([libraryRoute(entry, parsed)]);
+  await updateEntry(entry.id, { openedMs: Date.now() });
+  savePrefs();
+  refreshLibrary();
+}
 
-  // Or from properties.timestamps array
-  if (!timesMs.length) {
-    const ts = props.timestamps ?? json?.timestamps;
-    if (Array.isArray(ts) && ts.length === points.length) {
-      const parsed = ts.map((v: any) => parseMaybeTime(v)).filter((v: any) => typeof v === 'number') as number[];
-      if (parsed.length === points.length) timesMs = parsed;
-    }
+async function renameLibraryEntry(entry: LibraryEntry) {
+  const label = prompt('Route name', entry.label)?.trim();
+  if (!label || label === entry.label) return;
+  await updateEntry(entry.id, { label });
+  for (const route of state.routes) {
+    if (route.libraryId === entry.id) route.meta = { ...route.meta, label };
   }
+  refreshSummary();
+  refreshLibrary();
+}
 
-  return { points, meta, timesMs };
+async function tagLibraryEntry(entry: LibraryEntry) {
+  const text = prompt('Tags, separated by commas', entry.tags.join(', '));
+  if (text == null) return;
+  const tags = [...new Set(text.split(',').map(t => t.trim()).filter(Boolean))];
+  await updateEntry(entry.id, { tags });
+  refreshLibrary();
 }
 
-function getFirstFeature(json: AnyGeo): AnyGeo | undefined {
-  if (!json) return undefined;
-  if (json.type === 'Feature') return json;
-  if (json.type === 'FeatureCollection' && Array.isArray(json.features)) return json.features[0];
-  if (json.geometry || json.properties) return json; // loosely treat as Feature-like
-  return undefined;
+async function deleteLibraryEntry(entry: LibraryEntry) {
+  if (!confirm(`Delete “${entry.label}” from the library? Routes open on the map stay open.`)) return;
+  await deleteEntry(entry.id);
+  for (const route of state.routes) {
+    if (route.libraryId === entry.id) route.libraryId = undefined;
+  }
+  savePrefs();
+  refreshLibrary();
 }
 
-function clearLayers() {
-  if (!state.layers) return;
-  state.layers.segments.clearLayers();
-  state.layers.points.clearLayers();
-  state.layers.arrows.clearLayers();
-  state.layers.markers.clearLayers();
+function setLibraryStatus(text: string) {
+  document.getElementById('library_status')!.textContent = text;
 }
 
-function renderRoute() {
-  if (!state.map || !state.layers || !state.points.length) return;
-  clearLayers();
+async function refreshLibrary() {
+  const list = document.getElementById('library_list')!;
+  let entries: LibraryEntry[];
+  try {
+    entries = await listEntries();
+  } catch (e) {
+    list.innerHTML = '';
+    setLibraryStatus(`unavailable (${(e as Error).message})`);
+    return;
+  }
+  const filter = (document.getElementById('library_filter') as HTMLInputElement).value.trim().toLowerCase();
+  const shown = filter
+    ? entries.filter(e => [e.label, e.source, ...e.tags].some(t => t.toLowerCase().includes(filter)))
+    : entries;
+  setLibraryStatus(filter ? `${shown.length} of ${entries.length}` : String(entries.length));
+  list.innerHTML = '';
+  for (const entry of shown) {
+    const li = document.createElement('li');
+    if (state.routes.some(r => r.libraryId === entry.id)) li.className = 'open';
+    li.title = `${entry.source} — click to open`;
+
+    const thumb = document.createElement('div');
+    thumb.className = 'thumb';
+    thumb.innerHTML = thumbnailSvg(entry);
+
+    const info = document.createElement('div');
+    info.className = 'info';
+    const name = document.createElement('div');
+    name.className = 'name';
+    name.textContent = entry.label;
+    for (const tag of entry.tags) {
+      const span = document.createElement('span');
+      span.className = 'tag';
+      span.textContent = tag;
+      name.append(span);
+    }
+    const details = document.createElement('div');
+    details.className = 'muted';
+    details.textContent = [
+      new Date(entry.startMs ?? entry.savedMs).toLocaleDateString([], { timeZone: state.timeZone }),
+      formatDistance(entry.distanceM, state.unitSystem).text,
+      formatDuration(entry.durationS),
+    ].join(' · ');
+    info.append(name, details);
+
+    const actions = document.createElement('div');
+    actions.className = 'actions';
+    const action = (text: string, title: string, fn: (entry: LibraryEntry) => Promise<void>) => {
+      const btn = document.createElement('button');
+      btn.className = 'icon-btn';
+      btn.textContent = text;
+      btn.title = title;
+      btn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        fn(entry).catch(err => alert(`Library error: ${(err as Error).message}`));
+      });
+      actions.append(btn);
+    };
+    action('✎', 'Rename', renameLibraryEntry);
+    action('#', 'Edit tags', tagLibraryEntry);
+    action('✕', 'Delete from library', deleteLibraryEntry);
+
+    li.append(thumb, info, actions);
+    li.addEventListener('click', () => {
+      openFromLibrary(entry).catch(err => alert(`Library error: ${(err as Error).message}`));
+    });
+    list.appendChild(li);
+  }
+}
 
-  const { points, segSpeedsMps, cumDistM, timesMs } = state;
-  const maxMps = state.stats?.maxMps ?? 1;
+function thumbnailSvg(entry: LibraryEntry): string {
+  // Sketch of the route fitted into its bounding box, longitudes shrunk by cos(latitude)
+  const W = 48;
+  const H = 36;
+  const [minLat, minLon, maxLat, maxLon] = entry.bbox;
+  const kx = Math.cos(((minLat + maxLat) / 2) * Math.PI / 180);
+  const w = Math.max((maxLon - minLon) * kx, 1e-9);
+  const h = Math.max(maxLat - minLat, 1e-9);
+  const scale = Math.min((W - 4) / w, (H - 4) / h);
+  const ox = (W - w * scale) / 2;
+  const oy = (H - h * scale) / 2;
+  const pts = entry.thumb
+    .map(([lat, lon]) => `${(ox + (lon - minLon) * kx * scale).toFixed(1)},${(H - oy - (lat - minLat) * scale).toFixed(1)}`)
+    .join(' ');
+  return `<svg width="${W}" height="${H}" viewBox="0 0 ${W} ${H}"><polyline points="${pts}" fill="none" stroke="#4da3ff" stroke-width="1.5" /></svg>`;
+}
 
-  // Segment-colored polyline
-  for (let i = 0; i < points.length - 1; i++) {
-    const p1 = points[i];
-    const p2 = points[i + 1];
-    const col = speedColor(segSpeedsMps[i] ?? 0, maxMps);
-    const line = L.polyline([
-      L.latLng(p1.lat, p1.lon),
-      L.latLng(p2.lat, p2.lon),
-    ], { color: col, weight: 5, opacity: 0.9 });
-    line.addTo(state.layers.segments);
-  }
+function buildRoute(parsed: ParsedRoute, source: string): Route {
+  const id = state.nextId++;
+  const route = {
+    id,
+    source,
+    color: ROUTE_COLORS[(id - 1) % ROUTE_COLORS.length],
+    visible: true,
+    parsed,
+    timeModel: 'distance' as TimeReconstruction,
+    cleaning: { ...DEFAULT_CLEANING },
+    showRaw: false,
+    simplify: null,
+    resample: null,
+    startZone: inferTimeZone(parsed.points[0].lat, parsed.points[0].lon),
+  };
+  return { ...route, ...processRoute(parsed, processOptions(route)) };
+}
 
-  // Start (A) and End (B) markers
-  const start = points[0];
-  const end = points[points.length - 1];
-  const aIcon = L.divIcon({ html: '<div class="marker-label" style="background:#2ecc71;color:#000">A</div>', className: '', iconAnchor: [12, 12] });
-  const bIcon = L.divIcon({ html: '<div class="marker-label" style="background:#e74c3c;color:#000">B</div>', className: '', iconAnchor: [12, 12] });
-  L.marker([start.lat, start.lon], { icon: aIcon }).addTo(state.layers.markers);
-  L.marker([end.lat, end.lon], { icon: bIcon }).addTo(state.layers.markers);
+/** The route's own settings plus the app-wide stop, leg, speed-limit, zone and distance settings. */
+function processOptions(route: Pick<Route, 'timeModel' | 'cleaning' | 'simplify' | 'resample'>): ProcessOptions {
+  return {
+    timeModel: route.timeModel,
+    cleaning: route.cleaning,
+    simplify: route.simplify,
+    resample: route.resample,
+    stopOptions: state.stopOptions,
+    speedLimit: state.speedLimit,
+    limitSections: state.limitSections,
+    slopeDistance: state.slopeDistance,
+    legOptions: state.legOptions,
+    zones: state.zones,
+  };
+}
 
-  // Direction arrows at intervals by index
-  addDirectionArrows();
+function computeRoute(route: Route) {
+  // meta is left alone: the library may have renamed the route
+  const { meta, ...computed } = processRoute(route.parsed, processOptions(route));
+  Object.assign(route, computed);
+  // Point indices changed underneath the range
+  if (state.selection?.routeId === route.id) state.selection = null;
+}
 
-  // Point markers for hover/click info
-  for (let i = 0; i < points.length; i++) {
-    const p = points[i];
-    const cm = L.circleMarker([p.lat, p.lon], { radius: 3, color: '#fff', weight: 1, fillOpacity: 0.7 });
-    const segIdx = Math.min(i, segSpeedsMps.length - 1);
-    const spd = segSpeedsMps[segIdx] ?? 0;
-    const t = timesMs[i];
-    const dist = cumDistM[i];
-    const html = pointInfoHtml(i, t, dist, spd);
-    cm.bindTooltip(html, { direction: 'top', sticky: true, opacity: 0.9 });
-    cm.on('click', () => cm.bindPopup(html).openPopup());
-    cm.addTo(state.layers.points);
-  }
-
-  // Fit bounds
-  const latlngs = points.map(p => L.latLng(p.lat, p.lon));
-  const bounds = L.latLngBounds(latlngs);
-  state.map.fitBounds(bounds.pad(0.15));
+function computeStops(route: Route) {
+  const { stops, motion } = routeStops(route, state.stopOptions);
+  route.stops = stops;
+  Object.assign(route.stats, motion);
+  computeLegs(route);
+}
+
+function computeLegs(route: Route) {
+  route.legs = routeLegs(route, route.stops, state.stopOptions, state.legOptions);
+}
+
+function syncLegControls() {
+  const opts = state.legOptions;
+  (document.getElementById('legs_gap') as HTMLInputElement).value = String(opts.gapS / 60);
+  (document.getElementById('legs_stop') as HTMLInputElement).value = String(opts.stopS / 60);
+  (document.getElementById('legs_mode') as HTMLInputElement).checked = opts.byMode;
+}
+
+function applyLegControls() {
+  const gap = parseFloat((document.getElementById('legs_gap') as HTMLInputElement).value);
+  const stop = parseFloat((document.getElementById('legs_stop') as HTMLInputElement).value);
+  state.legOptions = {
+    gapS: gap > 0 ? gap * 60 : DEFAULT_LEG_OPTIONS.gapS,
+    stopS: stop > 0 ? stop * 60 : DEFAULT_LEG_OPTIONS.stopS,
+    byMode: (document.getElementById('legs_mode') as HTMLInputElement).checked,
+  };
+  syncLegControls();
+  savePrefs();
+  for (const route of state.routes) computeLegs(route);
+  renderRoutes();
+  refreshLegend();
+  refreshLegsList();
+}
+
+function syncStopControls() {
+  const opts = state.stopOptions;
+  (document.getElementById('stop_speed') as HTMLInputElement).value = (opts.maxSpeedMps * speedUnitFactor()).toFixed(1);
+  document.getElementById('stop_speed_unit')!.textContent = mpsToSpeedText(0, state.unitSystem).unit;
+  (document.getElementById('stop_radius') as HTMLInputElement).value = String(opts.radiusM);
+  (document.getElementById('stop_duration') as HTMLInputElement).value = String(opts.minDurationS);
+}
+
+function applyStopControls() {
+  const speed = parseFloat((document.getElementById('stop_speed') as HTMLInputElement).value);
+  const radius = parseFloat((document.getElementById('stop_radius') as HTMLInputElement).value);
+  const duration = parseFloat((document.getElementById('stop_duration') as HTMLInputElement).value);
+  state.stopOptions = {
+    maxSpeedMps: speed >= 0 ? speed / speedUnitFactor() : DEFAULT_STOP_OPTIONS.maxSpeedMps,
+    radiusM: radius > 0 ? radius : DEFAULT_STOP_OPTIONS.radiusM,
+    minDurationS: duration > 0 ? duration : DEFAULT_STOP_OPTIONS.minDurationS,
+  };
+  syncStopControls();
+  savePrefs();
+  for (const route of state.routes) computeStops(route);
+  renderRoutes();
+  refreshLegend();
+  refreshSummary();
+  refreshStopsList();
+  refreshLegsList();
+}
+
+function computeLimits(route: Route) {
+  Object.assign(route, routeViolations(route, state.speedLimit, state.limitSections));
+}
+
+function syncLimitControls() {
+  const opts = state.speedLimit;
+  (document.getElementById('limit_enabled') as HTMLInputElement).checked = opts.enabled;
+  (document.getElementById('limit_speed') as HTMLInputElement).value = opts.limitMps != null ? (opts.limitMps * speedUnitFactor()).toFixed(1) : '';
+  document.getElementById('limit_speed_unit')!.textContent = mpsToSpeedText(0, state.unitSystem).unit;
+  (document.getElementById('limit_tolerance') as HTMLInputElement).value = String(opts.tolerancePct);
+  (document.getElementById('limit_radius') as HTMLInputElement).value = String(opts.matchRadiusM);
+  const n = state.limitSections.length;
+  document.getElementById('limit_sections')!.textContent = n ? `${n} road sections loaded` : 'No road limits loaded';
+  (document.getElementById('limit_clear_sections') as HTMLButtonElement).disabled = !n;
+}
+
+function applyLimitControls() {
+  const speed = parseFloat((document.getElementById('limit_speed') as HTMLInputElement).value);
+  const tolerance = parseFloat((document.getElementById('limit_tolerance') as HTMLInputElement).value);
+  const radius = parseFloat((document.getElementById('limit_radius') as HTMLInputElement).value);
+  state.speedLimit = {
+    enabled: (document.getElementById('limit_enabled') as HTMLInputElement).checked,
+    // An empty limit means only loaded road sections apply
+    limitMps: speed > 0 ? speed / speedUnitFactor() : null,
+    tolerancePct: tolerance >= 0 ? tolerance : DEFAULT_SPEED_LIMIT.tolerancePct,
+    matchRadiusM: radius > 0 ? radius : DEFAULT_SPEED_LIMIT.matchRadiusM,
+  };
+  savePrefs();
+  refreshLimits();
+}
+
+function refreshLimits() {
+  syncLimitControls();
+  for (const route of state.routes) computeLimits(route);
+  renderSections();
+  renderRoutes();
+  refreshViolationsList();
+}
+
+function renderSections() {
+  // Loaded road sections, drawn faintly while the overlay is on
+  const layer = state.layers?.sections;
+  if (!layer) return;
+  layer.clearLayers();
+  if (!state.speedLimit.enabled) return;
+  for (const section of state.limitSections) {
+    const limit = mpsToSpeedText(section.limitMps, state.unitSystem).text;
+    L.polyline(section.coords.map(c => L.latLng(c.lat, c.lon)), { color: '#dfe6e9', weight: 2, opacity: 0.5, dashArray: '2 6' })
+      .bindTooltip(section.name ? `${escapeXml(section.name)}: ${limit}` : limit, { sticky: true })
+      .addTo(layer);
+  }
+}
+
+function refreshViolationsList() {
+  const tbody = document.getElementById('violations_rows')!;
+  const countEl = document.getElementById('violations_count')!;
+  const csvBtn = document.getElementById('btn_violations_csv') as HTMLButtonElement;
+  tbody.innerHTML = '';
+  const route = activeRoute();
+  csvBtn.disabled = !route?.violations.length;
+  if (!route || !state.speedLimit.enabled) {
+    countEl.textContent = route ? 'overlay off' : '';
+    return;
+  }
+  const zone = routeTimeZone(route);
+  const totalS = route.violations.reduce((a, v) => a + v.durationS, 0);
+  countEl.textContent = `${route.violations.length} · ${formatDuration(totalS)}`;
+  route.violations.forEach((v, k) => {
+    const tr = document.createElement('tr');
+    tr.title = `Limit ${mpsToSpeedText(v.limitMps, state.unitSystem).text} — click to zoom`;
+    for (const text of [
+      String(k + 1),
+      formatTimeMs(v.startMs, zone),
+      formatTimeMs(v.endMs, zone),
+      formatDistance(v.distanceM, state.unitSystem).text,
+      mpsToSpeedText(v.peakMps, state.unitSystem).text,
+      mpsToSpeedText(v.avgMps, state.unitSystem).text,
+    ]) {
+      const td = document.createElement('td');
+      td.textContent = text;
+      tr.appendChild(td);
+    }
+    tr.addEventListener('click', () => {
+      if (!route.visible) setRouteVisible(route, true);
+      fitToPoints(route.points.slice(v.startIndex, v.endIndex + 1));
+    });
+    tbody.appendChild(tr);
+  });
+}
+
+function computeZones(route: Route) {
+  route.zoneVisits = routeZoneVisits(route, state.zones);
+}
+
+function syncZoneControls() {
+  const n = state.zones.length;
+  document.getElementById('zone_count')!.textContent = n ? `${n} zones` : 'No zones';
+  (document.getElementById('zone_clear') as HTMLButtonElement).disabled = !n;
+  (document.getElementById('zone_save') as HTMLButtonElement).disabled = !n;
+  document.getElementById('zone_draw')!.textContent = state.drawingZone ? 'Finish zone' : 'Draw zone';
+  document.getElementById('zone_hint')!.classList.toggle('hidden', !state.drawingZone);
+  document.getElementById('map')!.classList.toggle('drawing', !!state.drawingZone);
+}
+
+function refreshZones() {
+  syncZoneControls();
+  for (const route of state.routes) computeZones(route);
+  renderZones();
+  refreshZonesList();
+}
+
+function startZone() {
+  state.drawingZone = [];
+  state.map?.doubleClickZoom.disable();
+  syncZoneControls();
+}
+
+function endZoneDrawing() {
+  state.drawingZone = null;
+  state.map?.doubleClickZoom.enable();
+  syncZoneControls();
+  renderZones();
+}
+
+function finishZone() {
+  // A double-click also lands as two clicks: drop the repeated corners
+  const corners = (state.drawingZone ?? []).filter((c, k, all) => !k || !c.equals(all[k - 1]));
+  endZoneDrawing();
+  if (corners.length < 3) {
+    alert('A zone needs at least three corners');
+    return;
+  }
+  const fallback = `Zone ${state.zones.length + 1}`;
+  const name = prompt('Zone name', fallback);
+  if (name === null) return;
+  state.zones = [...state.zones, { name: name.trim() || fallback, rings: [corners.map(c => ({ lat: c.lat, lon: c.lng }))], holes: [false] }];
+  savePrefs();
+  refreshZones();
+}
+
+function renderZones() {
+  const layer = state.layers?.zones;
+  if (!layer) return;
+  layer.clearLayers();
+  for (const zone of state.zones) {
+    // Leaflet takes holes nested under the outer ring before them
+    const polygons: L.LatLng[][][] = [];
+    zone.rings.forEach((ring, k) => {
+      const latlngs = ring.map(c => L.latLng(c.lat, c.lon));
+      if (zone.holes[k] && polygons.length) polygons[polygons.length - 1].push(latlngs);
+      else polygons.push([latlngs]);
+    });
+    // Under the routes, so their points stay clickable
+    L.polygon(polygons, { color: '#a29bfe', weight: 2, fillOpacity: 0.12 })
+      .bindTooltip(escapeXml(zone.name), { sticky: true })
+      .addTo(layer)
+      .bringToBack();
+  }
+  if (state.drawingZone?.length) {
+    L.polyline(state.drawingZone, { color: '#a29bfe', weight: 2, dashArray: '4 4', interactive: false }).addTo(layer);
+  }
+}
+
+function refreshZonesList() {
+  const tbody = document.getElementById('zones_rows')!;
+  const countEl = document.getElementById('zones_count')!;
+  const csvBtn = document.getElementById('btn_zones_csv') as HTMLButtonElement;
+  tbody.innerHTML = '';
+  const route = activeRoute();
+  csvBtn.disabled = !route?.zoneVisits.length;
+  if (!route || !state.zones.length) {
+    countEl.textContent = route ? 'no zones' : '';
+    return;
+  }
+  const zone = routeTimeZone(route);
+  const totalS = route.zoneVisits.reduce((a, v) => a + v.dwellS, 0);
+  countEl.textContent = `${route.zoneVisits.length} · ${formatDuration(totalS)}`;
+  route.zoneVisits.forEach((v, k) => {
+    const tr = document.createElement('tr');
+    tr.title = [
+      ...(v.startsInside ? ['Already inside at the start'] : []),
+      ...(v.endsInside ? ['Still inside at the end'] : []),
+      'Click to zoom',
+    ].join('\n');
+    for (const text of [
+      String(k + 1),
+      v.zone,
+      formatTimeMs(v.entryMs, zone) + (v.startsInside ? ' ⇤' : ''),
+      formatTimeMs(v.exitMs, zone) + (v.endsInside ? ' ⇥' : ''),
+      formatDuration(v.dwellS),
+      formatDistance(v.distanceM, state.unitSystem).text,
+    ]) {
+      const td = document.createElement('td');
+      td.textContent = text;
+      tr.appendChild(td);
+    }
+    tr.addEventListener('click', () => {
+      if (!route.visible) setRouteVisible(route, true);
+      fitToPoints(route.points.slice(v.entryIndex, v.exitIndex + 1));
+    });
+    tbody.appendChild(tr);
+  });
+}
+
+function referenceRoute(): Route | undefined {
+  return state.referenceId != null ? state.routes.find(r => r.id === state.referenceId) : undefined;
+}
+
+/** The route against the reference; recomputed only when either route or the threshold changed. */
+function routeComparison(route: Route): Comparison | null {
+  const reference = referenceRoute();
+  if (!reference || reference === route) return null;
+  const { maxDeviationM } = state.compareOptions;
+  const cached = route.comparison;
+  if (cached?.cumDistM === route.cumDistM && cached.referenceCumDistM === reference.cumDistM && cached.maxDeviationM === maxDeviationM) {
+    return cached.result;
+  }
+  const result = compareRoutes(route, reference, state.compareOptions);
+  route.comparison = { cumDistM: route.cumDistM, referenceCumDistM: reference.cumDistM, maxDeviationM, result };
+  return result;
+}
+
+/** Time behind (+) or ahead (−) of the reference. */
+function deltaText(seconds: number): string {
+  return isFinite(seconds) ? `${seconds < 0 ? '−' : '+'}${formatDuration(Math.abs(seconds))}` : '—';
+}
+
+function syncCompareControls() {
+  const select = document.getElementById('compare_ref') as HTMLSelectElement;
+  select.innerHTML = '';
+  select.appendChild(new Option('None', ''));
+  for (const route of state.routes) select.appendChild(new Option(routeLabel(route), String(route.id)));
+  select.value = referenceRoute() ? String(state.referenceId) : '';
+  (document.getElementById('compare_max') as HTMLInputElement).value = String(state.compareOptions.maxDeviationM);
+}
+
+function refreshComparison() {
+  syncCompareControls();
+  renderRoutes();
+  refreshChart();
+}
+
+function refreshDeviationsList() {
+  const tbody = document.getElementById('deviations_rows')!;
+  const countEl = document.getElementById('deviations_count')!;
+  const csvBtn = document.getElementById('btn_compare_csv') as HTMLButtonElement;
+  tbody.innerHTML = '';
+  const route = activeRoute();
+  const comparison = route ? routeComparison(route) : null;
+  csvBtn.disabled = !comparison;
+  if (!route || !comparison) {
+    countEl.textContent = !route ? '' : route === referenceRoute() ? 'this is the reference' : 'no reference';
+    return;
+  }
+  const zone = routeTimeZone(route);
+  const deltas = comparison.deltaS.filter(v => isFinite(v));
+  countEl.textContent = `${comparison.deviations.length} · ${deltaText(deltas[deltas.length - 1] ?? NaN)} at the end`;
+  comparison.deviations.forEach((d, k) => {
+    const tr = document.createElement('tr');
+    tr.title = 'Click to zoom';
+    for (const text of [
+      String(k + 1),
+      formatTimeMs(d.startMs, zone),
+      formatTimeMs(d.endMs, zone),
+      formatDistance(d.distanceM, state.unitSystem).text,
+      formatDistance(d.maxOffsetM, state.unitSystem).text,
+    ]) {
+      const td = document.createElement('td');
+      td.textContent = text;
+      tr.appendChild(td);
+    }
+    tr.addEventListener('click', () => {
+      if (!route.visible) setRouteVisible(route, true);
+      fitToPoints(route.points.slice(d.startIndex, d.endIndex + 1));
+    });
+    tbody.appendChild(tr);
+  });
+}
+
+function refreshStopsList() {
+  const tbody = document.getElementById('stops_rows')!;
+  const countEl = document.getElementById('stops_count')!;
+  tbody.innerHTML = '';
+  const route = activeRoute();
+  if (!route) {
+    countEl.textContent = '';
+    return;
+  }
+  const { stoppedTimeS } = route.stats;
+  const zone = routeTimeZone(route);
+  countEl.textContent = `${route.stops.length} · ${formatDuration(stoppedTimeS)} stopped · ${timeZoneAbbr(route.timesMs[0], zone)}`;
+  route.stops.forEach((stop, k) => {
+    const tr = document.createElement('tr');
+    tr.title = `${stop.lat.toFixed(5)}, ${stop.lon.toFixed(5)} — click to zoom`;
+    for (const text of [
+      String(k + 1),
+      formatTimeMs(stop.startMs, zone),
+      formatTimeMs(stop.endMs, zone),
+      formatDuration(stop.durationS),
+    ]) {
+      const td = document.createElement('td');
+      td.textContent = text;
+      tr.appendChild(td);
+    }
+    tr.addEventListener('click', () => {
+      if (!route.visible) setRouteVisible(route, true);
+      fitToPoints(route.points.slice(stop.startIndex, stop.endIndex + 1));
+    });
+    tbody.appendChild(tr);
+  });
+}
+
+function refreshLegsList() {
+  const tbody = document.getElementById('legs_rows')!;
+  const countEl = document.getElementById('legs_count')!;
+  tbody.innerHTML = '';
+  const route = activeRoute();
+  if (!route) {
+    countEl.textContent = '';
+    return;
+  }
+  const zone = routeTimeZone(route);
+  countEl.textContent = String(route.legs.length);
+  route.legs.forEach((leg, k) => {
+    const { stats } = leg;
+    const tr = document.createElement('tr');
+    tr.title = [
+      `${formatTimeMs(leg.startMs, zone)} – ${formatTimeMs(leg.endMs, zone)}`,
+      `Moving ${formatDuration(stats.movingTimeS)}, stopped ${formatDuration(stats.stoppedTimeS)}`,
+      `Max ${mpsToSpeedText(stats.maxMps, state.unitSystem).text}`,
+      ...(isFinite(stats.ascentM) ? [`↑ ${formatElevation(stats.ascentM, state.unitSystem)} ↓ ${formatElevation(stats.descentM, state.unitSystem)}`] : []),
+      `After ${LEG_BREAK_TEXT[leg.after]} — click to zoom and select`,
+    ].join('\n');
+    const swatch = `<span class="swatch" style="background:${LEG_COLORS[k % LEG_COLORS.length]}"></span>`;
+    for (const html of [
+      `${swatch}${k + 1}`,
+      TRAVEL_MODE_NAMES[leg.mode],
+      formatTimeMs(leg.startMs, zone),
+      formatDuration(stats.durationS),
+      formatDistance(stats.totalDistM, state.unitSystem).text,
+      mpsToSpeedText(stats.avgMps, state.unitSystem).text,
+    ]) {
+      const td = document.createElement('td');
+      td.innerHTML = html;
+      tr.appendChild(td);
+    }
+    const exportCell = document.createElement('td');
+    const exportBtn = document.createElement('button');
+    exportBtn.className = 'icon-btn';
+    exportBtn.textContent = '⤓';
+    exportBtn.title = 'Export this leg';
+    exportBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      exportLeg(route, leg, k);
+    });
+    exportCell.appendChild(exportBtn);
+    tr.appendChild(exportCell);
+    tr.addEventListener('click', () => {
+      if (!route.visible) setRouteVisible(route, true);
+      state.selection = { routeId: route.id, start: leg.startIndex, end: leg.endIndex, open: false };
+      renderSelection();
+      syncEditControls();
+      fitToPoints(route.points.slice(leg.startIndex, leg.endIndex + 1));
+    });
+    tbody.appendChild(tr);
+  });
+}
+
+const LEG_BREAK_TEXT: Record<RouteLeg['after'], string> = {
+  start: 'the start of the recording',
+  gap: 'a time gap',
+  stop: 'a long stop',
+  mode: 'a change of travel mode',
+};
+
+function activeRoute(): Route | undefined {
+  return state.routes.find(r => r.id === state.activeId);
+}
+
+function routeLabel(route: Route): string {
+  return route.meta.label ?? route.source;
+}
+
+function timeSourceText(route: Route): string {
+  const filled = route.points.filter(p => p.timeFill).length;
+  if (filled) return `${TIME_SOURCE_NAMES[route.timeSource]}, ${filled} filled`;
+  if (route.timeSource !== 'reconstructed' || route.parsed.timesMs.length) return TIME_SOURCE_NAMES[route.timeSource];
+  return `${TIME_SOURCE_NAMES.reconstructed} (${TIME_MODEL_NAMES[route.timeModel]})`;
+}
+
+function syncTimeModelControl() {
+  const route = activeRoute();
+  const select = document.getElementById('time_model') as HTMLSelectElement;
+  select.value = route?.timeModel ?? 'distance';
+  // Only routes without usable times in the input can be reconstructed
+  select.disabled = !route || route.parsed.timesMs.length > 0;
+}
 
+function speedUnitFactor(): number {
+  // Display speed units per m/s
+  return mpsToSpeedText(1, state.unitSystem).value;
+}
+
+function syncCleaningControls() {
+  const route = activeRoute();
+  const opts = route?.cleaning ?? DEFAULT_CLEANING;
+  const byId = <T extends HTMLElement>(id: string) => document.getElementById(id) as T;
+  byId<HTMLInputElement>('clean_enabled').checked = opts.enabled;
+  byId<HTMLInputElement>('clean_dupes').checked = opts.collapseDuplicates;
+  byId<HTMLInputElement>('clean_maxspd').value = opts.maxSpeedMps != null ? (opts.maxSpeedMps * speedUnitFactor()).toFixed(0) : '';
+  byId<HTMLElement>('clean_maxspd_unit').textContent = mpsToSpeedText(0, state.unitSystem).unit;
+  byId<HTMLSelectElement>('clean_smoother').value = opts.smoother;
+  byId<HTMLInputElement>('clean_window').value = String(opts.windowSize);
+  byId<HTMLInputElement>('clean_noise').value = String(opts.kalmanNoiseM);
+  byId<HTMLInputElement>('clean_overlay').checked = !!route?.showRaw;
+  for (const id of ['clean_enabled', 'clean_dupes', 'clean_maxspd', 'clean_smoother', 'clean_window', 'clean_noise', 'clean_overlay']) {
+    byId<HTMLInputElement>(id).disabled = !route || (id !== 'clean_enabled' && !opts.enabled);
+  }
+}
+
+function applyCleaningControls() {
+  const route = activeRoute();
+  if (!route) return;
+  const byId = (id: string) => document.getElementById(id) as HTMLInputElement;
+  const maxSpd = parseFloat(byId('clean_maxspd').value);
+  const windowSize = parseInt(byId('clean_window').value, 10);
+  const noise = parseFloat(byId('clean_noise').value);
+  route.cleaning = {
+    enabled: byId('clean_enabled').checked,
+    collapseDuplicates: byId('clean_dupes').checked,
+    maxSpeedMps: maxSpd > 0 ? maxSpd / speedUnitFactor() : null,
+    smoother: (document.getElementById('clean_smoother') as HTMLSelectElement).value as Smoother,
+    windowSize: windowSize > 0 ? windowSize : DEFAULT_CLEANING.windowSize,
+    kalmanNoiseM: noise > 0 ? noise : DEFAULT_CLEANING.kalmanNoiseM,
+  };
+  route.showRaw = byId('clean_overlay').checked;
+  computeRoute(route);
+  renderRoutes();
+  refreshSummary();
   refreshLegend();
+  refreshChart();
+  syncCleaningControls();
+}
+
+function removedText(route: Route): string {
+  if (!route.cleaned) return '—';
+  const removed = route.cleaned.removed;
+  const spikes = removed.filter(r => r.reason === 'spike').length;
+  return `${removed.length} (${spikes} spikes, ${removed.length - spikes} dupes)`;
+}
+
+function simplifyControlOptions(): SimplifyOptions | null {
+  const method = (document.getElementById('simplify_method') as HTMLSelectElement).value as SimplifyMethod | '';
+  const toleranceM = parseFloat((document.getElementById('simplify_tol') as HTMLInputElement).value);
+  document.getElementById('simplify_tol_text')!.textContent = `${toleranceM} m`;
+  return method ? { method, toleranceM } : null;
+}
+
+function simplifyReportText(report: SimplifyReport, total: number): string {
+  const pct = total ? ((report.removedCount / total) * 100).toFixed(0) : '0';
+  return `Removes ${report.removedCount} of ${total} points (${pct}%) · ` +
+    `distance ${formatDistance(report.lengthErrorM, state.unitSystem).text} · ` +
+    `max deviation ${report.maxDeviationM.toFixed(1)} m`;
+}
+
+/** Shows what the current tolerance would do without re-rendering the route. */
+function previewSimplify() {
+  const route = activeRoute();
+  const out = document.getElementById('simplify_preview')!;
+  const opts = simplifyControlOptions();
+  if (!route || !opts) {
+    out.textContent = route?.simplified ? '' : 'Pick a method to simplify the active route';
+    return;
+  }
+  const { points } = baseSeries(route.parsed, processOptions(route));
+  out.textContent = simplifyReportText(simplifyReport(points, simplifyIndices(points, opts)), points.length);
+}
+
+function applySimplifyControls() {
+  const route = activeRoute();
+  if (!route) return;
+  route.simplify = simplifyControlOptions();
+  computeRoute(route);
+  renderRoutes();
+  refreshSummary();
+  refreshLegend();
+  refreshChart();
+  syncSimplifyControls();
+}
+
+function syncSimplifyControls() {
+  const route = activeRoute();
+  const methodEl = document.getElementById('simplify_method') as HTMLSelectElement;
+  const tolEl = document.getElementById('simplify_tol') as HTMLInputElement;
+  methodEl.disabled = tolEl.disabled = !route;
+  methodEl.value = route?.simplify?.method ?? '';
+  if (route?.simplify) tolEl.value = String(route.simplify.toleranceM);
+  simplifyControlOptions();
+  const out = document.getElementById('simplify_preview')!;
+  out.textContent = route?.simplified
+    ? simplifyReportText(route.simplified, route.simplified.kept.length + route.simplified.removedCount)
+    : 'Pick a method to simplify the active route';
+}
+
+function resampleText(opts: ResampleOptions): string {
+  return `${opts.step} ${opts.mode === 'time' ? 's' : 'm'} ${opts.method}`;
+}
+
+function syncResampleControls() {
+  const route = activeRoute();
+  const modeEl = document.getElementById('resample_mode') as HTMLSelectElement;
+  const stepEl = document.getElementById('resample_step') as HTMLInputElement;
+  const methodEl = document.getElementById('resample_method') as HTMLSelectElement;
+  modeEl.disabled = !route;
+  modeEl.value = route?.resample?.mode ?? '';
+  if (route?.resample) {
+    stepEl.value = String(route.resample.step);
+    methodEl.value = route.resample.method;
+  }
+  stepEl.disabled = methodEl.disabled = !route?.resample;
+}
+
+function applyResampleControls() {
+  const route = activeRoute();
+  if (!route) return;
+  const mode = (document.getElementById('resample_mode') as HTMLSelectElement).value;
+  const step = parseFloat((document.getElementById('resample_step') as HTMLInputElement).value);
+  const method = (document.getElementById('resample_method') as HTMLSelectElement).value as InterpolationMethod;
+
+  let opts: ResampleOptions | null = null;
+  if (mode === 'time' || mode === 'distance') {
+    if (!(step > 0)) {
+      alert('Resampling step must be a positive number');
+      syncResampleControls();
+      return;
+    }
+    opts = { mode, step, method };
+    const count = resampleSampleCount(route.timesMs, route.cumDistM, opts);
+    if (count > MAX_RESAMPLED_POINTS) {
+      alert(`A ${resampleText(opts)} step would produce ${count} points (limit ${MAX_RESAMPLED_POINTS}). Use a larger step.`);
+      syncResampleControls();
+      return;
+    }
+  }
+
+  route.resample = opts;
+  computeRoute(route);
+  renderRoutes();
+  refreshSummary();
+  refreshLegend();
+  refreshChart();
+}
+
+/** Segment colors share one scale across visible routes so they can be compared. */
+function sharedColorScale(): ColorScale {
+  const values: number[] = [];
+  for (const route of state.routes) {
+    // Not spread into push: long routes overflow the argument limit
+    if (route.visible) for (const v of segmentMetric(state.colorMode, route)) values.push(v);
+  }
+  return colorScale(state.colorMode, values, state.colorClipPct);
+}
+
+function metricText(mode: ColorMode, v: number): string {
+  switch (mode) {
+    case 'speed': return mpsToSpeedText(v, state.unitSystem).text;
+    case 'acceleration': return `${v.toFixed(2)} m/s²`;
+    case 'bearing-change': return `${v.toFixed(0)}°`;
+    case 'time-gap': return v < 60 ? `${v.toFixed(1)} s` : formatDuration(v);
+    case 'elevation': return formatElevation(v, state.unitSystem);
+    case 'grade': return `${v.toFixed(1)}%`;
+    case 'leg': return `Leg ${Math.round(v) + 1}`;
+  }
+}
+
+function syncColorModeControl() {
+  // Elevation modes only make sense once some route carries elevation
+  const withEle = state.routes.some(r => hasElevation(r.points));
+  const select = document.getElementById('color_mode') as HTMLSelectElement;
+  // The heatmap has its own colors
+  select.disabled = !!state.heatmap;
+  (document.getElementById('color_clip') as HTMLSelectElement).disabled = !!state.heatmap;
+  for (const opt of Array.from(select.options)) {
+    if (opt.value === 'elevation' || opt.value === 'grade') opt.disabled = !withEle;
+  }
+  if (!withEle && (state.colorMode === 'elevation' || state.colorMode === 'grade')) {
+    state.colorMode = 'speed';
+    renderRoutes();
+    refreshLegend();
+  }
+  select.value = state.colorMode;
+}
+
+/** Speed colors share one scale across visible routes so they can be compared. */
+function sharedMaxMps(): number {
+  const visible = state.routes.filter(r => r.visible);
+  return visible.length ? Math.max(...visible.map(r => r.stats.maxMps)) : 0;
+}
+
+function setActiveRoute(route: Route) {
+  state.activeId = route.id;
+  state.selectedIndex = null;
+  state.selection = null;
+  renderSelection();
+  highlightPoint(null);
+  writeShareHash(false);
+  refreshSummary();
+  refreshLegend();
+  refreshChart();
+  syncTimeModelControl();
+  syncCleaningControls();
+  syncSimplifyControls();
+  syncResampleControls();
+  syncTimeZoneControls();
+}
+
+function setRouteVisible(route: Route, visible: boolean) {
+  route.visible = visible;
+  // Shared color scale may have changed, so redraw everything
+  renderRoutes();
+  refreshLegend();
+  syncPlayback();
+}
+
+function removeRoute(route: Route) {
+  unlinkRoute(route);
+  // Edits involving the route can't be replayed any more
+  state.undo = state.undo.filter(e => !e.routes.includes(route));
+  state.redo = state.redo.filter(e => !e.routes.includes(route));
+  renderRoutes();
+  refreshSummary();
+  refreshLegend();
+  refreshChart();
+  refreshButtons();
+  savePrefs();
+  refreshLibrary();
+  writeShareHash(false);
+}
+
+function clearRoutes() {
+  for (const route of state.routes) {
+    if (route.layers) state.map?.removeLayer(route.layers.group);
+  }
+  state.routes = [];
+  state.activeId = null;
+  state.selectedIndex = null;
+  state.selection = null;
+  state.undo = [];
+  state.redo = [];
+  renderRoutes();
+  highlightPoint(null);
+  refreshSummary();
+  refreshChart();
+  refreshButtons();
+  savePrefs();
+  refreshLibrary();
+  writeShareHash(false);
+}
+
+/** Takes a route off the map and out of the session, without touching the edit history. */
+function unlinkRoute(route: Route) {
+  if (route.layers) state.map?.removeLayer(route.layers.group);
+  state.routes = state.routes.filter(r => r !== route);
+  if (state.activeId === route.id) {
+    state.activeId = state.routes[0]?.id ?? null;
+    state.selectedIndex = null;
+  }
+}
+
+/** A clicked point while picking: the first sets the range start, the next its end. */
+function pickRangePoint(route: Route, index: number) {
+  const sel = state.selection;
+  if (sel?.routeId === route.id && sel.open) {
+    state.selection = { routeId: route.id, start: Math.min(sel.start, index), end: Math.max(sel.start, index), open: false };
+  } else {
+    state.selection = { routeId: route.id, start: index, end: index, open: true };
+  }
+  renderSelection();
 }
 
-function addDirectionArrows() {
-  if (!state.layers) return;
-  const { points } = state;
+/** Draws the range with a drag handle at each end; dragging snaps to the nearest point of the route. */
+function renderSelection() {
+  const layer = state.layers?.selection;
+  const route = activeRoute();
+  const sel = state.selection;
+  layer?.clearLayers();
+  syncEditControls();
+  if (!layer || !route?.visible || sel?.routeId !== route.id) return;
+
+  const section = L.polyline(route.points.slice(sel.start, sel.end + 1).map(p => L.latLng(p.lat, p.lon)), {
+    color: '#fff', weight: 11, opacity: 0.45, interactive: false,
+  }).addTo(layer);
+  const ends = sel.open ? (['start'] as const) : (['start', 'end'] as const);
+  for (const end of ends) {
+    const p = route.points[sel[end]];
+    const icon = L.divIcon({ html: `<div class="marker-label range-handle">${end === 'start' ? '[' : ']'}</div>`, className: '', iconAnchor: [12, 12] });
+    const handle = L.marker([p.lat, p.lon], { icon, draggable: true, zIndexOffset: 500 }).addTo(layer);
+    handle.on('drag', () => {
+      const ll = handle.getLatLng();
+      const i = nearestPointIndex(route, ll.lat, ll.lng);
+      if (i < 0) return;
+      sel[end] = i;
+      const [a, b] = sel.start <= sel.end ? [sel.start, sel.end] : [sel.end, sel.start];
+      section.setLatLngs(route.points.slice(a, b + 1).map(q => L.latLng(q.lat, q.lon)));
+    });
+    handle.on('dragend', () => {
+      if (sel.start > sel.end) [sel.start, sel.end] = [sel.end, sel.start];
+      renderSelection();
+    });
+  }
+}
+
+function syncEditControls() {
+  const route = activeRoute();
+  const sel = state.selection?.routeId === route?.id ? state.selection : null;
+  const byId = (id: string) => document.getElementById(id) as HTMLButtonElement;
+  const rangeText = document.getElementById('edit_range');
+  if (!rangeText) return;
+  if (route && sel && !sel.open) {
+    const dist = formatDistance(route.cumDistM[sel.end] - route.cumDistM[sel.start], state.unitSystem).text;
+    rangeText.textContent = `#${sel.start}–#${sel.end} · ${dist} · ${formatDuration((route.timesMs[sel.end] - route.timesMs[sel.start]) / 1000)}`;
+  } else {
+    rangeText.textContent = sel ? `from #${sel.start}, pick the last point` : 'No range';
+  }
+  byId('edit_range_clear').disabled = !sel;
+  byId('edit_trim').disabled = !sel || sel.open || sel.end <= sel.start;
+  byId('edit_split').disabled = !route || state.selectedIndex == null;
+  (document.getElementById('edit_pick') as HTMLInputElement).checked = state.pickingRange;
+  const undo = state.undo[state.undo.length - 1];
+  const redo = state.redo[state.redo.length - 1];
+  byId('edit_undo').disabled = !undo;
+  byId('edit_undo').title = undo ? `Undo ${undo.label} (Ctrl+Z)` : 'Nothing to undo';
+  byId('edit_redo').disabled = !redo;
+  byId('edit_redo').title = redo ? `Redo ${redo.label} (Ctrl+Shift+Z)` : 'Nothing to redo';
+}
+
+function trimToSelection() {
+  const route = activeRoute();
+  const sel = state.selection;
+  if (!route || sel?.routeId !== route.id || sel.open || sel.end <= sel.start) return;
+  const before = route.parsed;
+  const after = trimParsed(route.parsed, route, sel.start, sel.end);
+  applyEdit({
+    label: 'trim',
+    routes: [route],
+    redo: () => { route.parsed = after; computeRoute(route); },
+    undo: () => { route.parsed = before; computeRoute(route); },
+  });
+}
+
+function splitAtSelectedPoint() {
+  const route = activeRoute();
+  if (!route || state.selectedIndex == null) return;
+  const parts = splitParsed(route.parsed, route, state.selectedIndex);
+  if (!parts) {
+    alert('Pick a point inside the route to split at, not one of its ends.');
+    return;
+  }
+  const before = { parsed: route.parsed, meta: route.meta };
+  const base = routeLabel(route);
+  const second = buildRoute(parts[1], route.source);
+  Object.assign(second, { timeModel: route.timeModel, cleaning: { ...route.cleaning }, simplify: route.simplify, resample: route.resample });
+  computeRoute(second);
+  second.meta = { ...second.meta, label: `${base} (2)` };
+  applyEdit({
+    label: 'split',
+    routes: [route, second],
+    redo: () => {
+      route.parsed = parts[0];
+      route.meta = { ...before.meta, label: `${base} (1)` };
+      computeRoute(route);
+      state.routes.splice(state.routes.indexOf(route) + 1, 0, second);
+    },
+    undo: () => {
+      unlinkRoute(second);
+      route.parsed = before.parsed;
+      route.meta = before.meta;
+      computeRoute(route);
+    },
+  });
+}
+
+function applyEdit(edit: Edit) {
+  edit.redo();
+  state.undo.push(edit);
+  state.redo = [];
+  refreshAfterEdit();
+  persistEdit(edit);
+}
+
+function undoEdit() {
+  const edit = state.undo.pop();
+  if (!edit) return;
+  edit.undo();
+  state.redo.push(edit);
+  refreshAfterEdit();
+  persistEdit(edit);
+}
+
+function redoEdit() {
+  const edit = state.redo.pop();
+  if (!edit) return;
+  edit.redo();
+  state.undo.push(edit);
+  refreshAfterEdit();
+  persistEdit(edit);
+}
+
+/**
+ * Writes the routes an edit touched back to the library, so they reopen as edited. A part
+ * split off a saved route gets an entry of its own, dropped again when the split is undone.
+ */
+async function persistEdit(edit: Edit) {
+  const saved = !!edit.routes[0].libraryId;
+  try {
+    for (const route of edit.routes) {
+      const stats = { distanceM: route.stats.totalDistM, durationS: route.stats.durationS };
+      if (!state.routes.includes(route)) {
+        if (route.libraryId) await deleteEntry(route.libraryId);
+        route.libraryId = undefined;
+      } else if (route.libraryId) {
+        await updateTrack(route.libraryId, route.parsed, routeLabel(route), stats);
+      } else if (saved) {
+        route.libraryId = await saveRoute(route.parsed, route.source, stats);
+        await updateEntry(route.libraryId, { label: routeLabel(route) });
+      }
+    }
+  } catch (e) {
+    setLibraryStatus(`edit not saved (${(e as Error).message})`);
+  }
+  savePrefs();
+  refreshLibrary();
+}
+
+function refreshAfterEdit() {
+  state.selectedIndex = null;
+  highlightPoint(null);
+  renderRoutes();
+  refreshSummary();
+  refreshLegend();
+  refreshChart();
+  refreshButtons();
+  savePrefs();
+  writeShareHash(false);
+}
+
+/** What the export buttons write: the active route, or just its selected range. */
+function exportTarget(): Route | undefined {
+  const route = activeRoute();
+  const sel = state.selection;
+  if (!route || !state.exportRange || sel?.routeId !== route.id || sel.open || sel.end <= sel.start) return route;
+  const { meta, ...computed } = processRoute(trimParsed(route.parsed, route, sel.start, sel.end), processOptions(route));
+  return { ...route, ...computed };
+}
+
+function refreshButtons() {
+  const hasActive = !!activeRoute();
+  (document.getElementById('btn_csv') as HTMLButtonElement).disabled = !hasActive;
+  (document.getElementById('btn_gpx') as HTMLButtonElement).disabled = !hasActive;
+  (document.getElementById('btn_geojson') as HTMLButtonElement).disabled = !hasActive;
+  (document.getElementById('btn_kml') as HTMLButtonElement).disabled = !hasActive;
+  (document.getElementById('btn_polyline') as HTMLButtonElement).disabled = !hasActive;
+  (document.getElementById('btn_clear') as HTMLButtonElement).disabled = !state.routes.length;
+  syncColorModeControl();
+  syncTimeModelControl();
+  syncCleaningControls();
+  syncSimplifyControls();
+  syncResampleControls();
+  syncTimeZoneControls();
+  syncEditControls();
+  syncCompareControls();
+}
+
+function ensureRouteLayers(route: Route): RouteLayers {
+  if (!route.layers) {
+    const raw = L.layerGroup();
+    const segments = L.layerGroup();
+    const points = L.layerGroup();
+    const arrows = L.layerGroup();
+    const markers = L.layerGroup();
+    const stops = L.layerGroup();
+    const limits = L.layerGroup();
+    const deviations = L.layerGroup();
+    const group = L.layerGroup([raw, limits, deviations, segments, points, arrows, markers, stops]);
+    route.layers = { group, raw, segments, points, arrows, markers, stops, limits, deviations };
+  }
+  return route.layers;
+}
+
+function clearLayers(layers: RouteLayers) {
+  layers.raw.clearLayers();
+  layers.segments.clearLayers();
+  layers.points.clearLayers();
+  layers.arrows.clearLayers();
+  layers.markers.clearLayers();
+  layers.stops.clearLayers();
+  layers.limits.clearLayers();
+  layers.deviations.clearLayers();
+}
+
+function renderRoutes() {
+  const scale = sharedColorScale();
+  for (const route of state.routes) renderRoute(route, scale);
+  renderTrackCanvas(scale);
+  renderSelection();
+}
+
+/** Long routes as canvas tracks, or every visible route as the heatmap. */
+function renderTrackCanvas(scale: ColorScale) {
+  const weight = state.heatmap;
+  state.trackCanvas?.setData({
+    tracks: canvasRoutes().map(route => ({
+      points: route.points,
+      colors: segmentMetric(scale.mode, route).map(v => metricColor(v, scale)),
+      pointColor: route.color,
+    })),
+    heat: weight ? state.routes.filter(r => r.visible).map(r => ({ points: r.points, weights: pointWeights(r.timesMs, weight) })) : [],
+  });
+}
+
+/** Routes on the track canvas, in the order it was given them. */
+function canvasRoutes(): Route[] {
+  return state.heatmap ? [] : state.routes.filter(r => r.visible && r.points.length >= CANVAS_MIN_POINTS);
+}
+
+function canvasPointAt(at: L.Point): { route: Route; index: number } | null {
+  const hit = state.trackCanvas?.nearest(at, HOVER_PX);
+  const route = hit && canvasRoutes()[hit.track];
+  return route ? { route, index: hit.index } : null;
+}
+
+function renderRoute(route: Route, scale: ColorScale) {
+  if (!state.map || !route.points.length) return;
+  const layers = ensureRouteLayers(route);
+  clearLayers(layers);
+  if (!route.visible) {
+    state.map.removeLayer(layers.group);
+    return;
+  }
+  layers.group.addTo(state.map);
+
+  const { points, segSpeedsMps } = route;
+
+  // Before/after cleaning: the raw track dashed underneath, removed points in red
+  if (route.showRaw && route.cleaned) {
+    const raw = route.parsed.points;
+    L.polyline(raw.map(p => L.latLng(p.lat, p.lon)), { color: '#9aa4ad', weight: 2, opacity: 0.8, dashArray: '4 4' })
+      .addTo(layers.raw);
+    for (const { index, reason } of route.cleaned.removed) {
+      const p = raw[index];
+      L.circleMarker([p.lat, p.lon], { radius: 4, color: '#e74c3c', weight: 2, fillOpacity: 0.2 })
+        .bindTooltip(`Removed #${index} (${reason})`, { direction: 'top' })
+        .addTo(layers.raw);
+    }
+  }
+
+  // Speed-limit halo under the segments: amber within tolerance, red beyond it
+  if (state.speedLimit.enabled) {
+    for (let i = 0; i < points.length - 1; i++) {
+      const level = limitLevel(segSpeedsMps[i] ?? 0, route.limits[i], state.speedLimit.tolerancePct);
+      if (level === 'ok') continue;
+      L.polyline([L.latLng(points[i].lat, points[i].lon), L.latLng(points[i + 1].lat, points[i + 1].lon)], {
+        color: level === 'violation' ? '#ff1744' : '#ffb300', weight: 13, opacity: 0.55, interactive: false,
+      }).addTo(layers.limits);
+    }
+  }
+
+  // Off-route sections against the reference, outlined under the segments
+  for (const d of routeComparison(route)?.deviations ?? []) {
+    L.polyline(points.slice(d.startIndex, d.endIndex + 1).map(p => L.latLng(p.lat, p.lon)), {
+      color: '#e056fd', weight: 11, opacity: 0.5, dashArray: '8 6', interactive: false,
+    }).addTo(layers.deviations);
+  }
+
+  // The heatmap stands in for the track; long routes are drawn on the track canvas
+  const asLayers = !state.heatmap && points.length < CANVAS_MIN_POINTS;
+
+  // Segment-colored polyline
+  const values = asLayers ? segmentMetric(scale.mode, route) : [];
+  for (let i = 0; i < values.length; i++) {
+    const p1 = points[i];
+    const p2 = points[i + 1];
+    const col = metricColor(values[i], scale);
+    const line = L.polyline([
+      L.latLng(p1.lat, p1.lon),
+      L.latLng(p2.lat, p2.lon),
+    ], { color: col, weight: 5, opacity: 0.9 });
+    line.addTo(layers.segments);
+  }
+
+  // Start (A) and End (B) markers
+  const start = points[0];
+  const end = points[points.length - 1];
+  const aIcon = L.divIcon({ html: `<div class="marker-label" style="background:#2ecc71;color:#000;border-color:${route.color}">A</div>`, className: '', iconAnchor: [12, 12] });
+  const bIcon = L.divIcon({ html: `<div class="marker-label" style="background:#e74c3c;color:#000;border-color:${route.color}">B</div>`, className: '', iconAnchor: [12, 12] });
+  L.marker([start.lat, start.lon], { icon: aIcon }).addTo(layers.markers);
+  L.marker([end.lat, end.lon], { icon: bIcon }).addTo(layers.markers);
+
+  // Direction arrows at intervals by index
+  if (!state.heatmap) addDirectionArrows(route);
+
+  // Stops
+  route.stops.forEach((stop, k) => {
+    const icon = L.divIcon({ html: `<div class="marker-label stop-label" style="border-color:${route.color}">${k + 1}</div>`, className: '', iconAnchor: [12, 12] });
+    L.marker([stop.lat, stop.lon], { icon })
+      .bindTooltip(stopInfoHtml(route, stop, k), { direction: 'top', opacity: 0.9 })
+      .addTo(layers.stops);
+  });
+
+  // Point markers for hover/click info
+  if (!asLayers) return;
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i];
+    // Points whose time was filled in are hollow (dashed when extrapolated past the known times)
+    const cm = L.circleMarker([p.lat, p.lon], p.timeFill
+      ? { radius: 3, color: route.color, weight: 1, fillOpacity: 0, dashArray: p.timeFill === 'extrapolated' ? '2 2' : undefined }
+      : { radius: 3, color: route.color, weight: 1, fillOpacity: 0.7 });
+    cm.bindTooltip(pointHtml(route, i), { direction: 'top', sticky: true, opacity: 0.9 });
+    cm.on('click', (e) => {
+      if (state.drawingZone) return;
+      L.DomEvent.stopPropagation(e); // not picked again from the track canvas underneath
+      clickPoint(route, i);
+    });
+    cm.on('mouseover', () => { if (route.id === state.activeId) state.chart?.setCursor(i); });
+    cm.on('mouseout', () => { if (route.id === state.activeId) state.chart?.setCursor(null); });
+    cm.addTo(layers.points);
+  }
+}
+
+function fitToRoutes(routes: Route[]) {
+  fitToPoints(routes.filter(r => r.visible).flatMap(r => r.points));
+}
+
+function fitToPoints(points: LatLngTime[]) {
+  if (!state.map || !points.length) return;
+  const latlngs = points.map(p => L.latLng(p.lat, p.lon));
+  const bounds = L.latLngBounds(latlngs);
+  state.map.fitBounds(bounds.pad(0.15));
+}
+
+function addDirectionArrows(route: Route) {
+  if (!route.layers) return;
+  const { points } = route;
   if (points.length < 2) return;
 
-  const totalDist = state.cumDistM[state.cumDistM.length - 1] || 0;
+  const totalDist = route.cumDistM[route.cumDistM.length - 1] || 0;
   const desired = Math.min(20, Math.max(3, Math.floor(totalDist / 500)));
   const step = Math.max(1, Math.floor((points.length - 1) / desired));
 
@@ -407,119 +2893,452 @@ function addDirectionArrows() {
     const mid = { lat: (p1.lat + p2.lat) / 2, lon: (p1.lon + p2.lon) / 2 };
     const brg = bearingDegrees(p1, p2);
     const icon = L.divIcon({ className: '', html: `<div class="arrow-icon" style="transform: rotate(${brg}deg)">➤</div>`, iconSize: [16, 16], iconAnchor: [8, 8] });
-    L.marker([mid.lat, mid.lon], { icon }).addTo(state.layers.arrows);
+    L.marker([mid.lat, mid.lon], { icon }).addTo(route.layers.arrows);
   }
 }
 
-function pointInfoHtml(index: number, tMs: number, cumDistM: number, speedMps: number): string {
+/** A clicked point: a range end while picking, otherwise a popup; either way selected on the active route. */
+function clickPoint(route: Route, i: number) {
+  if (route.id === state.activeId && state.pickingRange) {
+    pickRangePoint(route, i);
+  } else if (state.map) {
+    const p = route.points[i];
+    L.popup().setLatLng([p.lat, p.lon]).setContent(pointHtml(route, i)).openOn(state.map);
+  }
+  if (route.id !== state.activeId) return;
+  state.selectedIndex = i;
+  highlightPoint(null);
+  syncEditControls();
+  writeShareHash(true);
+}
+
+function pointHtml(route: Route, i: number): string {
+  const spd = route.segSpeedsMps[Math.min(i, route.segSpeedsMps.length - 1)] ?? 0;
+  return pointInfoHtml(route, i, route.timesMs[i], route.cumDistM[i], spd);
+}
+
+function pointInfoHtml(route: Route, index: number, tMs: number, cumDistM: number, speedMps: number): string {
   const utc = formatTimeMs(tMs, 'UTC');
-  const local = formatTimeMs(tMs, 'America/Chicago');
+  const local = localTimeText(tMs, routeTimeZone(route));
   const distText = formatDistance(cumDistM, state.unitSystem).text;
   const spdText = mpsToSpeedText(speedMps, state.unitSystem).text;
+  const title = state.routes.length > 1 ? `${escapeXml(routeLabel(route))} ` : '';
+  const fill = route.points[index]?.timeFill;
+  const ele = route.points[index]?.ele;
   return `<div>
-    <div><b>#${index}</b></div>
+    <div><b>${title}#${index}</b></div>
     <div>Time UTC: ${utc}</div>
-    <div>Time CT: ${local}</div>
+    <div>Time local: ${local}</div>
+    ${fill ? `<div>Time ${fill} (not recorded)</div>` : ''}
     <div>Cum Dist: ${distText}</div>
     <div>Speed: ${spdText}</div>
+    ${ele != null ? `<div>Elevation: ${formatElevation(ele, state.unitSystem)}${gradeText(route, index)}</div>` : ''}
+    ${referenceText(route, index)}
+  </div>`;
+}
+
+/** Offset from the reference and the time delta at the point, when comparing. */
+function referenceText(route: Route, index: number): string {
+  const comparison = routeComparison(route);
+  if (!comparison) return '';
+  const offset = formatDistance(comparison.offsetM[index], state.unitSystem).text;
+  const delta = comparison.deltaS[index];
+  return `<div>Reference: ${offset} off${isFinite(delta) ? `, ${deltaText(delta)}` : ''}</div>`;
+}
+
+/** Grade of the segment leaving the point (arriving, for the last one), or nothing. */
+function gradeText(route: Route, index: number): string {
+  const i = Math.min(index, route.points.length - 2);
+  const grade = i >= 0 ? segmentGradesPct(route.points.slice(i, i + 2))[0] : NaN;
+  return isFinite(grade) ? `, grade ${grade.toFixed(1)}%` : '';
+}
+
+function stopInfoHtml(route: Route, stop: Stop, k: number): string {
+  const zone = routeTimeZone(route);
+  return `<div>
+    <div><b>Stop ${k + 1}</b></div>
+    <div>Start UTC: ${formatTimeMs(stop.startMs, 'UTC')}</div>
+    <div>Start local: ${localTimeText(stop.startMs, zone)}</div>
+    <div>End UTC: ${formatTimeMs(stop.endMs, 'UTC')}</div>
+    <div>End local: ${localTimeText(stop.endMs, zone)}</div>
+    <div>Duration: ${formatDuration(stop.durationS)}</div>
+    <div>Location: ${stop.lat.toFixed(5)}, ${stop.lon.toFixed(5)}</div>
   </div>`;
 }
 
 function refreshTooltips() {
-  if (!state.layers) return;
-  const pts = state.layers.points;
-  pts.eachLayer((ly: any) => {
-    if (ly instanceof L.CircleMarker) {
-      const latlng = ly.getLatLng();
-      const i = nearestPointIndex(latlng.lat, latlng.lng);
-      if (i >= 0) {
-        const html = pointInfoHtml(i, state.timesMs[i], state.cumDistM[i], state.segSpeedsMps[Math.min(i, state.segSpeedsMps.length - 1)] ?? 0);
-        ly.bindTooltip(html, { direction: 'top', sticky: true, opacity: 0.9 });
+  for (const route of state.routes) {
+    if (!route.layers) continue;
+    route.layers.points.eachLayer((ly: any) => {
+      if (ly instanceof L.CircleMarker) {
+        const latlng = ly.getLatLng();
+        const i = nearestPointIndex(route, latlng.lat, latlng.lng);
+        if (i >= 0) {
+          const html = pointInfoHtml(route, i, route.timesMs[i], route.cumDistM[i], route.segSpeedsMps[Math.min(i, route.segSpeedsMps.length - 1)] ?? 0);
+          ly.bindTooltip(html, { direction: 'top', sticky: true, opacity: 0.9 });
+        }
       }
-    }
-  });
+    });
+  }
 }
 
-function nearestPointIndex(lat: number, lon: number): number {
+function nearestPointIndex(route: Route, lat: number, lon: number): number {
   let best = -1; let bestD = Infinity;
-  for (let i = 0; i < state.points.length; i++) {
-    const d = haversineMeters({ lat, lon }, state.points[i]);
+  for (let i = 0; i < route.points.length; i++) {
+    const d = haversineMeters({ lat, lon }, route.points[i]);
     if (d < bestD) { bestD = d; best = i; }
   }
   return best;
 }
 
 function refreshSummary() {
-  const labelEl = document.getElementById('route_label')!;
-  const dirEl = document.getElementById('route_dir')!;
-  const startEl = document.getElementById('start_times')!;
-  const endEl = document.getElementById('end_times')!;
-  const distEl = document.getElementById('sum_dist')!;
-  const durEl = document.getElementById('sum_dur')!;
-  const avgEl = document.getElementById('avg_spd')!;
-  const maxEl = document.getElementById('max_spd')!;
-  const sampEl = document.getElementById('samp_int')!;
-
-  labelEl.textContent = state.meta.label ?? '—';
-  dirEl.textContent = state.meta.direction ?? '—';
-
-  if (state.timesMs.length) {
-    const s = state.timesMs[0];
-    const e = state.timesMs[state.timesMs.length - 1];
-    startEl.textContent = `${formatTimeMs(s, 'UTC')} / ${formatTimeMs(s, 'America/Chicago')}`;
-    endEl.textContent = `${formatTimeMs(e, 'UTC')} / ${formatTimeMs(e, 'America/Chicago')}`;
-  } else {
-    startEl.textContent = '—';
-    endEl.textContent = '—';
+  const tbody = document.getElementById('summary_rows')!;
+  tbody.innerHTML = '';
+
+  if (!state.routes.length) {
+    const tr = document.createElement('tr');
+    tr.innerHTML = '<td></td><td class="val">—</td><td colspan="16" class="muted">No routes loaded</td>';
+    tbody.appendChild(tr);
+    return;
   }
 
-  if (state.stats) {
-    const { totalDistM, durationS, avgMps, maxMps, samplingS } = state.stats;
-    distEl.textContent = formatDistance(totalDistM, state.unitSystem).text;
-    durEl.textContent = formatDuration(durationS);
-    avgEl.textContent = mpsToSpeedText(avgMps, state.unitSystem).text;
-    maxEl.textContent = mpsToSpeedText(maxMps, state.unitSystem).text;
-    sampEl.textContent = `${samplingS.toFixed(1)} s`;
-  } else {
-    distEl.textContent = durEl.textContent = avgEl.textContent = maxEl.textContent = sampEl.textContent = '—';
+  for (const route of state.routes) {
+    const tr = document.createElement('tr');
+    if (route.id === state.activeId) tr.className = 'active';
+
+    const visCell = document.createElement('td');
+    const vis = document.createElement('input');
+    vis.type = 'checkbox';
+    vis.checked = route.visible;
+    vis.title = 'Show on map';
+    vis.style.accentColor = route.color;
+    vis.addEventListener('change', () => setRouteVisible(route, vis.checked));
+    visCell.appendChild(vis);
+
+    const labelCell = document.createElement('td');
+    labelCell.className = 'val route-name';
+    labelCell.innerHTML = `<span class="swatch" style="background:${route.color}"></span>`;
+    labelCell.append(routeLabel(route));
+    if (route.simplified) {
+      const tag = document.createElement('span');
+      tag.className = 'tag';
+      tag.textContent = `simplified −${route.simplified.removedCount}`;
+      labelCell.append(tag);
+    }
+    if (route.resample) {
+      const tag = document.createElement('span');
+      tag.className = 'tag';
+      tag.textContent = `resampled ${resampleText(route.resample)}`;
+      labelCell.append(tag);
+    }
+    labelCell.title = `${route.source} — click to make active`;
+    labelCell.addEventListener('click', () => setActiveRoute(route));
+
+    const { totalDistM, durationS, avgMps, maxMps, samplingS, movingTimeS, stoppedTimeS, movingAvgMps, ascentM, descentM, minEleM, maxEleM } = route.stats;
+    const s = route.timesMs[0];
+    const e = route.timesMs[route.timesMs.length - 1];
+    const cells = [
+      route.meta.direction ?? '—',
+      `${formatTimeMs(s, 'UTC')} / ${localTimeText(s, routeTimeZone(route))}`,
+      `${formatTimeMs(e, 'UTC')} / ${localTimeText(e, routeTimeZone(route))}`,
+      formatDistance(totalDistM, state.unitSystem).text,
+      formatDuration(durationS),
+      formatDuration(movingTimeS),
+      `${formatDuration(stoppedTimeS)} (${route.stops.length})`,
+      mpsToSpeedText(avgMps, state.unitSystem).text,
+      mpsToSpeedText(movingAvgMps, state.unitSystem).text,
+      mpsToSpeedText(maxMps, state.unitSystem).text,
+      isFinite(ascentM) ? `↑ ${formatElevation(ascentM, state.unitSystem)} ↓ ${formatElevation(descentM, state.unitSystem)}` : '—',
+      isFinite(minEleM) ? `${formatElevation(minEleM, state.unitSystem)} – ${formatElevation(maxEleM, state.unitSystem)}` : '—',
+      `${samplingS.toFixed(1)} s`,
+      timeSourceText(route),
+      removedText(route),
+    ].map(text => {
+      const td = document.createElement('td');
+      td.className = 'val';
+      td.textContent = text;
+      return td;
+    });
+
+    const removeCell = document.createElement('td');
+    const removeBtn = document.createElement('button');
+    removeBtn.className = 'icon-btn';
+    removeBtn.textContent = '✕';
+    removeBtn.title = 'Remove route';
+    removeBtn.addEventListener('click', () => removeRoute(route));
+    removeCell.appendChild(removeBtn);
+
+    tr.append(visCell, labelCell, ...cells, removeCell);
+    tbody.appendChild(tr);
+  }
+}
+
+function routeTimeZone(route: Route): string {
+  return state.timeZoneFromRoute ? route.startZone : state.timeZone;
+}
+
+function localTimeText(ms: number, zone: string): string {
+  return `${formatTimeMs(ms, zone)} ${timeZoneAbbr(ms, zone)}`;
+}
+
+function syncTimeZoneControls() {
+  const route = activeRoute();
+  document.getElementById('tz_inferred')!.textContent = route ? `${routeLabel(route)} starts in ${route.startZone} (approximate)` : '';
+  (document.getElementById('tz_select') as HTMLSelectElement).disabled = state.timeZoneFromRoute;
+}
+
+function refreshTimeZone() {
+  syncTimeZoneControls();
+  renderRoutes();
+  refreshSummary();
+  refreshLegend();
+  refreshChart();
+}
+
+function setUnitSystem(units: UnitSystem) {
+  state.unitSystem = units;
+  (document.getElementById('unit_select') as HTMLSelectElement).value = units;
+  savePrefs();
+  refreshSummary();
+  refreshTooltips();
+  refreshLegend();
+  refreshChart();
+  syncCleaningControls();
+  syncStopControls();
+  syncLimitControls();
+  renderSections();
+}
+
+let shareHash = ''; // hash last written or applied, so our own updates aren't taken for navigation
+let applyingShare = false;
+
+function shareState(): ShareState {
+  const s: ShareState = { units: state.unitSystem };
+  const route = activeRoute();
+  if (route?.visible) {
+    const polyline = encodePolyline(route.points.map(p => [p.lat, p.lon]), 5);
+    if (polyline.length <= MAX_SHARE_POLYLINE) {
+      s.route = {
+        polyline,
+        precision: 5,
+        startMs: route.timesMs[0],
+        endMs: route.timesMs[route.timesMs.length - 1],
+        label: route.meta.label,
+      };
+      if (state.selectedIndex != null) s.index = state.selectedIndex;
+    }
+  }
+  if (state.map && mapHasView()) {
+    const c = state.map.getCenter();
+    s.view = { lat: c.lat, lon: c.lng, zoom: state.map.getZoom() };
+  }
+  return s;
+}
+
+/** Mirrors the current view into the URL hash; push adds a history entry for back/forward. */
+function writeShareHash(push: boolean) {
+  if (applyingShare) return;
+  const hash = formatShareHash(shareState());
+  if (hash === shareHash) return;
+  shareHash = hash;
+  const url = location.pathname + location.search + hash;
+  if (push) history.pushState(null, '', url);
+  else history.replaceState(null, '', url);
+}
+
+/** Opens the route, units, view and selection from the hash (page load, back/forward, pasted links). */
+async function applyShareHash() {
+  if (location.hash === shareHash) return;
+  shareHash = location.hash;
+  const s = parseShareHash(location.hash);
+  applyingShare = true;
+  try {
+    if (s.units && s.units !== state.unitSystem) setUnitSystem(s.units);
+    if (s.route) {
+      const { polyline, precision } = s.route;
+      let route = state.routes.find(r => encodePolyline(r.points.map(p => [p.lat, p.lon]), precision) === polyline);
+      if (!route) {
+        // Same path as a dropped file, so the shared route is imported and saved like any other
+        const file = new File([shareRouteJson(s.route)], `${s.route.label || 'shared-route'}.json`, { type: 'application/json' });
+        [route] = await loadFiles([file]);
+      }
+      if (route) {
+        if (!route.visible) setRouteVisible(route, true);
+        if (route.id !== state.activeId) setActiveRoute(route);
+      }
+    }
+    if (s.view) state.map?.setView([s.view.lat, s.view.lon], s.view.zoom, { animate: false });
+    state.selectedIndex = s.route ? s.index ?? null : null;
+    highlightPoint(null);
+  } finally {
+    applyingShare = false;
+  }
+}
+
+async function copyShareLink() {
+  writeShareHash(true);
+  const route = activeRoute();
+  if (route?.visible && !parseShareHash(location.hash).route) {
+    alert(`“${route.meta.label || route.source}” has too many points to fit in a link; it carries the units and view only. Simplify the route to share it.`);
+  }
+  try {
+    await navigator.clipboard.writeText(location.href);
+  } catch {
+    prompt('Copy this link', location.href); // clipboard needs a secure context
+  }
+}
+
+function loadPrefs(): Prefs {
+  const defaults: Prefs = {
+    unitSystem: 'imperial',
+    timeZone: browserTimeZone(),
+    timeZoneFromRoute: false,
+    colorMode: 'speed',
+    colorClipPct: 0,
+    heatmap: null,
+    chartAxis: 'time',
+    chartMetric: 'speed',
+    stopOptions: { ...DEFAULT_STOP_OPTIONS },
+    speedLimit: { ...DEFAULT_SPEED_LIMIT },
+    slopeDistance: false,
+    legOptions: { ...DEFAULT_LEG_OPTIONS },
+    zones: [],
+    compareOptions: { ...DEFAULT_COMPARE_OPTIONS },
+    playbackMultiplier: 10,
+    playbackFollow: false,
+    libraryOpen: false,
+    basemap: OSM_BASEMAP.id,
+    customBasemaps: [],
+    openRouteIds: [],
+  };
+  let stored: Partial<Prefs> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(PREFS_KEY) ?? '{}') ?? {};
+  } catch {
+    // Storage disabled (private mode, file://) or unreadable: start from defaults
   }
+  // Anything missing or no longer valid falls back to its default
+  const p: Prefs = { ...defaults, ...stored };
+  if (p.unitSystem !== 'imperial' && p.unitSystem !== 'metric') p.unitSystem = defaults.unitSystem;
+  if (typeof p.timeZone !== 'string' || !isValidTimeZone(p.timeZone)) p.timeZone = defaults.timeZone;
+  if (!(p.colorMode in COLOR_MODE_NAMES)) p.colorMode = defaults.colorMode;
+  if (![0, 1, 2, 5].includes(p.colorClipPct)) p.colorClipPct = defaults.colorClipPct;
+  if (p.heatmap !== null && !(p.heatmap in HEAT_WEIGHT_NAMES)) p.heatmap = defaults.heatmap;
+  if (p.chartAxis !== 'time' && p.chartAxis !== 'distance') p.chartAxis = defaults.chartAxis;
+  if (p.chartMetric !== 'speed' && p.chartMetric !== 'elevation') p.chartMetric = defaults.chartMetric;
+  p.stopOptions = { ...defaults.stopOptions, ...p.stopOptions };
+  p.speedLimit = { ...defaults.speedLimit, ...p.speedLimit };
+  p.legOptions = { ...defaults.legOptions, ...p.legOptions };
+  p.compareOptions = { ...defaults.compareOptions, ...p.compareOptions };
+  if (!Array.isArray(p.zones)) p.zones = [];
+  p.zones = p.zones.filter(z => z && typeof z.name === 'string' && Array.isArray(z.rings) && Array.isArray(z.holes));
+  if (typeof p.slopeDistance !== 'boolean') p.slopeDistance = defaults.slopeDistance;
+  if (!(p.playbackMultiplier > 0)) p.playbackMultiplier = defaults.playbackMultiplier;
+  if (!Array.isArray(p.customBasemaps)) p.customBasemaps = [];
+  p.customBasemaps = p.customBasemaps.filter(b => b && typeof b.id === 'string' && !basemapProblem(b.kind, b.url, b.wmsLayers));
+  if (typeof p.basemap !== 'string') p.basemap = defaults.basemap;
+  if (!Array.isArray(p.openRouteIds)) p.openRouteIds = [];
+  return p;
 }
 
-function exportCSV() {
-  // index, lat, lon, timestamp, cum_distance_m, speed_mps
-  const lines = ['index,lat,lon,timestamp,cum_distance_m,speed_mps'];
-  const n = state.points.length;
-  for (let i = 0; i < n; i++) {
-    const p = state.points[i];
-    const t = state.timesMs[i];
-    const cum = state.cumDistM[i] ?? 0;
-    const spd = state.segSpeedsMps[Math.min(i, n - 2)] ?? 0;
-    lines.push(`${i},${p.lat.toFixed(6)},${p.lon.toFixed(6)},${isoUtc(t)},${cum.toFixed(3)},${spd.toFixed(3)}`);
+function savePrefs() {
+  const p: Prefs = {
+    unitSystem: state.unitSystem,
+    timeZone: state.timeZone,
+    timeZoneFromRoute: state.timeZoneFromRoute,
+    colorMode: state.colorMode,
+    colorClipPct: state.colorClipPct,
+    heatmap: state.heatmap,
+    chartAxis: state.chartAxis,
+    chartMetric: state.chartMetric,
+    stopOptions: state.stopOptions,
+    speedLimit: state.speedLimit,
+    slopeDistance: state.slopeDistance,
+    legOptions: state.legOptions,
+    zones: state.zones,
+    compareOptions: state.compareOptions,
+    playbackMultiplier: state.playback.multiplier,
+    playbackFollow: state.playback.follow,
+    libraryOpen: state.libraryOpen,
+    basemap: state.basemap,
+    customBasemaps: state.customBasemaps,
+    openRouteIds: state.routes.map(r => r.libraryId).filter((id): id is string => !!id),
+  };
+  try {
+    localStorage.setItem(PREFS_KEY, JSON.stringify(p));
+  } catch {
+    // Not persisted; the settings still apply to this session
   }
-  const blob = new Blob([lines.join('\n')], { type: 'text/csv' });
-  triggerDownload(blob, (state.meta.label || 'route') + '.csv');
 }
 
-function exportGPX() {
-  const name = state.meta.label || 'route';
-  const lines: string[] = [];
-  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
-  lines.push('<gpx version="1.1" creator="GeoInterp" xmlns="http://www.topografix.com/GPX/1/1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">');
-  lines.push(`<trk><name>${escapeXml(name)}</name>`);
-  if (state.meta.direction) lines.push(`<desc>${escapeXml(state.meta.direction!)}</desc>`);
-  lines.push('<trkseg>');
-  for (let i = 0; i < state.points.length; i++) {
-    const p = state.points[i];
-    const t = state.timesMs[i];
-    lines.push(`<trkpt lat="${p.lat}" lon="${p.lon}"><time>${isoUtc(t)}</time></trkpt>`);
+/** Downloads one leg of the route, re-processed on its own, in the format picked in the legs panel. */
+function exportLeg(route: Route, leg: RouteLeg, k: number) {
+  const target: Route = { ...route, ...legRoute(route.parsed, route, leg, k, processOptions(route)) };
+  switch ((document.getElementById('legs_format') as HTMLSelectElement).value) {
+    case 'gpx': return exportGPX(target);
+    case 'geojson': return exportGeoJSON(target);
+    case 'kml': return exportKML(target);
+    default: return exportCSV(target);
   }
-  lines.push('</trkseg></trk></gpx>');
-  const blob = new Blob([lines.join('')], { type: 'application/gpx+xml' });
-  triggerDownload(blob, (state.meta.label || 'route') + '.gpx');
 }
 
-function escapeXml(s: string): string {
-  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+function exportCSV(route = exportTarget()) {
+  if (!route) return;
+  const blob = new Blob([routeCSV(route, routeTimeZone(route))], { type: 'text/csv' });
+  triggerDownload(blob, (route.meta.label || 'route') + '.csv');
+}
+
+function exportViolationsCSV() {
+  const route = exportTarget();
+  if (!route?.violations.length) return;
+  const blob = new Blob([violationsCSV(route, routeTimeZone(route), state.unitSystem)], { type: 'text/csv' });
+  triggerDownload(blob, (route.meta.label || 'route') + '.violations.csv');
+}
+
+function exportGPX(route = exportTarget()) {
+  if (!route) return;
+  const blob = new Blob([routeGPX(route)], { type: 'application/gpx+xml' });
+  triggerDownload(blob, (route.meta.label || 'route') + '.gpx');
+}
+
+function exportGeoJSON(route = exportTarget()) {
+  if (!route) return;
+  // Stroke colors on the map's shared scale
+  const blob = new Blob([routeGeoJSON(route, sharedMaxMps())], { type: 'application/geo+json' });
+  triggerDownload(blob, (route.meta.label || 'route') + '.geojson');
+}
+
+function exportKML(route = exportTarget()) {
+  if (!route) return;
+  const blob = new Blob([routeKML(route, sharedMaxMps())], { type: 'application/vnd.google-earth.kml+xml' });
+  triggerDownload(blob, (route.meta.label || 'route') + '.kml');
+}
+
+function exportPolyline(precision: number) {
+  const route = exportTarget();
+  if (!route) return;
+  const blob = new Blob([routePolylineJSON(route, precision)], { type: 'application/geo+json' });
+  triggerDownload(blob, (route.meta.label || 'route') + '.polyline.json');
+}
+
+function exportZoneVisitsCSV() {
+  const route = activeRoute();
+  if (!route?.zoneVisits.length) return;
+  const blob = new Blob([zoneVisitsCSV(route, routeTimeZone(route), state.unitSystem)], { type: 'text/csv' });
+  triggerDownload(blob, (route.meta.label || 'route') + '.zones.csv');
+}
+
+function exportComparisonCSV() {
+  const route = activeRoute();
+  const comparison = route ? routeComparison(route) : null;
+  if (!route || !comparison) return;
+  const blob = new Blob([comparisonCSV(route, comparison, routeTimeZone(route))], { type: 'text/csv' });
+  triggerDownload(blob, (route.meta.label || 'route') + '.compare.csv');
+}
+
+function exportZones() {
+  if (!state.zones.length) return;
+  triggerDownload(new Blob([zonesGeoJSON(state.zones)], { type: 'application/geo+json' }), 'zones.geojson');
 }
 
 function triggerDownload(blob: Blob, filename: string) {
@@ -532,4 +3351,10 @@ function triggerDownload(blob: Blob, filename: string) {
 // Bootstrap
 buildLayout();
 initMap();
-
+initChart();
+refreshSummary();
+refreshLibrary();
+restoreTilePackage();
+restoreSession().then(() => applyShareHash());
+window.addEventListener('hashchange', () => applyShareHash());
+window.addEventListener('popstate', () => applyShareHash());
@@ -0,0 +1,29 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { MBTilesError, openMBTiles } from './mbtiles';
+
+// A 512-byte-page package with three tiles at zooms 2-4 and no minzoom/maxzoom metadata;
+// the zoom 4 tile spills onto overflow pages
+const FIXTURE = new Blob([readFileSync(new URL('./fixtures/tiles.mbtiles', import.meta.url))]);
+
+describe('openMBTiles', () => {
+  it('reads the metadata and takes the zoom range from the tiles when it is missing', async () => {
+    const tiles = await openMBTiles(FIXTURE);
+    expect(tiles).toMatchObject({ name: 'Fixture', format: 'png', minZoom: 2, maxZoom: 4, tileCount: 3, bounds: [-95.1, 29.4, -94.9, 29.6] });
+  });
+
+  it('serves tiles by XYZ coordinates', async () => {
+    const tiles = await openMBTiles(FIXTURE);
+    const small = await tiles.getTile(2, 1, 1); // TMS row 2
+    expect(small?.type).toBe('image/png');
+    expect(await small?.text()).toBe('small');
+    const big = new Uint8Array(await (await tiles.getTile(4, 3, 10))!.arrayBuffer());
+    expect(big).toHaveLength(1500);
+    expect(big.every((v, i) => v === i % 251)).toBe(true);
+    expect(await tiles.getTile(2, 1, 2)).toBeUndefined();
+  });
+
+  it('rejects files that are not SQLite', async () => {
+    await expect(openMBTiles(new Blob(['{"type":"FeatureCollection"}']))).rejects.toThrow(MBTilesError);
+  });
+});
@@ -0,0 +1,289 @@
+// Read-only MBTiles reader for offline basemaps. MBTiles is an SQLite database; rather than
+// ship an SQLite build, this walks the file's table b-trees directly. Pages are read on
+// demand with Blob.slice, so a package of any size is never loaded into memory at once.
+// Opening scans the tile table once and remembers where each tile's record lives.
+
+export class MBTilesError extends Error {
+  constructor(message: string) {
+    super(`MBTiles: ${message}`);
+    this.name = 'MBTilesError';
+  }
+}
+
+export interface MBTiles {
+  name: string;
+  format: 'png' | 'jpg' | 'webp';
+  minZoom: number;
+  maxZoom: number;
+  bounds?: [number, number, number, number]; // west, south, east, north
+  attribution?: string;
+  tileCount: number;
+  /** Tile in the XYZ scheme Leaflet uses (MBTiles rows are TMS, counted from the south). */
+  getTile(z: number, x: number, y: number): Promise<Blob | undefined>;
+}
+
+type Value = number | string | Uint8Array | null | undefined; // undefined: past the locally stored bytes
+
+type Db = { file: Blob; pageSize: number; usable: number };
+
+type Row = {
+  rowid: number;
+  page: number;
+  cell: number; // offset of the cell within its page
+  local: Uint8Array; // payload bytes stored on the page
+  payloadSize: number;
+  overflow: number; // first overflow page, 0 if none
+};
+
+type RowRef = { page: number; cell: number };
+
+const MIME: Record<MBTiles['format'], string> = { png: 'image/png', jpg: 'image/jpeg', webp: 'image/webp' };
+
+export async function openMBTiles(file: Blob): Promise<MBTiles> {
+  const head = new Uint8Array(await file.slice(0, 100).arrayBuffer());
+  if (new TextDecoder().decode(head.subarray(0, 16)) !== 'SQLite format 3\0') {
+    throw new MBTilesError('not an SQLite database');
+  }
+  const rawSize = (head[16] << 8) | head[17];
+  const pageSize = rawSize === 1 ? 65536 : rawSize;
+  if (u32(head, 56) !== 1) throw new MBTilesError('only UTF-8 databases are supported');
+  const db: Db = { file, pageSize, usable: pageSize - head[20] };
+
+  // sqlite_master: type, name, tbl_name, rootpage, sql
+  const schema = new Map<string, { type: string; root: number; sql: string }>();
+  await scanTable(db, 1, async (row) => {
+    const [type, name, , root, sql] = decodeRecord(await payload(db, row));
+    if (typeof name === 'string') schema.set(name, { type: String(type), root: Number(root), sql: String(sql ?? '') });
+  });
+
+  const table = (name: string) => {
+    const t = schema.get(name);
+    if (t?.type !== 'table') throw new MBTilesError(`no "${name}" table`);
+    if (/without\s+rowid/i.test(t.sql)) throw new MBTilesError(`"${name}" is a WITHOUT ROWID table, which is not supported`);
+    return { root: t.root, ...columns(t.sql) };
+  };
+
+  const meta = new Map<string, string>();
+  const metadata = table('metadata');
+  await scanTable(db, metadata.root, async (row) => {
+    const values = decodeRecord(await payload(db, row));
+    const name = column(values, metadata, 'name', row.rowid);
+    const value = column(values, metadata, 'value', row.rowid);
+    if (name != null) meta.set(String(name), String(value ?? ''));
+  });
+  const format = (meta.get('format') ?? 'png').toLowerCase().replace('jpeg', 'jpg');
+  if (format === 'pbf') throw new MBTilesError('vector tiles (pbf) are not supported; use a raster package');
+  if (format !== 'png' && format !== 'jpg' && format !== 'webp') throw new MBTilesError(`unsupported tile format "${format}"`);
+
+  // "z/x/tmsY" -> row holding tile_data, plus the tile_data column index
+  const index = new Map<string, RowRef>();
+  let dataColumn: { names: string[]; alias: number };
+  if (schema.get('tiles')?.type === 'table') {
+    const tiles = table('tiles');
+    dataColumn = tiles;
+    await scanTable(db, tiles.root, async (row) => {
+      // Coordinates come before the image in the usual layout, so the page-local bytes suffice
+      let values = decodeRecord(row.local);
+      if (values.slice(0, 3).includes(undefined)) values = decodeRecord(await payload(db, row));
+      const key = tileKey(values, tiles, row.rowid);
+      if (key) index.set(key, { page: row.page, cell: row.cell });
+    });
+  } else if (schema.has('map') && schema.has('images')) {
+    // Deduplicated layout: a "tiles" view joining map (coordinates -> tile_id) and images (tile_id -> data)
+    const map = table('map');
+    const images = table('images');
+    dataColumn = images;
+    const imageRows = new Map<string, RowRef>();
+    await scanTable(db, images.root, async (row) => {
+      const id = column(decodeRecord(await payload(db, row)), images, 'tile_id', row.rowid);
+      if (id != null) imageRows.set(String(id), { page: row.page, cell: row.cell });
+    });
+    await scanTable(db, map.root, async (row) => {
+      const values = decodeRecord(await payload(db, row));
+      const key = tileKey(values, map, row.rowid);
+      const ref = imageRows.get(String(column(values, map, 'tile_id', row.rowid)));
+      if (key && ref) index.set(key, ref);
+    });
+  } else {
+    throw new MBTilesError('no "tiles" table or map/images tables found');
+  }
+
+  // Scanned from the tile keys only when the metadata lacks a zoom: there can be millions of them
+  let zooms: [number, number] | undefined;
+  const zoomRange = () => {
+    if (!zooms) zooms = keyZoomRange(index.keys());
+    return zooms;
+  };
+  const bounds = (meta.get('bounds') ?? '').split(',').map(Number);
+  return {
+    name: meta.get('name') || 'Offline tiles',
+    format,
+    minZoom: numberOr(meta.get('minzoom'), () => zoomRange()[0]),
+    maxZoom: numberOr(meta.get('maxzoom'), () => zoomRange()[1]),
+    bounds: bounds.length === 4 && bounds.every(isFinite) ? bounds as [number, number, number, number] : undefined,
+    attribution: meta.get('attribution') || undefined,
+    tileCount: index.size,
+    async getTile(z, x, y) {
+      const ref = index.get(`${z}/${x}/${(1 << z) - 1 - y}`);
+      if (!ref) return undefined;
+      const row = cellAt(db, await readPage(db, ref.page), ref.page, ref.cell);
+      const data = column(decodeRecord(await payload(db, row)), dataColumn, 'tile_data', row.rowid);
+      return data instanceof Uint8Array ? new Blob([data.slice()], { type: MIME[format] }) : undefined;
+    },
+  };
+}
+
+function keyZoomRange(keys: Iterable<string>): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const key of keys) {
+    const z = parseInt(key, 10);
+    if (z < min) min = z;
+    if (z > max) max = z;
+  }
+  return [min, max];
+}
+
+function tileKey(values: Value[], table: { names: string[]; alias: number }, rowid: number): string | undefined {
+  const z = column(values, table, 'zoom_level', rowid);
+  const x = column(values, table, 'tile_column', rowid);
+  const y = column(values, table, 'tile_row', rowid);
+  return typeof z === 'number' && typeof x === 'number' && typeof y === 'number' ? `${z}/${x}/${y}` : undefined;
+}
+
+function column(values: Value[], table: { names: string[]; alias: number }, name: string, rowid: number): Value {
+  const i = table.names.indexOf(name);
+  if (i < 0) throw new MBTilesError(`missing column "${name}"`);
+  // An INTEGER PRIMARY KEY column is stored as NULL and reads as the rowid
+  return i === table.alias ? rowid : values[i];
+}
+
+/** Column names from a CREATE TABLE statement, and which one (if any) aliases the rowid. */
+function columns(sql: string): { names: string[]; alias: number } {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+  const defs = body.split(',').map(d => d.trim()).filter(d => !/^(primary|unique|check|foreign|constraint)\b/i.test(d));
+  const names = defs.map(d => d.split(/\s+/)[0].replace(/^["'`[]|["'`\]]$/g, '').toLowerCase());
+  const alias = defs.findIndex(d => /^\S+\s+integer\s+primary\s+key\b/i.test(d));
+  return { names, alias };
+}
+
+async function readPage(db: Db, n: number): Promise<Uint8Array> {
+  return new Uint8Array(await db.file.slice((n - 1) * db.pageSize, n * db.pageSize).arrayBuffer());
+}
+
+/** Visits every row of a table b-tree in rowid order. */
+async function scanTable(db: Db, root: number, visit: (row: Row) => Promise<void>) {
+  const stack = [root];
+  while (stack.length) {
+    const n = stack.pop()!;
+    const page = await readPage(db, n);
+    const h = n === 1 ? 100 : 0; // page 1 starts with the file header
+    const type = page[h];
+    const count = (page[h + 3] << 8) | page[h + 4];
+    if (type === 0x05) {
+      // Interior: left child pointers, then the right-most child
+      const children: number[] = [];
+      for (let k = 0; k < count; k++) children.push(u32(page, u16(page, h + 12 + 2 * k)));
+      children.push(u32(page, h + 8));
+      for (let k = children.length - 1; k >= 0; k--) stack.push(children[k]);
+    } else if (type === 0x0d) {
+      for (let k = 0; k < count; k++) await visit(cellAt(db, page, n, u16(page, h + 8 + 2 * k)));
+    } else {
+      throw new MBTilesError(`unexpected b-tree page type ${type} on page ${n}`);
+    }
+  }
+}
+
+function cellAt(db: Db, page: Uint8Array, n: number, cell: number): Row {
+  const [payloadSize, p1] = varint(page, cell);
+  const [rowid, p2] = varint(page, p1);
+  // How much of the payload is stored on the page (SQLite file format, "cell payload overflow")
+  const max = db.usable - 35;
+  let local = payloadSize;
+  if (payloadSize > max) {
+    const min = Math.floor(((db.usable - 12) * 32) / 255) - 23;
+    const k = min + ((payloadSize - min) % (db.usable - 4));
+    local = k <= max ? k : min;
+  }
+  return {
+    rowid,
+    page: n,
+    cell,
+    local: page.subarray(p2, p2 + local),
+    payloadSize,
+    overflow: local < payloadSize ? u32(page, p2 + local) : 0,
+  };
+}
+
+/** The whole payload, following the overflow page chain when it doesn't fit on the page. */
+async function payload(db: Db, row: Row): Promise<Uint8Array> {
+  if (!row.overflow) return row.local;
+  const out = new Uint8Array(row.payloadSize);
+  out.set(row.local);
+  let pos = row.local.length;
+  let next = row.overflow;
+  while (next && pos < out.length) {
+    const page = await readPage(db, next);
+    next = u32(page, 0);
+    const chunk = page.subarray(4, Math.min(db.usable, 4 + out.length - pos));
+    out.set(chunk, pos);
+    pos += chunk.length;
+  }
+  return out;
+}
+
+function decodeRecord(b: Uint8Array): Value[] {
+  const [headerSize, start] = varint(b, 0);
+  const types: number[] = [];
+  for (let p = start; p < headerSize;) {
+    const [t, next] = varint(b, p);
+    types.push(t);
+    p = next;
+  }
+  const values: Value[] = [];
+  let off = headerSize;
+  for (const t of types) {
+    const len = t >= 12 ? (t - 12) >> 1 : [0, 1, 2, 3, 4, 6, 8, 8, 0, 0][t] ?? 0;
+    values.push(off + len <= b.length ? readValue(b, off, t, len) : undefined);
+    off += len;
+  }
+  return values;
+}
+
+function readValue(b: Uint8Array, off: number, t: number, len: number): Value {
+  if (t === 0) return null;
+  if (t === 8) return 0;
+  if (t === 9) return 1;
+  if (t === 7) return new DataView(b.buffer, b.byteOffset + off, 8).getFloat64(0);
+  if (t <= 6) {
+    // Big-endian two's complement integer
+    let v = 0;
+    for (let i = 0; i < len; i++) v = v * 256 + b[off + i];
+    return b[off] & 0x80 ? v - 2 ** (8 * len) : v;
+  }
+  const bytes = b.subarray(off, off + len);
+  return t % 2 === 0 ? bytes : new TextDecoder().decode(bytes);
+}
+
+function varint(b: Uint8Array, pos: number): [number, number] {
+  let v = 0;
+  for (let i = 0; i < 8; i++) {
+    const c = b[pos + i];
+    v = v * 128 + (c & 0x7f);
+    if (!(c & 0x80)) return [v, pos + i + 1];
+  }
+  return [v * 256 + b[pos + 8], pos + 9];
+}
+
+function u16(b: Uint8Array, pos: number): number {
+  return (b[pos] << 8) | b[pos + 1];
+}
+
+function u32(b: Uint8Array, pos: number): number {
+  return ((b[pos] << 24) >>> 0) + (b[pos + 1] << 16) + (b[pos + 2] << 8) + b[pos + 3];
+}
+
+function numberOr(v: string | undefined, fallback: () => number): number {
+  const n = v != null && v !== '' ? Number(v) : NaN;
+  return isFinite(n) ? n : fallback();
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { parseRouteFile } from './importers';
+import type { ShareState } from './share';
+import { formatShareHash, parseShareHash, shareRouteJson } from './share';
+import { encodePolyline } from './utils';
+
+const T0 = Date.parse('2024-07-01T12:00:00Z');
+const coords: [number, number][] = [[29.5, -95], [29.501, -95.002], [29.503, -95.001]];
+
+describe('share links', () => {
+  it('round-trip every part', () => {
+    const state: ShareState = {
+      // A polyline needs escaping in a URL: it may hold & ? = + and backslashes
+      route: { polyline: encodePolyline(coords, 6) + '&?=+\\', precision: 6, startMs: T0, endMs: T0 + 600000, label: 'Morning & back' },
+      units: 'imperial',
+      view: { lat: 29.50123, lon: -95.00456, zoom: 13 },
+      index: 2,
+    };
+    const hash = formatShareHash(state);
+    expect(hash.startsWith('#r=')).toBe(true);
+    expect(parseShareHash(hash)).toEqual(state);
+  });
+
+  it('carries units and view without a route', () => {
+    expect(formatShareHash({})).toBe('');
+    expect(parseShareHash(formatShareHash({ units: 'metric', view: { lat: 1, lon: 2, zoom: 3 } }))).toEqual({ units: 'metric', view: { lat: 1, lon: 2, zoom: 3 } });
+  });
+
+  it('drops malformed parts and keeps the rest', () => {
+    expect(parseShareHash('#u=furlongs&v=95,0,3&i=-1&p=7&r=abc&t0=soon')).toEqual({
+      route: { polyline: 'abc', precision: 5, startMs: undefined, endMs: undefined, label: undefined },
+    });
+  });
+
+  it('opens the shared route as a polyline file', () => {
+    const { route } = parseShareHash(formatShareHash({ route: { polyline: encodePolyline(coords, 5), precision: 5, startMs: T0, label: 'Shared' } }));
+    const [parsed] = parseRouteFile('shared.json', shareRouteJson(route!));
+    expect(parsed.points.map(p => [p.lat, p.lon])).toEqual(coords);
+    expect(parsed.meta).toMatchObject({ label: 'Shared', startMs: T0 });
+    expect(parsed.issues ?? []).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+import type { UnitSystem } from './utils';
+import { parseMaybeTime } from './utils';
+
+// Shareable state in the URL hash, e.g.
+//   #r=<encoded polyline>&p=5&t0=2024-07-01T12:00:00Z&t1=…&n=Morning&u=metric&v=47.6,-122.3,13&i=42
+// Every part is optional; a link without a route still carries units and view.
+
+export interface ShareRoute {
+  polyline: string; // Google encoded
+  precision: number; // 5 or 6
+  startMs?: number;
+  endMs?: number;
+  label?: string;
+}
+
+export interface ShareState {
+  route?: ShareRoute;
+  units?: UnitSystem;
+  view?: { lat: number; lon: number; zoom: number };
+  index?: number; // selected point of the route
+}
+
+// Longer polylines make links that chat apps and some browsers truncate; such routes share the view only
+export const MAX_SHARE_POLYLINE = 4000;
+
+export function formatShareHash(s: ShareState): string {
+  const params = new URLSearchParams();
+  if (s.route) {
+    params.set('r', s.route.polyline);
+    params.set('p', String(s.route.precision));
+    if (s.route.startMs != null) params.set('t0', new Date(s.route.startMs).toISOString());
+    if (s.route.endMs != null) params.set('t1', new Date(s.route.endMs).toISOString());
+    if (s.route.label) params.set('n', s.route.label);
+  }
+  if (s.units) params.set('u', s.units);
+  if (s.view) params.set('v', [s.view.lat.toFixed(5), s.view.lon.toFixed(5), s.view.zoom].join(','));
+  if (s.index != null) params.set('i', String(s.index));
+  const text = params.toString();
+  return text ? '#' + text : '';
+}
+
+/** Reads what it can from a hash; malformed parts are dropped rather than failing the whole link. */
+export function parseShareHash(hash: string): ShareState {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const s: ShareState = {};
+  const polyline = params.get('r');
+  if (polyline) {
+    s.route = {
+      polyline,
+      precision: params.get('p') === '6' ? 6 : 5,
+      startMs: parseMaybeTime(params.get('t0') ?? undefined),
+      endMs: parseMaybeTime(params.get('t1') ?? undefined),
+      label: params.get('n') || undefined,
+    };
+  }
+  const units = params.get('u');
+  if (units === 'imperial' || units === 'metric') s.units = units;
+  const view = (params.get('v') ?? '').split(',').map(Number);
+  if (view.length === 3 && view.every(isFinite) && Math.abs(view[0]) <= 90 && Math.abs(view[1]) <= 180) {
+    s.view = { lat: view[0], lon: view[1], zoom: view[2] };
+  }
+  const index = Number(params.get('i') ?? NaN);
+  if (Number.isInteger(index) && index >= 0) s.index = index;
+  return s;
+}
+
+/** The shared route as a polyline GeoJSON Feature, the same shape the polyline export writes. */
+export function shareRouteJson(r: ShareRoute): string {
+  return JSON.stringify({
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates: [] },
+    properties: {
+      polyline: r.polyline,
+      polyline_precision: r.precision,
+      route_label: r.label,
+      start_time: r.startMs != null ? new Date(r.startMs).toISOString() : undefined,
+      end_time: r.endMs != null ? new Date(r.endMs).toISOString() : undefined,
+    },
+  });
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { simplifyIndices, simplifyReport } from './simplify';
+import type { LatLngTime } from './utils';
+
+const M = 1 / 111195; // degrees of latitude per meter
+
+// North 1 km in 10 m steps, with a 30 m sideways kink halfway and 1 m wobble elsewhere
+function kinked(): LatLngTime[] {
+  return Array.from({ length: 101 }, (_, i) => ({
+    lat: 29.5 + i * 10 * M,
+    lon: -95 + (i === 50 ? 30 : i % 2) * M / Math.cos((29.5 * Math.PI) / 180),
+  }));
+}
+
+describe('simplifyIndices', () => {
+  it('keeps the ends and the kink with Douglas-Peucker', () => {
+    expect(simplifyIndices(kinked(), { method: 'douglas-peucker', toleranceM: 5 })).toEqual([0, 48, 49, 50, 51, 52, 100]);
+  });
+
+  it('keeps the ends and the kink with Visvalingam', () => {
+    const kept = simplifyIndices(kinked(), { method: 'visvalingam', toleranceM: 10 });
+    expect(kept[0]).toBe(0);
+    expect(kept[kept.length - 1]).toBe(100);
+    expect(kept).toContain(50);
+    expect(kept.length).toBeLessThan(10);
+  });
+
+  it('keeps every point without a tolerance', () => {
+    expect(simplifyIndices(kinked(), { method: 'douglas-peucker', toleranceM: 0 })).toHaveLength(101);
+  });
+});
+
+describe('simplifyReport', () => {
+  it('measures what the simplified line loses', () => {
+    const points = kinked();
+    const report = simplifyReport(points, [0, 100]);
+    expect(report.removedCount).toBe(99);
+    expect(report.maxDeviationM).toBeCloseTo(30, 0);
+    expect(report.lengthErrorM).toBeLessThan(0);
+  });
+});
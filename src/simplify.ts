@@ -0,0 +1,156 @@
+import type { LatLngTime, XY } from './utils';
+import { cumulativeDistancesMeters, localProjection, pointSegmentDistance } from './utils';
+
+export type SimplifyMethod = 'douglas-peucker' | 'visvalingam';
+
+export interface SimplifyOptions {
+  method: SimplifyMethod;
+  toleranceM: number; // max deviation (DP) or sqrt of the min effective triangle area (VW), meters
+}
+
+export interface SimplifyReport {
+  kept: number[]; // input indices that survive, always including both ends
+  removedCount: number;
+  lengthErrorM: number; // simplified length minus original length (<= 0)
+  maxDeviationM: number; // farthest a removed point lies from the simplified line
+}
+
+export function simplifyIndices(points: LatLngTime[], opts: SimplifyOptions): number[] {
+  const n = points.length;
+  if (n < 3 || !(opts.toleranceM > 0)) return points.map((_, i) => i);
+  const xy = projectLocal(points);
+  return opts.method === 'visvalingam'
+    ? visvalingam(xy, opts.toleranceM * opts.toleranceM)
+    : douglasPeucker(xy, opts.toleranceM);
+}
+
+export function simplifyReport(points: LatLngTime[], kept: number[]): SimplifyReport {
+  const xy = projectLocal(points);
+  let maxDeviationM = 0;
+  for (let k = 0; k < kept.length - 1; k++) {
+    for (let i = kept[k] + 1; i < kept[k + 1]; i++) {
+      maxDeviationM = Math.max(maxDeviationM, pointSegmentDistance(xy[i], xy[kept[k]], xy[kept[k + 1]]));
+    }
+  }
+  const original = cumulativeDistancesMeters(points);
+  const simplified = cumulativeDistancesMeters(kept.map(i => points[i]));
+  return {
+    kept,
+    removedCount: points.length - kept.length,
+    lengthErrorM: (simplified[simplified.length - 1] || 0) - (original[original.length - 1] || 0),
+    maxDeviationM,
+  };
+}
+
+function projectLocal(points: LatLngTime[]): XY[] {
+  return points.map(localProjection(points));
+}
+
+function douglasPeucker(xy: XY[], tol: number): number[] {
+  // Iterative to stay clear of recursion limits on long tracks
+  const keep = new Uint8Array(xy.length);
+  keep[0] = keep[xy.length - 1] = 1;
+  const stack: [number, number][] = [[0, xy.length - 1]];
+  while (stack.length) {
+    const [a, b] = stack.pop()!;
+    let maxD = -1;
+    let idx = -1;
+    for (let i = a + 1; i < b; i++) {
+      const d = pointSegmentDistance(xy[i], xy[a], xy[b]);
+      if (d > maxD) { maxD = d; idx = i; }
+    }
+    if (idx >= 0 && maxD > tol) {
+      keep[idx] = 1;
+      stack.push([a, idx], [idx, b]);
+    }
+  }
+  const kept: number[] = [];
+  keep.forEach((k, i) => { if (k) kept.push(i); });
+  return kept;
+}
+
+function visvalingam(xy: XY[], minArea: number): number[] {
+  // Repeatedly drop the point whose triangle with its neighbours is smallest,
+  // using a min-heap with lazy deletion of stale entries
+  const n = xy.length;
+  const prev = xy.map((_, i) => i - 1);
+  const next = xy.map((_, i) => i + 1);
+  const alive = new Uint8Array(n).fill(1);
+  const areas = new Float64Array(n).fill(Infinity);
+  const area = (i: number) => {
+    const a = xy[prev[i]];
+    const b = xy[i];
+    const c = xy[next[i]];
+    return Math.abs((a[0] - c[0]) * (b[1] - a[1]) - (a[0] - b[0]) * (c[1] - a[1])) / 2;
+  };
+  const heap = new MinHeap();
+  for (let i = 1; i < n - 1; i++) {
+    areas[i] = area(i);
+    heap.push(areas[i], i);
+  }
+  while (heap.size) {
+    const [min, idx] = heap.pop();
+    if (!alive[idx] || min !== areas[idx]) continue; // stale entry
+    if (min >= minArea) break;
+    alive[idx] = 0;
+    next[prev[idx]] = next[idx];
+    prev[next[idx]] = prev[idx];
+    // A neighbour's area never drops below the one just removed (keeps removal order monotone)
+    for (const j of [prev[idx], next[idx]]) {
+      if (j > 0 && j < n - 1) {
+        areas[j] = Math.max(area(j), min);
+        heap.push(areas[j], j);
+      }
+    }
+  }
+  const kept: number[] = [];
+  alive.forEach((k, i) => { if (k) kept.push(i); });
+  return kept;
+}
+
+class MinHeap {
+  private keys: number[] = [];
+  private vals: number[] = [];
+
+  get size(): number { return this.keys.length; }
+
+  push(key: number, val: number) {
+    const { keys, vals } = this;
+    let i = keys.length;
+    keys.push(key); vals.push(val);
+    while (i > 0) {
+      const p = (i - 1) >> 1;
+      if (keys[p] <= keys[i]) break;
+      this.swap(i, p);
+      i = p;
+    }
+  }
+
+  pop(): [number, number] {
+    const { keys, vals } = this;
+    const top: [number, number] = [keys[0], vals[0]];
+    const lastKey = keys.pop()!;
+    const lastVal = vals.pop()!;
+    if (keys.length) {
+      keys[0] = lastKey; vals[0] = lastVal;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let m = i;
+        if (l < keys.length && keys[l] < keys[m]) m = l;
+        if (r < keys.length && keys[r] < keys[m]) m = r;
+        if (m === i) break;
+        this.swap(i, m);
+        i = m;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number) {
+    const { keys, vals } = this;
+    [keys[a], keys[b]] = [keys[b], keys[a]];
+    [vals[a], vals[b]] = [vals[b], vals[a]];
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_STOP_OPTIONS, detectStops, summarizeMotion } from './stops';
+import type { LatLngTime } from './utils';
+import { cumulativeDistancesMeters } from './utils';
+
+const T0 = Date.parse('2024-07-01T12:00:00Z');
+const M = 1 / 111195; // degrees of latitude per meter
+
+// Drive north at 10 m/s, park for 45 s with GPS jitter, drive on
+function parkedDrive(): { points: LatLngTime[]; timesMs: number[] } {
+  const points: LatLngTime[] = [];
+  const timesMs: number[] = [];
+  let t = T0;
+  let y = 0;
+  const add = (dy: number, dtS: number) => {
+    y += dy;
+    t += dtS * 1000;
+    points.push({ lat: 29.5 + y * M, lon: -95 });
+    timesMs.push(t);
+  };
+  add(0, 0);
+  for (let k = 0; k < 5; k++) add(100, 10);
+  // 20 m jumps while parked: their mean speed is over the limit, the median isn't
+  const parked = [0, 0, 20, -20, 20, -20, 0, 0, 0];
+  for (const dy of parked) add(dy, 5);
+  for (let k = 0; k < 5; k++) add(100, 10);
+  return { points, timesMs };
+}
+
+describe('detectStops', () => {
+  it('finds a jittery stop by its median speed', () => {
+    const { points, timesMs } = parkedDrive();
+    const cum = cumulativeDistancesMeters(points);
+    const stops = detectStops(points, timesMs, cum, DEFAULT_STOP_OPTIONS);
+    expect(stops).toHaveLength(1);
+    expect(stops[0]).toMatchObject({ startIndex: 5, endIndex: 14, durationS: 45 });
+  });
+
+  it('ignores pauses shorter than the minimum', () => {
+    const { points, timesMs } = parkedDrive();
+    const cum = cumulativeDistancesMeters(points);
+    expect(detectStops(points, timesMs, cum, { ...DEFAULT_STOP_OPTIONS, minDurationS: 60 })).toEqual([]);
+  });
+});
+
+describe('summarizeMotion', () => {
+  it('splits the time into moving and stopped', () => {
+    const { points, timesMs } = parkedDrive();
+    const cum = cumulativeDistancesMeters(points);
+    const motion = summarizeMotion(detectStops(points, timesMs, cum, DEFAULT_STOP_OPTIONS), timesMs, cum);
+    expect(motion.stoppedTimeS).toBe(45);
+    expect(motion.movingTimeS).toBe(100);
+    expect(motion.movingAvgMps).toBeCloseTo(10, 1);
+  });
+});
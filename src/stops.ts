@@ -0,0 +1,86 @@
+import type { LatLngTime } from './utils';
+import { haversineMeters } from './utils';
+
+export interface StopOptions {
+  maxSpeedMps: number; // median segment speed over the stop must stay under this
+  radiusM: number; // every point of the stop stays within this distance of its first point
+  minDurationS: number; // shorter pauses are ignored
+}
+
+export const DEFAULT_STOP_OPTIONS: StopOptions = {
+  maxSpeedMps: 1,
+  radiusM: 25,
+  minDurationS: 30,
+};
+
+export interface Stop {
+  startIndex: number;
+  endIndex: number; // inclusive; movement resumes on the segment after it
+  startMs: number;
+  endMs: number;
+  durationS: number;
+  lat: number; // centroid of the stop's points
+  lon: number;
+}
+
+export interface MotionSummary {
+  movingTimeS: number;
+  stoppedTimeS: number;
+  movingAvgMps: number; // distance outside stops / moving time
+}
+
+export function detectStops(points: LatLngTime[], timesMs: number[], cumDistM: number[], opts: StopOptions): Stop[] {
+  const n = points.length;
+  const stops: Stop[] = [];
+  let i = 0;
+  const segSpeed = (k: number) => {
+    const dt = (timesMs[k + 1] - timesMs[k]) / 1000;
+    return dt > 0 ? (cumDistM[k + 1] - cumDistM[k]) / dt : 0;
+  };
+  while (i < n - 1) {
+    // Grow the window while points stay within the radius of its anchor
+    let j = i;
+    while (j + 1 < n && haversineMeters(points[i], points[j + 1]) <= opts.radiusM) j++;
+    // Trim arrival/departure segments off both ends
+    let a = i;
+    let b = j;
+    while (b > a && segSpeed(b - 1) > opts.maxSpeedMps) b--;
+    while (a < b && segSpeed(a) > opts.maxSpeedMps) a++;
+
+    const durationS = (timesMs[b] - timesMs[a]) / 1000;
+    if (b > a && durationS >= opts.minDurationS && medianSegmentSpeed(a, b, segSpeed) <= opts.maxSpeedMps) {
+      let lat = 0;
+      let lon = 0;
+      for (let k = a; k <= b; k++) { lat += points[k].lat; lon += points[k].lon; }
+      const count = b - a + 1;
+      stops.push({ startIndex: a, endIndex: b, startMs: timesMs[a], endMs: timesMs[b], durationS, lat: lat / count, lon: lon / count });
+      i = b + 1;
+    } else {
+      i++;
+    }
+  }
+  return stops;
+}
+
+function medianSegmentSpeed(a: number, b: number, segSpeed: (k: number) => number): number {
+  // Median rather than mean so position jitter while parked doesn't read as movement
+  const speeds: number[] = [];
+  for (let k = a; k < b; k++) speeds.push(segSpeed(k));
+  speeds.sort((x, y) => x - y);
+  const mid = Math.floor(speeds.length / 2);
+  return speeds.length % 2 ? speeds[mid] : (speeds[mid - 1] + speeds[mid]) / 2;
+}
+
+export function summarizeMotion(stops: Stop[], timesMs: number[], cumDistM: number[]): MotionSummary {
+  const totalS = timesMs.length ? (timesMs[timesMs.length - 1] - timesMs[0]) / 1000 : 0;
+  const totalM = cumDistM[cumDistM.length - 1] || 0;
+  let stoppedTimeS = 0;
+  let stoppedDistM = 0;
+  for (const s of stops) {
+    stoppedTimeS += s.durationS;
+    stoppedDistM += cumDistM[s.endIndex] - cumDistM[s.startIndex];
+  }
+  const movingTimeS = Math.max(0, totalS - stoppedTimeS);
+  const movingAvgMps = movingTimeS > 0 ? (totalM - stoppedDistM) / movingTimeS : 0;
+  return { movingTimeS, stoppedTimeS, movingAvgMps };
+}
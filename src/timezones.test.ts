@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { inferTimeZone, isoLocal, isValidTimeZone, offsetText, timeZoneOffsetMinutes } from './timezones';
+
+const JULY = Date.parse('2024-07-01T12:00:00Z');
+const JANUARY = Date.parse('2024-01-15T12:00:00Z');
+
+describe('inferTimeZone', () => {
+  it('finds the zone a city lies in, not the nearest listed one', () => {
+    expect(inferTimeZone(37.97, -87.57)).toBe('America/Chicago'); // Evansville, closer to Louisville
+    expect(inferTimeZone(54.71, 20.51)).toBe('Europe/Kaliningrad');
+    expect(inferTimeZone(-33.87, 151.21)).toBe('Australia/Sydney');
+  });
+
+  it('falls back to the nautical zone at sea and out of range', () => {
+    expect(inferTimeZone(-40, -120)).toBe('Etc/GMT+8');
+    expect(inferTimeZone(95, 30)).toBe('Etc/GMT-2');
+    expect(inferTimeZone(95, 0)).toBe('Etc/UTC');
+  });
+});
+
+describe('offsets', () => {
+  it('follows daylight saving time', () => {
+    expect(timeZoneOffsetMinutes(JULY, 'America/Chicago')).toBe(-300);
+    expect(timeZoneOffsetMinutes(JANUARY, 'America/Chicago')).toBe(-360);
+    expect(timeZoneOffsetMinutes(JULY, 'Asia/Kolkata')).toBe(330);
+  });
+
+  it('writes ISO times with the offset', () => {
+    expect(offsetText(-300)).toBe('-05:00');
+    expect(offsetText(330)).toBe('+05:30');
+    expect(isoLocal(JULY, 'America/Chicago')).toBe('2024-07-01T07:00:00-05:00');
+    expect(isoLocal(JULY, 'UTC')).toBe('2024-07-01T12:00:00+00:00');
+  });
+
+  it('rejects unknown zones', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import tzLookup from '@photostructure/tz-lookup';
+
+// Display time zones: the IANA list, the browser default, offset/ISO helpers and
+// an offline lookup of the zone at a coordinate.
+
+const FALLBACK_ZONES = ['UTC', 'America/New_York', 'America/Chicago', 'America/Denver', 'America/Los_Angeles', 'Europe/London', 'Europe/Berlin', 'Asia/Tokyo', 'Australia/Sydney'];
+
+// Not in the ES2020 typings, and missing from older browsers
+type IntlWithValues = typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+
+export function listTimeZones(): string[] {
+  const supported = (Intl as IntlWithValues).supportedValuesOf?.('timeZone');
+  const zones = supported?.length ? supported : FALLBACK_ZONES;
+  return zones.includes('UTC') ? zones : ['UTC', ...zones];
+}
+
+export function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimeZone(zone: string): boolean {
+  try {
+    new Intl.DateTimeFormat([], { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Minutes to add to UTC to get wall-clock time in the zone at the given instant. */
+export function timeZoneOffsetMinutes(ms: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23',
+    year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+  }).formatToParts(new Date(ms));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  const wall = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((wall - Math.floor(ms / 1000) * 1000) / 60000);
+}
+
+export function offsetText(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`;
+}
+
+/** ISO-8601 wall-clock time in the zone with its offset, e.g. 2024-03-01T08:15:00-06:00. */
+export function isoLocal(ms: number, timeZone: string): string {
+  const offset = timeZoneOffsetMinutes(ms, timeZone);
+  const wall = new Date(ms + offset * 60000).toISOString().slice(0, 19);
+  return wall + offsetText(offset);
+}
+
+/** Short name of the zone at an instant ("CST", "GMT+1", …). */
+export function timeZoneAbbr(ms: number, timeZone: string): string {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(new Date(ms));
+    return parts.find(p => p.type === 'timeZoneName')?.value ?? timeZone;
+  } catch {
+    return timeZone;
+  }
+}
+
+/**
+ * The IANA zone at a coordinate, from the zone boundaries bundled with tz-lookup (simplified,
+ * so points within a kilometer or so of a border can land on the wrong side). Far from land it
+ * returns the nautical Etc/GMT±N zone.
+ */
+export function inferTimeZone(lat: number, lon: number): string {
+  try {
+    const zone = tzLookup(lat, lon);
+    if (isValidTimeZone(zone)) return zone;
+  } catch {
+    // Out-of-range coordinates; the nautical zone below still makes sense for the longitude
+  }
+  // Etc/GMT signs are inverted: Etc/GMT+5 is UTC-5
+  const hours = Math.round(lon / 15);
+  return hours === 0 ? 'Etc/UTC' : `Etc/GMT${hours > 0 ? '-' : '+'}${Math.abs(hours)}`;
+}
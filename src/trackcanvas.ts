@@ -0,0 +1,211 @@
+import L from 'leaflet';
+import type { LatLngTime } from './utils';
+import { heatImage } from './heatmap';
+
+// One canvas over the map for long tracks and heatmaps, redrawn after every pan or zoom,
+// instead of a Leaflet layer per segment and per point. Tracks are thinned to what the zoom
+// can show, and the point under the mouse is looked up on demand.
+
+export type CanvasTrack = {
+  points: LatLngTime[];
+  colors: string[]; // per segment
+  pointColor: string; // point dots, drawn once few enough are in view
+};
+
+export type HeatSource = {
+  points: LatLngTime[];
+  weights: number[]; // per point
+};
+
+export type TrackCanvasData = {
+  tracks: CanvasTrack[];
+  heat: HeatSource[]; // drawn under the tracks
+};
+
+export type TrackCanvas = {
+  setData: (data: TrackCanvasData) => void;
+  /** Track and point index nearest the container point, if within maxPx. */
+  nearest: (at: L.Point, maxPx: number) => { track: number; index: number } | null;
+};
+
+// A point closer than this to the last one drawn is skipped at that zoom
+const MIN_STEP_PX = 2;
+// Dots only when zoomed in this far: fewer points than this in view
+const MAX_DOTS = 2000;
+// Drawn beyond the view on each side, so a short pan doesn't show an empty edge
+const PAD = 0.1;
+const HEAT_CELL_PX = 2; // the heatmap is computed on a coarser grid and scaled up
+const HEAT_RADIUS_PX = 14;
+
+/** World pixel coordinates of every point at one zoom, and the points left after thinning. */
+type Projected = { zoom: number; xs: Float64Array; ys: Float64Array; kept: number[] };
+
+export function createTrackCanvas(map: L.Map): TrackCanvas {
+  const canvas = L.DomUtil.create('canvas', 'track-canvas leaflet-zoom-hide') as HTMLCanvasElement;
+  // Under Leaflet's own vector canvas, so halos, the selection and the hover marker stay on top
+  const pane = map.getPanes().overlayPane;
+  pane.insertBefore(canvas, pane.firstChild);
+  const ctx = canvas.getContext('2d')!;
+  let tracks: CanvasTrack[] = [];
+  let heat: HeatSource[] = [];
+  // One zoom per track is enough: everything is redrawn at the new zoom anyway
+  const projections = new WeakMap<LatLngTime[], Projected>();
+
+  function projected(points: LatLngTime[]): Projected {
+    const zoom = map.getZoom();
+    const cached = projections.get(points);
+    if (cached?.zoom === zoom) return cached;
+    const xs = new Float64Array(points.length);
+    const ys = new Float64Array(points.length);
+    const kept: number[] = [];
+    points.forEach((p, i) => {
+      const px = map.project([p.lat, p.lon], zoom);
+      xs[i] = px.x;
+      ys[i] = px.y;
+      const last = kept[kept.length - 1];
+      if (last == null || i === points.length - 1 || Math.hypot(px.x - xs[last], px.y - ys[last]) >= MIN_STEP_PX) kept.push(i);
+    });
+    const p = { zoom, xs, ys, kept };
+    projections.set(points, p);
+    return p;
+  }
+
+  /** World pixel of the canvas's top-left corner. */
+  function origin(): L.Point {
+    const size = map.getSize();
+    return map.getPixelBounds().min!.subtract([size.x * PAD, size.y * PAD]);
+  }
+
+  function draw() {
+    if (!hasView()) return;
+    const size = map.getSize();
+    const w = Math.round(size.x * (1 + 2 * PAD));
+    const h = Math.round(size.y * (1 + 2 * PAD));
+    const dpr = window.devicePixelRatio || 1;
+    L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([-size.x * PAD, -size.y * PAD]));
+    canvas.style.width = `${w}px`;
+    canvas.style.height = `${h}px`;
+    if (canvas.width !== Math.round(w * dpr) || canvas.height !== Math.round(h * dpr)) {
+      canvas.width = Math.round(w * dpr);
+      canvas.height = Math.round(h * dpr);
+    }
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, w, h);
+    const o = origin();
+    if (heat.length) drawHeat(o, w, h);
+    for (const track of tracks) drawTrack(track, o, w, h);
+  }
+
+  function drawHeat(o: L.Point, w: number, h: number) {
+    const gw = Math.ceil(w / HEAT_CELL_PX);
+    const gh = Math.ceil(h / HEAT_CELL_PX);
+    const xs: number[] = [];
+    const ys: number[] = [];
+    const weights: number[] = [];
+    for (const source of heat) {
+      const p = projected(source.points);
+      for (let i = 0; i < source.points.length; i++) {
+        xs.push((p.xs[i] - o.x) / HEAT_CELL_PX);
+        ys.push((p.ys[i] - o.y) / HEAT_CELL_PX);
+        weights.push(source.weights[i]);
+      }
+    }
+    const grid = document.createElement('canvas');
+    grid.width = gw;
+    grid.height = gh;
+    const gridCtx = grid.getContext('2d')!;
+    const image = gridCtx.createImageData(gw, gh);
+    image.data.set(heatImage(xs, ys, weights, gw, gh, HEAT_RADIUS_PX / HEAT_CELL_PX));
+    gridCtx.putImageData(image, 0, 0);
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(grid, 0, 0, gw * HEAT_CELL_PX, gh * HEAT_CELL_PX);
+  }
+
+  function drawTrack(track: CanvasTrack, o: L.Point, w: number, h: number) {
+    const { xs, ys, kept } = projected(track.points);
+    const x = (i: number) => xs[i] - o.x;
+    const y = (i: number) => ys[i] - o.y;
+    const outside = (a: number, b: number) => (x(a) < 0 && x(b) < 0) || (x(a) > w && x(b) > w) || (y(a) < 0 && y(b) < 0) || (y(a) > h && y(b) > h);
+
+    // Segments, one path per run of the same color; a thinned segment takes its first color
+    ctx.lineWidth = 5;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.globalAlpha = 0.9;
+    let color = '';
+    let open = false;
+    for (let k = 0; k + 1 < kept.length; k++) {
+      const a = kept[k];
+      const b = kept[k + 1];
+      if (outside(a, b)) {
+        if (open) ctx.stroke();
+        open = false;
+        continue;
+      }
+      if (!open || track.colors[a] !== color) {
+        if (open) ctx.stroke();
+        color = track.colors[a];
+        ctx.strokeStyle = color;
+        ctx.beginPath();
+        ctx.moveTo(x(a), y(a));
+        open = true;
+      }
+      ctx.lineTo(x(b), y(b));
+    }
+    if (open) ctx.stroke();
+
+    // Dots at the points in view, hollow where the time was filled in
+    const inView = kept.filter(i => x(i) >= 0 && x(i) <= w && y(i) >= 0 && y(i) <= h);
+    if (inView.length <= MAX_DOTS) {
+      ctx.lineWidth = 1;
+      ctx.strokeStyle = track.pointColor;
+      ctx.fillStyle = track.pointColor;
+      for (const i of inView) {
+        ctx.beginPath();
+        ctx.arc(x(i), y(i), 3, 0, 2 * Math.PI);
+        ctx.globalAlpha = 0.7;
+        if (!track.points[i].timeFill) ctx.fill();
+        ctx.globalAlpha = 1;
+        ctx.stroke();
+      }
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  function hasView(): boolean {
+    // Leaflet throws until the first fit or setView
+    try {
+      map.getCenter();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  map.on('moveend resize', draw);
+
+  return {
+    setData(data) {
+      tracks = data.tracks;
+      heat = data.heat;
+      draw();
+    },
+    nearest(at, maxPx) {
+      if (!hasView()) return null;
+      const world = map.getPixelBounds().min!.add(at);
+      let best: { track: number; index: number } | null = null;
+      let bestD = maxPx;
+      for (let t = 0; t < tracks.length; t++) {
+        const { xs, ys } = projected(tracks[t].points);
+        for (let i = 0; i < xs.length; i++) {
+          const d = Math.hypot(xs[i] - world.x, ys[i] - world.y);
+          if (d <= bestD) {
+            bestD = d;
+            best = { track: t, index: i };
+          }
+        }
+      }
+      return best;
+    },
+  };
+}
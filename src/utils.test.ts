@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import type { LatLngTime } from './utils';
+import {
+  cumulativeDistancesMeters,
+  fillTimeGaps,
+  localProjection,
+  pointSegmentDistance,
+  positionAtTime,
+  reconstructTimes,
+  resampleSampleCount,
+  resampleTrack,
+} from './utils';
+
+const T0 = Date.parse('2024-07-01T12:00:00Z');
+
+// Points due north along a meridian, `stepDeg` apart, one every `stepS` seconds
+function northward(n: number, stepDeg = 0.001, stepS = 10): LatLngTime[] {
+  return Array.from({ length: n }, (_, i) => ({ lat: 29.5 + i * stepDeg, lon: -95, t: T0 + i * stepS * 1000 }));
+}
+
+describe('resampleTrack', () => {
+  it('samples at a fixed time step and keeps the last point', () => {
+    const points = northward(3);
+    const times = points.map(p => p.t!);
+    const out = resampleTrack(points, times, { mode: 'time', step: 4, method: 'linear' });
+    expect(out.timesMs.map(t => (t - T0) / 1000)).toEqual([0, 4, 8, 12, 16, 20]);
+    expect(out.points[1].lat).toBeCloseTo(29.5004, 6);
+    expect(out.points[5]).toMatchObject({ lat: points[2].lat, lon: -95 });
+  });
+
+  it('samples at a fixed distance step', () => {
+    const points = northward(3);
+    const times = points.map(p => p.t!);
+    const out = resampleTrack(points, times, { mode: 'distance', step: 50, method: 'linear' });
+    const cum = cumulativeDistancesMeters(out.points);
+    expect(cum[1]).toBeCloseTo(50, 3);
+    expect(cum[2]).toBeCloseTo(100, 3);
+    expect(out.timesMs[out.timesMs.length - 1]).toBe(times[2]);
+  });
+
+  it('interpolates elevation and keeps times increasing with the spline', () => {
+    const points = northward(4).map((p, i) => ({ ...p, ele: i * 10 }));
+    const times = points.map(p => p.t!);
+    times[2] += 8000; // uneven speed
+    const out = resampleTrack(points, times, { mode: 'distance', step: 20, method: 'spline' });
+    for (let i = 1; i < out.timesMs.length; i++) expect(out.timesMs[i]).toBeGreaterThanOrEqual(out.timesMs[i - 1]);
+    expect(out.points[1].ele).toBeCloseTo(20 / cumulativeDistancesMeters(points)[1] * 10, 1);
+  });
+
+  it('returns a copy when there is nothing to resample', () => {
+    const points = northward(1);
+    expect(resampleTrack(points, [T0], { mode: 'time', step: 1, method: 'linear' })).toEqual({ points, timesMs: [T0] });
+  });
+});
+
+describe('resampleSampleCount', () => {
+  it('counts the samples a step would produce', () => {
+    const times = [T0, T0 + 100000];
+    const cum = [0, 1000];
+    expect(resampleSampleCount(times, cum, { mode: 'time', step: 1, method: 'linear' })).toBe(101);
+    expect(resampleSampleCount(times, cum, { mode: 'distance', step: 0.01, method: 'linear' })).toBe(100001);
+    expect(resampleSampleCount(times, cum, { mode: 'distance', step: 0, method: 'linear' })).toBe(0);
+  });
+});
+
+describe('reconstructTimes', () => {
+  const cum = [0, 10, 30, 60];
+
+  it('spreads times by index or by distance', () => {
+    expect(reconstructTimes(cum, 0, 60000, 'index')).toEqual([0, 20000, 40000, 60000]);
+    expect(reconstructTimes(cum, 0, 60000, 'distance')).toEqual([0, 10000, 30000, 60000]);
+    // No end time: a second per vertex
+    expect(reconstructTimes(cum, 0, undefined, 'distance')).toEqual([0, 500, 1500, 3000]);
+  });
+
+  it('snaps onto the sample rate grid and keeps the end time', () => {
+    expect(reconstructTimes(cum, 0, 60000, 'hints', { sampleRateS: 7 })).toEqual([0, 7000, 28000, 60000]);
+  });
+
+  it('takes a missing end time from the sample rate and point count', () => {
+    expect(reconstructTimes(cum, 0, undefined, 'hints', { sampleRateS: 2, pointCount: 10 })).toEqual([0, 4000, 10000, 18000]);
+  });
+
+  it('ignores a point count below the vertex count', () => {
+    expect(reconstructTimes(cum, 0, undefined, 'hints', { sampleRateS: 2, pointCount: 2 })).toEqual([0, 2000, 4000, 6000]);
+  });
+});
+
+describe('fillTimeGaps', () => {
+  it('keeps known times and spreads gaps by distance', () => {
+    const { timesMs, fill } = fillTimeGaps([0, NaN, NaN, 60000], [0, 10, 30, 60]);
+    expect(timesMs).toEqual([0, 10000, 30000, 60000]);
+    expect(fill).toEqual([undefined, 'interpolated', 'interpolated', undefined]);
+  });
+
+  it('extrapolates at the speed of the nearest known stretch', () => {
+    // 1 m/s at the start, 4 m/s at the end
+    const { timesMs, fill } = fillTimeGaps([NaN, 10000, 20000, 25000, NaN], [0, 10, 20, 40, 80]);
+    expect(timesMs).toEqual([0, 10000, 20000, 25000, 35000]);
+    expect(fill).toEqual(['extrapolated', undefined, undefined, undefined, 'extrapolated']);
+  });
+
+  it('steps by index where the speed is unknown', () => {
+    expect(fillTimeGaps([NaN, 5000, NaN], [0, 10, 20], 2000).timesMs).toEqual([3000, 5000, 7000]);
+    expect(fillTimeGaps([NaN, NaN], [0, 10]).timesMs.every(t => isNaN(t))).toBe(true);
+  });
+});
+
+describe('pointSegmentDistance', () => {
+  it('measures to the nearest point of the segment', () => {
+    expect(pointSegmentDistance([5, 3], [0, 0], [10, 0])).toBe(3);
+    expect(pointSegmentDistance([13, 4], [0, 0], [10, 0])).toBe(5);
+    expect(pointSegmentDistance([3, 4], [0, 0], [0, 0])).toBe(5);
+  });
+
+  it('works in the meters of localProjection', () => {
+    const points = northward(2, 0.01);
+    const project = localProjection(points);
+    const [a, b] = points.map(project);
+    // A flat approximation, close to the great-circle distance
+    expect(Math.hypot(b[0] - a[0], b[1] - a[1]) / cumulativeDistancesMeters(points)[1]).toBeCloseTo(1, 1);
+  });
+});
+
+describe('positionAtTime', () => {
+  const points = northward(3);
+  const times = points.map(p => p.t!);
+
+  it('interpolates between the samples around the time', () => {
+    const at = positionAtTime(points, times, T0 + 15000);
+    expect(at).toMatchObject({ index: 1, fraction: 0.5, lon: -95 });
+    expect(at.lat).toBeCloseTo(29.5015, 6);
+    expect(positionAtTime(points, times, T0 + 10000)).toMatchObject({ index: 1, fraction: 0, lat: points[1].lat });
+  });
+
+  it('holds the ends outside the recording', () => {
+    expect(positionAtTime(points, times, T0 - 5000)).toEqual({ lat: points[0].lat, lon: -95, index: 0, fraction: 0 });
+    expect(positionAtTime(points, times, T0 + 60000)).toEqual({ lat: points[2].lat, lon: -95, index: 2, fraction: 0 });
+    expect(positionAtTime([], [], T0).index).toBe(-1);
+  });
+});
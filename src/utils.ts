@@ -4,8 +4,13 @@ export interface LatLngTime {
   lat: number;
   lon: number;
   t?: number; // epoch ms
+  ele?: number; // meters, when the input carries elevation
+  timeFill?: TimeFill; // set when t was missing and the route's time was filled in around it
 }
 
+/** How a missing point time was filled: between two known times, or beyond the first/last one. */
+export type TimeFill = 'interpolated' | 'extrapolated';
+
 export function decodePolyline(str: string, precision = 5): [number, number][] {
   // Returns [lat, lon] pairs
   const coords: [number, number][] = [];
@@ -41,10 +46,37 @@ export function decodePolyline(str: string, precision = 5): [number, number][] {
   return coords;
 }
 
+export function encodePolyline(coords: [number, number][], precision = 5): string {
+  // Takes [lat, lon] pairs; inverse of decodePolyline
+  const factor = Math.pow(10, precision);
+  let out = '';
+  let prevLat = 0;
+  let prevLon = 0;
+  const encodeValue = (v: number) => {
+    let num = v < 0 ? ~(v << 1) : v << 1;
+    while (num >= 0x20) {
+      out += String.fromCharCode((0x20 | (num & 0x1f)) + 63);
+      num >>= 5;
+    }
+    out += String.fromCharCode(num + 63);
+  };
+  for (const [latDeg, lonDeg] of coords) {
+    const lat = Math.round(latDeg * factor);
+    const lon = Math.round(lonDeg * factor);
+    encodeValue(lat - prevLat);
+    encodeValue(lon - prevLon);
+    prevLat = lat;
+    prevLon = lon;
+  }
+  return out;
+}
+
 export function toRad(x: number): number { return (x * Math.PI) / 180; }
 
+const EARTH_RADIUS_M = 6371000;
+
 export function haversineMeters(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
-  const R = 6371000; // meters
+  const R = EARTH_RADIUS_M; // meters
   const dLat = toRad(b.lat - a.lat);
   const dLon = toRad(b.lon - a.lon);
   const lat1 = toRad(a.lat);
@@ -66,6 +98,65 @@ export function bearingDegrees(a: { lat: number; lon: number }, b: { lat: number
   return deg;
 }
 
+export type XY = [number, number];
+
+/** Equirectangular meters around the points' mean latitude; fine at route scale. */
+export function localProjection(points: { lat: number }[]): (p: { lat: number; lon: number }) => XY {
+  const lat0 = points.reduce((a, p) => a + p.lat, 0) / (points.length || 1);
+  const kx = 111320 * Math.cos(toRad(lat0));
+  const ky = 110540;
+  return p => [p.lon * kx, p.lat * ky];
+}
+
+/** Distance from p to the segment a–b, in the units of the projection. */
+export function pointSegmentDistance(p: XY, a: XY, b: XY): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const len2 = dx * dx + dy * dy;
+  const t = len2 > 0 ? Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / len2)) : 0;
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+}
+
+export function interpolateGreatCircle(a: { lat: number; lon: number }, b: { lat: number; lon: number }, f: number): { lat: number; lon: number } {
+  // Spherical linear interpolation; falls back to planar for (near) identical points
+  const δ = haversineMeters(a, b) / EARTH_RADIUS_M;
+  if (δ < 1e-12) return { lat: a.lat + (b.lat - a.lat) * f, lon: a.lon + (b.lon - a.lon) * f };
+  const φ1 = toRad(a.lat);
+  const φ2 = toRad(b.lat);
+  const λ1 = toRad(a.lon);
+  const λ2 = toRad(b.lon);
+  const A = Math.sin((1 - f) * δ) / Math.sin(δ);
+  const B = Math.sin(f * δ) / Math.sin(δ);
+  const x = A * Math.cos(φ1) * Math.cos(λ1) + B * Math.cos(φ2) * Math.cos(λ2);
+  const y = A * Math.cos(φ1) * Math.sin(λ1) + B * Math.cos(φ2) * Math.sin(λ2);
+  const z = A * Math.sin(φ1) + B * Math.sin(φ2);
+  const lat = (Math.atan2(z, Math.sqrt(x * x + y * y)) * 180) / Math.PI;
+  const lon = (Math.atan2(y, x) * 180) / Math.PI;
+  return { lat, lon };
+}
+
+export function positionAtTime(points: LatLngTime[], timesMs: number[], tMs: number): { lat: number; lon: number; index: number; fraction: number } {
+  // Position at time tMs, interpolated between the samples around it; index is the sample
+  // at or before tMs and fraction how far along the following segment it is (0..1)
+  const n = points.length;
+  if (n === 0) return { lat: NaN, lon: NaN, index: -1, fraction: 0 };
+  if (n === 1 || tMs <= timesMs[0]) return { ...pick(points[0]), index: 0, fraction: 0 };
+  if (tMs >= timesMs[n - 1]) return { ...pick(points[n - 1]), index: n - 1, fraction: 0 };
+  let lo = 0;
+  let hi = n - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (timesMs[mid] <= tMs) lo = mid; else hi = mid;
+  }
+  const dt = timesMs[hi] - timesMs[lo];
+  const fraction = dt > 0 ? (tMs - timesMs[lo]) / dt : 0;
+  return { ...interpolateGreatCircle(points[lo], points[hi], fraction), index: lo, fraction };
+}
+
+function pick(p: { lat: number; lon: number }): { lat: number; lon: number } {
+  return { lat: p.lat, lon: p.lon };
+}
+
 export function cumulativeDistancesMeters(points: LatLngTime[]): number[] {
   const cum: number[] = [0];
   for (let i = 1; i < points.length; i++) {
@@ -86,11 +177,16 @@ export function computeSegmentSpeedsMps(timesMs: number[], cumDistM: number[]):
   return speeds;
 }
 
-export function effectiveSamplingIntervalSec(timesMs: number[]): number {
-  if (timesMs.length < 2) return 0;
+/** Seconds between consecutive samples, length n-1. */
+export function timeDeltasSec(timesMs: number[]): number[] {
   const dts: number[] = [];
   for (let i = 0; i < timesMs.length - 1; i++) dts.push((timesMs[i + 1] - timesMs[i]) / 1000);
-  dts.sort((a, b) => a - b);
+  return dts;
+}
+
+export function effectiveSamplingIntervalSec(timesMs: number[]): number {
+  if (timesMs.length < 2) return 0;
+  const dts = timeDeltasSec(timesMs).sort((a, b) => a - b);
   const mid = Math.floor(dts.length / 2);
   return dts.length % 2 ? dts[mid] : (dts[mid - 1] + dts[mid]) / 2;
 }
@@ -117,6 +213,108 @@ export function distributeEvenTimes(startMs: number, endMs: number, n: number):
   return times;
 }
 
+export function distributeTimesByDistance(startMs: number, endMs: number, cumDistM: number[]): number[] {
+  // Constant-speed model: time advances in proportion to distance travelled
+  const n = cumDistM.length;
+  const total = cumDistM[n - 1] - cumDistM[0];
+  if (n < 2 || !(total > 0)) return distributeEvenTimes(startMs, endMs, n);
+  return cumDistM.map(d => Math.round(startMs + ((endMs - startMs) * (d - cumDistM[0])) / total));
+}
+
+/**
+ * Fills the NaN gaps in a partly known time series, keeping every known time as is. Gaps between
+ * two known times are spread by distance along the path; leading and trailing gaps continue at the
+ * speed of the nearest known stretch (or stepMs per point when that speed is unknown).
+ */
+export function fillTimeGaps(timesMs: number[], cumDistM: number[], stepMs = 1000): { timesMs: number[]; fill: (TimeFill | undefined)[] } {
+  const n = timesMs.length;
+  const known = timesMs.flatMap((t, i) => (isFinite(t) ? [i] : []));
+  const out = timesMs.slice();
+  const fill: (TimeFill | undefined)[] = new Array(n).fill(undefined);
+  if (!known.length) return { timesMs: out, fill };
+
+  for (let k = 0; k + 1 < known.length; k++) {
+    const a = known[k];
+    const b = known[k + 1];
+    const span = cumDistM[b] - cumDistM[a];
+    for (let i = a + 1; i < b; i++) {
+      const u = span > 0 ? (cumDistM[i] - cumDistM[a]) / span : (i - a) / (b - a);
+      out[i] = Math.round(timesMs[a] + (timesMs[b] - timesMs[a]) * u);
+      fill[i] = 'interpolated';
+    }
+  }
+
+  // Speed over a known stretch, if it tells anything
+  const speedBetween = (a: number, b: number) => {
+    const dt = (timesMs[b] - timesMs[a]) / 1000;
+    const v = dt > 0 ? (cumDistM[b] - cumDistM[a]) / dt : NaN;
+    return v > 0 ? v : undefined;
+  };
+  const first = known[0];
+  const last = known[known.length - 1];
+  const overall = known.length > 1 ? speedBetween(first, last) : undefined;
+  const leadMps = (known.length > 1 ? speedBetween(first, known[1]) : undefined) ?? overall;
+  const trailMps = (known.length > 1 ? speedBetween(known[known.length - 2], last) : undefined) ?? overall;
+  for (let i = first - 1; i >= 0; i--) {
+    const d = cumDistM[first] - cumDistM[i];
+    out[i] = Math.round(timesMs[first] - (leadMps && d > 0 ? (d / leadMps) * 1000 : (first - i) * stepMs));
+    fill[i] = 'extrapolated';
+  }
+  for (let i = last + 1; i < n; i++) {
+    const d = cumDistM[i] - cumDistM[last];
+    out[i] = Math.round(timesMs[last] + (trailMps && d > 0 ? (d / trailMps) * 1000 : (i - last) * stepMs));
+    fill[i] = 'extrapolated';
+  }
+  return { timesMs: out, fill };
+}
+
+export type TimeReconstruction = 'index' | 'distance' | 'hints';
+
+export interface TimeHints {
+  sampleRateS?: number; // recorder sampling interval the vertices were taken from
+  pointCount?: number; // samples in the recording the vertices were taken from
+}
+
+// Where reconstructed times start for a route with no start time: a fixed instant rather than
+// the moment of import, so the same file always gives the same times (and exports, share links)
+export const UNDATED_START_MS = 0;
+
+export function reconstructTimes(
+  cumDistM: number[],
+  startMs: number,
+  endMs: number | undefined,
+  mode: TimeReconstruction,
+  hints: TimeHints = {},
+): number[] {
+  const n = cumDistM.length;
+  const rateMs = hints.sampleRateS && hints.sampleRateS > 0 ? hints.sampleRateS * 1000 : undefined;
+  // A declared count below the vertex count can't be the recording's, so it's ignored
+  const samples = hints.pointCount && hints.pointCount >= n ? hints.pointCount : undefined;
+  // Without an end time, assume one sample interval (or 1 s) per sample (or per vertex)
+  const end = endMs ?? (mode === 'hints'
+    ? startMs + Math.max(0, (samples ?? n) - 1) * (rateMs ?? 1000)
+    : startMs + Math.max(0, n - 1) * 1000);
+  if (mode === 'index') return distributeEvenTimes(startMs, end, n);
+
+  const times = distributeTimesByDistance(startMs, end, cumDistM);
+  // The sampling grid: the sample rate, or else the declared samples spread over the span
+  const gridMs = rateMs ?? (samples && samples > 1 ? (end - startMs) / (samples - 1) : undefined);
+  if (mode === 'distance' || !(gridMs && gridMs > 0)) return times;
+
+  // Hints: vertices are a subset of samples taken every gridMs, so snap each
+  // distance-proportional time onto that grid while keeping them increasing.
+  const slots = Math.floor((end - startMs) / gridMs + 1e-9);
+  const minGap = slots >= n - 1 ? Math.floor(gridMs) : 0;
+  for (let i = 0; i < n; i++) {
+    const snapped = Math.round(startMs + Math.round((times[i] - startMs) / gridMs) * gridMs);
+    times[i] = i === 0 ? startMs : Math.max(snapped, times[i - 1] + minGap);
+  }
+  // Walk back from the end so the last vertex lands on the known end time
+  times[n - 1] = end;
+  for (let i = n - 2; i > 0; i--) times[i] = Math.min(times[i], times[i + 1] - minGap);
+  return times;
+}
+
 export function formatDuration(seconds: number): string {
   if (!isFinite(seconds) || seconds < 0) return '—';
   const s = Math.round(seconds);
@@ -144,6 +342,11 @@ export function formatDistance(distanceMeters: number, units: UnitSystem): { tex
   }
 }
 
+export function formatElevation(meters: number, units: UnitSystem): string {
+  if (!isFinite(meters)) return '—';
+  return units === 'imperial' ? `${(meters / 0.3048).toFixed(0)} ft` : `${meters.toFixed(0)} m`;
+}
+
 export function mpsToSpeedText(mps: number, units: UnitSystem): { text: string; value: number; unit: string } {
   if (!isFinite(mps)) return { text: '—', value: 0, unit: '' };
   if (units === 'imperial') {
@@ -175,11 +378,30 @@ export function isoUtc(ms: number): string {
 
 export function speedColor(mps: number, maxMps: number): string {
   // Map 0..max to blue->cyan->yellow->red via HSL (240 -> 0)
+  const hue = speedHue(mps, maxMps);
+  return `hsl(${hue.toFixed(0)}, 90%, 50%)`;
+}
+
+export function speedColorHex(mps: number, maxMps: number): string {
+  // Same color as speedColor, as #rrggbb for formats that don't take CSS colors
+  return hslToHex(Math.round(speedHue(mps, maxMps)), 0.9, 0.5);
+}
+
+function speedHue(mps: number, maxMps: number): number {
   const clamped = Math.max(0, Math.min(maxMps || 1, mps));
   const t = clamped / (maxMps || 1);
   // 240 (blue) to 0 (red)
-  const hue = 240 * (1 - t);
-  return `hsl(${hue.toFixed(0)}, 90%, 50%)`;
+  return 240 * (1 - t);
+}
+
+function hslToHex(h: number, s: number, l: number): string {
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const c = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(c * 255).toString(16).padStart(2, '0');
+  };
+  return `#${f(0)}${f(8)}${f(4)}`;
 }
 
 export function average(arr: number[]): number {
@@ -187,3 +409,134 @@ export function average(arr: number[]): number {
   return arr.reduce((a, b) => a + b, 0) / arr.length;
 }
 
+export type InterpolationMethod = 'linear' | 'spline';
+
+export interface ResampleOptions {
+  mode: 'time' | 'distance';
+  step: number; // seconds for 'time', meters for 'distance'
+  method: InterpolationMethod;
+}
+
+// More samples than this is almost certainly a mistyped step
+export const MAX_RESAMPLED_POINTS = 200000;
+
+export function resampleSampleCount(timesMs: number[], cumDistM: number[], opts: ResampleOptions): number {
+  const span = opts.mode === 'time'
+    ? (timesMs[timesMs.length - 1] - timesMs[0]) / 1000
+    : cumDistM[cumDistM.length - 1] - cumDistM[0];
+  if (!(opts.step > 0) || !isFinite(span) || span <= 0) return 0;
+  return Math.ceil(span / opts.step) + 1;
+}
+
+export function resampleTrack(points: LatLngTime[], timesMs: number[], opts: ResampleOptions): { points: LatLngTime[]; timesMs: number[] } {
+  // Positions at a fixed time step (every `step` s) or distance step (every `step` m along the path).
+  // Linear positions follow the great circle between samples; spline uses a cubic Hermite through
+  // neighbouring samples (position vs time, or time vs distance in distance mode). The last input
+  // sample is always kept so the series spans the full track.
+  const n = points.length;
+  if (n < 2 || timesMs.length !== n || !(opts.step > 0)) {
+    return { points: points.map(p => ({ ...p })), timesMs: timesMs.slice() };
+  }
+  const cum = cumulativeDistancesMeters(points);
+  const out: LatLngTime[] = [];
+  const outTimes: number[] = [];
+  const push = (p: { lat: number; lon: number }, t: number, ele?: number) => {
+    const tr = Math.round(t);
+    out.push(ele != null ? { lat: p.lat, lon: p.lon, t: tr, ele } : { lat: p.lat, lon: p.lon, t: tr });
+    outTimes.push(tr);
+  };
+  // Elevation follows linearly in both methods
+  const eleAt = (i: number, u: number) => {
+    const a = points[i].ele;
+    const b = points[i + 1].ele;
+    return a != null && b != null ? a + (b - a) * u : undefined;
+  };
+
+  if (opts.mode === 'time') {
+    const latSlopes = opts.method === 'spline' ? catmullRomSlopes(timesMs, points.map(p => p.lat)) : [];
+    const lonSlopes = opts.method === 'spline' ? catmullRomSlopes(timesMs, points.map(p => p.lon)) : [];
+    const stepMs = opts.step * 1000;
+    const t0 = timesMs[0];
+    const tEnd = timesMs[n - 1];
+    let i = 0;
+    for (let t = t0; t < tEnd; t += stepMs) {
+      while (i < n - 2 && timesMs[i + 1] <= t) i++;
+      const h = timesMs[i + 1] - timesMs[i];
+      const u = h > 0 ? Math.min(1, Math.max(0, (t - timesMs[i]) / h)) : 0;
+      if (opts.method === 'spline' && h > 0) {
+        push({
+          lat: cubicHermite(points[i].lat, points[i + 1].lat, latSlopes[i], latSlopes[i + 1], h, u),
+          lon: cubicHermite(points[i].lon, points[i + 1].lon, lonSlopes[i], lonSlopes[i + 1], h, u),
+        }, t, eleAt(i, u));
+      } else {
+        push(interpolateGreatCircle(points[i], points[i + 1], u), t, eleAt(i, u));
+      }
+    }
+  } else {
+    const tSlopes = opts.method === 'spline' ? monotoneSlopes(cum, timesMs) : [];
+    const dEnd = cum[n - 1];
+    let i = 0;
+    for (let d = 0; d < dEnd; d += opts.step) {
+      while (i < n - 2 && cum[i + 1] <= d) i++;
+      const h = cum[i + 1] - cum[i];
+      const u = h > 0 ? Math.min(1, Math.max(0, (d - cum[i]) / h)) : 0;
+      const t = opts.method === 'spline' && h > 0
+        ? cubicHermite(timesMs[i], timesMs[i + 1], tSlopes[i], tSlopes[i + 1], h, u)
+        : timesMs[i] + (timesMs[i + 1] - timesMs[i]) * u;
+      push(interpolateGreatCircle(points[i], points[i + 1], u), t, eleAt(i, u));
+    }
+  }
+  push(points[n - 1], timesMs[n - 1], points[n - 1].ele);
+  return { points: out, timesMs: outTimes };
+}
+
+function cubicHermite(y0: number, y1: number, m0: number, m1: number, h: number, u: number): number {
+  const u2 = u * u;
+  const u3 = u2 * u;
+  return (2 * u3 - 3 * u2 + 1) * y0 + (u3 - 2 * u2 + u) * h * m0 + (-2 * u3 + 3 * u2) * y1 + (u3 - u2) * h * m1;
+}
+
+function catmullRomSlopes(xs: number[], ys: number[]): number[] {
+  // Non-uniform Catmull-Rom tangents; zero where neighbouring x values coincide
+  const n = xs.length;
+  const m: number[] = new Array(n).fill(0);
+  for (let i = 0; i < n; i++) {
+    const a = Math.max(0, i - 1);
+    const b = Math.min(n - 1, i + 1);
+    const dx = xs[b] - xs[a];
+    m[i] = dx > 0 ? (ys[b] - ys[a]) / dx : 0;
+  }
+  return m;
+}
+
+function monotoneSlopes(xs: number[], ys: number[]): number[] {
+  // Fritsch-Carlson tangents so interpolated values never overshoot between samples
+  const n = xs.length;
+  const delta: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    const dx = xs[i + 1] - xs[i];
+    delta[i] = dx > 0 ? (ys[i + 1] - ys[i]) / dx : 0;
+  }
+  const m: number[] = new Array(n).fill(0);
+  m[0] = delta[0];
+  m[n - 1] = delta[n - 2];
+  for (let i = 1; i < n - 1; i++) {
+    m[i] = delta[i - 1] * delta[i] <= 0 ? 0 : (delta[i - 1] + delta[i]) / 2;
+  }
+  for (let i = 0; i < n - 1; i++) {
+    if (delta[i] === 0) { m[i] = 0; m[i + 1] = 0; continue; }
+    const a = m[i] / delta[i];
+    const b = m[i + 1] / delta[i];
+    const s = a * a + b * b;
+    if (s > 9) {
+      const k = 3 / Math.sqrt(s);
+      m[i] = k * a * delta[i];
+      m[i + 1] = k * b * delta[i];
+    }
+  }
+  return m;
+}
+
+export function escapeXml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
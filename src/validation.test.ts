@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { parseRouteFile } from './importers';
+import type { LatLngTime } from './utils';
+import { validateRoute, type ValidationContext } from './validation';
+
+const T0 = Date.parse('2024-07-01T12:00:00Z');
+
+const ctx: ValidationContext = { path: '$', locate: i => `$.points[${i}]` };
+
+function route(points: LatLngTime[], meta: { startMs?: number; endMs?: number } = {}) {
+  return { points, timesMs: points.map(p => p.t ?? NaN), timeSource: 'per-point', meta };
+}
+
+describe('validateRoute', () => {
+  it('passes a clean route through unchanged', () => {
+    const points = [{ lat: 29.5, lon: -95, t: T0 }, { lat: 29.501, lon: -95, t: T0 + 1000 }];
+    const result = validateRoute(route(points), ctx);
+    expect(result.issues).toEqual([]);
+    expect(result.points).toBe(points);
+  });
+
+  it('drops bad coordinates and reports the first one', () => {
+    const points = [
+      { lat: 29.5, lon: -95, t: T0 },
+      { lat: NaN, lon: -95, t: T0 + 1000 },
+      { lat: 29.502, lon: 200, t: T0 + 2000 },
+      { lat: 29.503, lon: -95, t: T0 + 3000 },
+    ];
+    const result = validateRoute(route(points), ctx);
+    expect(result.points.map(p => p.lat)).toEqual([29.5, 29.503]);
+    expect(result.timesMs).toEqual([T0, T0 + 3000]);
+    expect(result.issues).toEqual([
+      { level: 'error', path: '$.points[1]', message: '1 point with missing or non-numeric coordinates will be skipped' },
+      { level: 'error', path: '$.points[2]', message: '1 point outside ±90° latitude / ±180° longitude will be skipped' },
+    ]);
+  });
+
+  it('swaps [lat, lon] pairs that only make sense the other way round', () => {
+    const points = [{ lat: -95, lon: 29.5 }, { lat: -95.001, lon: 29.5 }];
+    const result = validateRoute(route(points, { startMs: T0 }), ctx);
+    expect(result.points).toEqual([{ lat: 29.5, lon: -95 }, { lat: 29.5, lon: -95.001 }]);
+    expect(result.issues[0].message).toMatch(/look swapped/);
+  });
+
+  it('swaps in-range pairs that miss the bbox but land in it swapped', () => {
+    const points = [{ lat: 10, lon: 50 }, { lat: 10.001, lon: 50 }];
+    const result = validateRoute(route(points, { startMs: T0 }), { ...ctx, bbox: { path: '$.bbox', value: [9, 49, 11, 51] } });
+    expect(result.points[0]).toEqual({ lat: 50, lon: 10 });
+    expect(result.issues.map(i => i.level)).toEqual(['error']);
+  });
+
+  it('warns about points outside the bbox and an unreadable bbox', () => {
+    const points = [{ lat: 29.5, lon: -95 }, { lat: 31, lon: -95 }];
+    const outside = validateRoute(route(points, { startMs: T0 }), { ...ctx, bbox: { path: '$.bbox', value: [-96, 29, -94, 30] } });
+    expect(outside.issues).toEqual([{ level: 'warning', path: '$.points[1]', message: '1 point outside the declared bbox [-96, 29, -94, 30]' }]);
+    const unreadable = validateRoute(route(points, { startMs: T0 }), { ...ctx, bbox: { path: '$.bbox', value: 'x' } });
+    expect(unreadable.issues[0]).toMatchObject({ path: '$.bbox', message: expect.stringMatching(/ignored/) });
+  });
+
+  it('flags exact repeats, times going backwards and zero-length steps', () => {
+    const points = [
+      { lat: 29.5, lon: -95, t: T0 },
+      { lat: 29.5, lon: -95, t: T0 },
+      { lat: 29.501, lon: -95, t: T0 },
+      { lat: 29.502, lon: -95, t: T0 - 1000 },
+    ];
+    const result = validateRoute(route(points), ctx);
+    expect(result.issues).toEqual([
+      { level: 'warning', path: '$.points[1]', message: '1 exact repeat of the previous point' },
+      { level: 'warning', path: '$.points[3]', message: 'time goes backwards at 1 point; speeds there come out negative' },
+      { level: 'warning', path: '$.points[2]', message: '1 point with the same time as the previous one (zero-length time steps)' },
+    ]);
+    // Reported, but kept
+    expect(result.points).toHaveLength(4);
+  });
+
+  it('counts only kept points as untimed', () => {
+    const points = [
+      { lat: 29.5, lon: -95, t: T0 },
+      { lat: NaN, lon: -95 },
+      { lat: 29.502, lon: -95 },
+      { lat: 29.503, lon: -95, t: T0 + 3000 },
+    ];
+    const result = validateRoute(route(points), ctx);
+    expect(result.issues.map(i => i.message)).toContain('1 of 3 points have no time; they were filled in from the recorded times around them');
+  });
+
+  it('checks time order against the last kept time, not a dropped point', () => {
+    const points = [
+      { lat: 29.5, lon: -95, t: T0 },
+      { lat: 29.501, lon: 500, t: T0 + 9000 },
+      { lat: 29.502, lon: -95, t: T0 + 2000 },
+    ];
+    const result = validateRoute(route(points), ctx);
+    expect(result.issues.map(i => i.level)).toEqual(['error']);
+    expect(result.timesMs).toEqual([T0, T0 + 2000]);
+  });
+
+  it('warns when no kept point has a time and there is no start time', () => {
+    const points = [{ lat: 29.5, lon: -95 }, { lat: 91, lon: -95, t: T0 }, { lat: 29.502, lon: -95 }];
+    const result = validateRoute(route(points), ctx);
+    expect(result.issues.map(i => i.message)).toContain('no start time; reconstructed times count from 1970-01-01T00:00:00.000Z');
+    expect(result.issues.map(i => i.message).join()).not.toMatch(/have no time/);
+  });
+
+  it('reports declared values that disagree with the data', () => {
+    const points = [{ lat: 29.5, lon: -95 }, { lat: 29.501, lon: -95 }];
+    const result = validateRoute(route(points, { startMs: T0, endMs: T0 - 1 }), {
+      ...ctx,
+      pointCount: { path: '$.point_count', declared: 3, decoded: 2 },
+      timestamps: { path: '$.timestamps', count: 1, expected: 2 },
+      precisionGuess: { path: '$.polyline', precision: 5 },
+    });
+    expect(result.issues.map(i => [i.level, i.path])).toEqual([
+      ['warning', '$.point_count'],
+      ['warning', '$.polyline'],
+      ['warning', '$.timestamps'],
+      ['error', '$'],
+    ]);
+  });
+});
+
+describe('parseRouteFile validation', () => {
+  it('reports against the original paths and fills times after dropping points', () => {
+    const feature = {
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: [[-95, 29.5, 0, T0], [-95.001, 29.5], ['x', 29.5, 0, T0 + 9e6], [-95.002, 29.5], [-95.003, 29.5, 0, T0 + 60000]],
+      },
+    };
+    const [parsed] = parseRouteFile('a.json', JSON.stringify(feature));
+    expect(parsed.issues?.[0]).toMatchObject({ level: 'error', path: '$.geometry.coordinates[2]' });
+    expect(parsed.points).toHaveLength(4);
+    expect(parsed.timesMs[0]).toBe(T0);
+    expect(parsed.timesMs[3]).toBe(T0 + 60000);
+    expect(parsed.timesMs[1]).toBeGreaterThan(T0);
+    expect(parsed.timesMs[2]).toBeLessThan(T0 + 60000);
+    expect(parsed.points.map(p => p.timeFill)).toEqual([undefined, 'interpolated', 'interpolated', undefined]);
+  });
+});
@@ -0,0 +1,182 @@
+import type { LatLngTime } from './utils';
+import { UNDATED_START_MS, isoUtc } from './utils';
+
+// Structured checks on imported routes. Importers describe where each point came from
+// (a JSON path such as $.features[2].geometry.coordinates[17], or an element path for
+// XML formats); the checks report problems against those paths and return the points
+// that are safe to use.
+
+export type IssueLevel = 'error' | 'warning';
+
+export interface ValidationIssue {
+  level: IssueLevel; // errors mean data was dropped or changed; warnings are suspicious but kept
+  path: string; // first place the problem occurs
+  message: string;
+}
+
+/** Path of the point at an index. */
+export type Locator = (index: number) => string;
+
+export interface ValidationContext {
+  path: string; // the route as a whole
+  locate: Locator;
+  locateTime?: Locator; // where point times came from, when not the points themselves
+  timestamps?: { path: string; count: number; expected: number }; // a separate times array, if given
+  pointCount?: { path: string; declared: number; decoded: number };
+  bbox?: { path: string; value: unknown };
+  precisionGuess?: { path: string; precision: number }; // an encoded polyline without a declared precision
+}
+
+interface RouteInput {
+  points: LatLngTime[];
+  timesMs: number[];
+  timeSource: string;
+  meta: { startMs?: number; endMs?: number };
+}
+
+/** Runs every check; returns the issues plus the points (and their times) that are safe to use. */
+export function validateRoute(route: RouteInput, ctx: ValidationContext): { issues: ValidationIssue[]; points: LatLngTime[]; timesMs: number[] } {
+  const issues: ValidationIssue[] = [];
+  const report = (level: IssueLevel, indices: number[], message: (n: number) => string, locate = ctx.locate) => {
+    if (indices.length) issues.push({ level, path: locate(indices[0]), message: message(indices.length) });
+  };
+  let { points, timesMs } = route;
+  const n = points.length;
+
+  // Coordinates
+  const invalid = indicesWhere(n, i => !isCoordinate(points[i].lat) || !isCoordinate(points[i].lon));
+  report('error', invalid, k => `${plural(k, 'point')} with missing or non-numeric coordinates will be skipped`);
+  const dropped = new Set(invalid);
+  const finite = indicesWhere(n, i => !dropped.has(i));
+  const outOfRange = finite.filter(i => !inRange(points[i]));
+  const bbox = readBbox(ctx.bbox?.value);
+  if (ctx.bbox && !bbox) {
+    issues.push({ level: 'warning', path: ctx.bbox.path, message: 'bbox is not [west, south, east, north]; ignored' });
+  }
+  if (looksSwapped(points, finite, outOfRange, bbox)) {
+    report('error', outOfRange.length ? outOfRange : finite, () =>
+      'latitude and longitude look swapped; each pair will be read the other way round');
+    points = points.map(p => ({ ...p, lat: p.lon, lon: p.lat }));
+  } else {
+    report('error', outOfRange, k => `${plural(k, 'point')} outside ±90° latitude / ±180° longitude will be skipped`);
+    outOfRange.forEach(i => dropped.add(i));
+  }
+
+  // Bounding box and declared point count
+  if (bbox) {
+    const outside = indicesWhere(n, i => !dropped.has(i) && !insideBbox(points[i], bbox));
+    report('warning', outside, k => `${plural(k, 'point')} outside the declared bbox [${bbox.join(', ')}]`);
+  }
+  const count = ctx.pointCount;
+  if (count && count.declared !== count.decoded) {
+    issues.push({
+      level: 'warning',
+      path: count.path,
+      message: `point_count is ${count.declared} but ${count.decoded} points were decoded (expected if the line was simplified; the sample-rate time model relies on it)`,
+    });
+  }
+
+  if (ctx.precisionGuess) {
+    issues.push({
+      level: 'warning',
+      path: ctx.precisionGuess.path,
+      message: `no polyline_precision; read as precision ${ctx.precisionGuess.precision}. A precision-6 line within 9° latitude and 18° longitude of 0°, 0° reads the same way, 10× too far out`,
+    });
+  }
+
+  // Duplicates: same place and same (or no) time as the point before
+  const duplicates = indicesWhere(n, i => i > 0 && points[i].lat === points[i - 1].lat && points[i].lon === points[i - 1].lon
+    && points[i].t === points[i - 1].t);
+  report('warning', duplicates, k => `${plural(k, 'exact repeat')} of the previous point`);
+
+  // Times, of the points that are kept
+  const kept = indicesWhere(n, i => !dropped.has(i));
+  const timed = indicesWhere(n, i => typeof points[i].t === 'number');
+  const untimed = kept.filter(i => typeof points[i].t !== 'number');
+  if (untimed.length && timed.some(i => !dropped.has(i))) {
+    report('warning', untimed, k => `${k} of ${kept.length} points have no time; they were filled in from the recorded times around them`);
+  }
+  const ts = ctx.timestamps;
+  if (ts && !timed.length && ts.count !== ts.expected) {
+    issues.push({ level: 'warning', path: ts.path, message: `timestamps has ${ts.count} entries for ${ts.expected} points, so it was ignored` });
+  } else if (ts && !timed.length && route.timeSource !== 'timestamps') {
+    issues.push({ level: 'warning', path: ts.path, message: 'timestamps has entries that are not valid times, so it was ignored' });
+  }
+  const keptMs = timesMs.map((t, i) => (dropped.has(i) ? NaN : t));
+  if (keptMs.some(t => isFinite(t))) {
+    // Against the previous known time: missing times (NaN) are filled in after validation
+    const prev = previousKnown(keptMs);
+    const backwards = indicesWhere(keptMs.length, i => keptMs[i] < prev[i]);
+    report('warning', backwards, k => `time goes backwards at ${plural(k, 'point')}; speeds there come out negative`, ctx.locateTime);
+    const exact = new Set(duplicates);
+    const repeated = indicesWhere(keptMs.length, i => keptMs[i] === prev[i] && !exact.has(i));
+    report('warning', repeated, k => `${plural(k, 'point')} with the same time as the previous one (zero-length time steps)`, ctx.locateTime);
+  } else if (route.meta.startMs == null) {
+    issues.push({ level: 'warning', path: ctx.path, message: `no start time; reconstructed times count from ${isoUtc(UNDATED_START_MS)}` });
+  }
+  if (route.meta.startMs != null && route.meta.endMs != null && route.meta.endMs < route.meta.startMs) {
+    issues.push({ level: 'error', path: ctx.path, message: 'end time is before start time' });
+  }
+
+  if (dropped.size) {
+    points = kept.map(i => points[i]);
+    if (timesMs.length === n) timesMs = kept.map(i => timesMs[i]);
+  }
+  return { issues, points, timesMs };
+}
+
+function indicesWhere(n: number, test: (i: number) => boolean): number[] {
+  const out: number[] = [];
+  for (let i = 0; i < n; i++) if (test(i)) out.push(i);
+  return out;
+}
+
+/** Per index, the last finite time before it (NaN if none). */
+function previousKnown(timesMs: number[]): number[] {
+  let last = NaN;
+  return timesMs.map((t) => {
+    const prev = last;
+    if (isFinite(t)) last = t;
+    return prev;
+  });
+}
+
+function inRange(p: LatLngTime): boolean {
+  return Math.abs(p.lat) <= 90 && Math.abs(p.lon) <= 180;
+}
+
+function isCoordinate(v: unknown): boolean {
+  return typeof v === 'number' && isFinite(v);
+}
+
+/**
+ * [lat, lon] order mistaken for [lon, lat]: most points are out of range and all become valid
+ * when swapped, or (all in range) the points miss the declared bbox but land inside it swapped.
+ * A few stray out-of-range points are just bad points.
+ */
+function looksSwapped(points: LatLngTime[], finite: number[], outOfRange: number[], bbox: number[] | undefined): boolean {
+  if (!finite.length) return false;
+  const swapped = (i: number) => ({ lat: points[i].lon, lon: points[i].lat });
+  if (outOfRange.length) return outOfRange.length * 2 >= finite.length && finite.every(i => inRange(swapped(i)));
+  if (!bbox) return false;
+  return finite.every(i => insideBbox(swapped(i), bbox)) && !finite.every(i => insideBbox(points[i], bbox));
+}
+
+function readBbox(value: unknown): number[] | undefined {
+  // [west, south, east, north], or with min/max elevation: [w, s, zmin, e, n, zmax]
+  if (!Array.isArray(value) || !value.every(v => typeof v === 'number' && isFinite(v))) return undefined;
+  if (value.length === 4) return value;
+  if (value.length === 6) return [value[0], value[1], value[3], value[4]];
+  return undefined;
+}
+
+function insideBbox(p: { lat: number; lon: number }, [w, s, e, n]: number[]): boolean {
+  const eps = 1e-7;
+  // A bbox crossing the antimeridian has west > east
+  const lonOk = w <= e ? p.lon >= w - eps && p.lon <= e + eps : p.lon >= w - eps || p.lon <= e + eps;
+  return lonOk && p.lat >= s - eps && p.lat <= n + eps;
+}
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? '' : 's'}`;
+}